@@ -0,0 +1,281 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { WallabagProvider } from '../providers/wallabag';
+import { PocketProvider } from '../providers/pocket';
+import { InstapaperProvider, signOAuthRequest } from '../providers/instapaper';
+
+type Handler = (req: IncomingMessage, body: string, res: ServerResponse) => void;
+
+/**
+ * Start a local HTTP server that routes requests to a handler
+ */
+async function startServer(handler: Handler): Promise<{ server: Server; url: string }> {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => handler(req, body, res));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}` };
+}
+
+function sendJson(res: ServerResponse, data: unknown, status = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+describe('WallabagProvider', () => {
+  let server: Server;
+  let serverUrl: string;
+  const requests: string[] = [];
+
+  beforeAll(async () => {
+    ({ server, url: serverUrl } = await startServer((req, body, res) => {
+      const url = new URL(req.url || '', 'http://localhost');
+      requests.push(`${req.method} ${url.pathname}${url.search}`);
+
+      if (url.pathname === '/oauth/v2/token') {
+        const form = new URLSearchParams(body);
+        if (form.get('client_secret') !== 'secret' || form.get('password') !== 'pass') {
+          sendJson(res, { error: 'invalid_grant' }, 400);
+          return;
+        }
+        sendJson(res, { access_token: 'token-123', token_type: 'bearer' });
+        return;
+      }
+
+      if (url.pathname === '/api/entries/exists.json') {
+        sendJson(res, { exists: url.searchParams.get('url') === 'https://example.com/1' ? 1 : false });
+        return;
+      }
+
+      if (req.method === 'PATCH' && url.pathname === '/api/entries/1.json') {
+        sendJson(res, { id: 1, is_archived: Number(new URLSearchParams(body).get('archive')) });
+        return;
+      }
+
+      if (url.pathname === '/api/entries.json') {
+        if (req.headers.authorization !== 'Bearer token-123') {
+          sendJson(res, { error: 'access_denied' }, 401);
+          return;
+        }
+
+        const page = Number(url.searchParams.get('page'));
+        sendJson(res, {
+          page,
+          pages: 2,
+          _embedded: {
+            items: [{
+              id: page,
+              title: `Entry ${page}`,
+              url: `https://example.com/${page}`,
+              content: '<p>Hello <strong>world</strong> &amp; friends</p>',
+              published_by: ['Ada Lovelace'],
+              published_at: '2024-02-01T00:00:00+0000',
+              created_at: '2024-03-01T12:00:00+0000',
+              tags: [{ label: 'reading' }],
+            }],
+          },
+        });
+        return;
+      }
+
+      sendJson(res, { error: 'not found' }, 404);
+    }));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  const credentials = { apiKey: 'client', apiSecret: 'secret', username: 'user', password: 'pass' };
+
+  test('should authenticate with the password grant and follow all pages', async () => {
+    const provider = new WallabagProvider({ enabled: true, serverUrl: `${serverUrl}/`, credentials });
+
+    expect(await provider.authenticate()).toBe(true);
+    const articles = await provider.fetchArticles();
+
+    expect(articles.map(a => a.url)).toEqual(['https://example.com/1', 'https://example.com/2']);
+    expect(articles[0]).toMatchObject({
+      title: 'Entry 1',
+      excerpt: 'Hello world & friends',
+      author: 'Ada Lovelace',
+      source: 'Wallabag',
+      tags: ['reading'],
+    });
+    expect(articles[0].addedDate.toISOString()).toBe('2024-03-01T12:00:00.000Z');
+    expect(articles[0].content).toBeUndefined();
+    expect(requests.filter(r => r.startsWith('GET /api/entries.json'))).toHaveLength(2);
+  });
+
+  test('should include Markdown content when full text is enabled', async () => {
+    const provider = new WallabagProvider({ enabled: true, serverUrl, fetchFullText: true, credentials });
+
+    await provider.authenticate();
+    const articles = await provider.fetchArticles();
+
+    expect(articles[0].content).toBe('Hello **world** & friends');
+  });
+
+  test('should stop at maxItems', async () => {
+    const provider = new WallabagProvider({ enabled: true, serverUrl, maxItems: 1, credentials });
+
+    await provider.authenticate();
+    expect(await provider.fetchArticles()).toHaveLength(1);
+    expect(requests.filter(r => r.startsWith('GET /api/entries.json'))).toHaveLength(1);
+  });
+
+  test('should archive saved entries by URL', async () => {
+    const provider = new WallabagProvider({ enabled: true, serverUrl, credentials });
+
+    await provider.authenticate();
+    const results = await provider.archiveArticles(['https://example.com/1', 'https://example.com/9']);
+
+    expect(provider.supportsArchive()).toBe(true);
+    expect(results).toEqual([
+      { url: 'https://example.com/1', success: true },
+      { url: 'https://example.com/9', success: false, error: 'Not found in saved list' },
+    ]);
+    expect(requests).toContain('PATCH /api/entries/1.json');
+  });
+
+  test('should fail authentication with bad credentials', async () => {
+    const provider = new WallabagProvider({
+      enabled: true,
+      serverUrl,
+      credentials: { ...credentials, password: 'wrong' },
+    });
+
+    await expect(provider.authenticate()).rejects.toMatchObject({ kind: 'auth' });
+    await expect(provider.fetchArticles()).rejects.toThrow('Not authenticated');
+  });
+});
+
+describe('PocketProvider', () => {
+  test('should page through unread items newest first and map tags and authors', async () => {
+    const bodies: Array<Record<string, unknown>> = [];
+    const { server, url } = await startServer((req, body, res) => {
+      const request = JSON.parse(body);
+      bodies.push(request);
+
+      // A full first page forces a second request, which comes back empty.
+      // Older items have lower IDs, so key order is the reverse of sort_id.
+      const list: Record<string, unknown> = {};
+      if (request.offset === 0) {
+        for (let i = 0; i < 100; i++) {
+          list[String(1000 - i)] = {
+            item_id: String(1000 - i),
+            sort_id: i,
+            resolved_url: `https://example.com/${i}`,
+            resolved_title: `Item ${i}`,
+            excerpt: 'An excerpt',
+            time_added: '1700000000',
+            tags: { tech: { tag: 'tech' } },
+            authors: { 1: { name: 'Grace Hopper' } },
+          };
+        }
+      }
+      sendJson(res, { list: request.offset === 0 ? list : [] });
+    });
+
+    try {
+      const provider = new PocketProvider({
+        enabled: true,
+        serverUrl: url,
+        credentials: { apiKey: 'consumer', sessionToken: 'access' },
+      });
+
+      expect(await provider.authenticate()).toBe(true);
+      const articles = await provider.fetchArticles();
+
+      expect(articles).toHaveLength(100);
+      expect(articles[0]).toMatchObject({
+        title: 'Item 0',
+        url: 'https://example.com/0',
+        author: 'Grace Hopper',
+        tags: ['tech'],
+      });
+      expect(articles[99].title).toBe('Item 99');
+      expect(articles[0].addedDate.getTime()).toBe(1700000000 * 1000);
+      expect(bodies.map(b => b.offset)).toEqual([0, 100]);
+      expect(bodies[0]).toMatchObject({ consumer_key: 'consumer', access_token: 'access', state: 'unread' });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
+describe('InstapaperProvider', () => {
+  test('should sign requests with OAuth 1.0a HMAC-SHA1', () => {
+    // Example from the OAuth 1.0a spec (RFC 5849, section 1.2)
+    const header = signOAuthRequest(
+      'GET',
+      'http://photos.example.net/photos',
+      { file: 'vacation.jpg', size: 'original' },
+      { key: 'dpf43f3p2l4k3l03', secret: 'kd94hf93k423kf44' },
+      { token: 'nnch734d00sl2jdk', secret: 'pfkkdhi9sl3r4s00' },
+      'kllo9940pd9333jh',
+      '1191242096'
+    );
+
+    expect(header).toContain('oauth_signature="tR3%2BTy81lMeYAr%2FFid0kMTYa%2FWM%3D"');
+  });
+
+  test('should exchange credentials for a token and list bookmarks', async () => {
+    const { server, url } = await startServer((req, body, res) => {
+      if (req.url === '/oauth/access_token') {
+        res.writeHead(200, { 'Content-Type': 'application/x-www-form-urlencoded' });
+        res.end('oauth_token=tok&oauth_token_secret=sec');
+        return;
+      }
+
+      if (!req.headers.authorization?.includes('oauth_token="tok"')) {
+        sendJson(res, [{ type: 'error', error_code: 1040 }], 403);
+        return;
+      }
+
+      sendJson(res, [
+        { type: 'meta' },
+        { type: 'user', user_id: 1 },
+        {
+          type: 'bookmark',
+          bookmark_id: 5,
+          title: 'Saved',
+          url: 'https://example.com/saved',
+          description: 'Summary',
+          time: 1700000000,
+          tags: [{ name: 'later' }],
+        },
+      ]);
+    });
+
+    try {
+      const provider = new InstapaperProvider({
+        enabled: true,
+        serverUrl: url,
+        credentials: { apiKey: 'key', apiSecret: 'secret', username: 'me', password: 'pw' },
+      });
+
+      expect(await provider.authenticate()).toBe(true);
+      const articles = await provider.fetchArticles();
+
+      expect(articles).toEqual([{
+        title: 'Saved',
+        url: 'https://example.com/saved',
+        excerpt: 'Summary',
+        source: 'Instapaper',
+        addedDate: new Date(1700000000 * 1000),
+        tags: ['later'],
+      }]);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { ArticleIndex, normalizeUrl } from '../sync/article-index';
+import { ReadLaterArticle } from '../types';
+
+function article(url: string, title = 'Title'): ReadLaterArticle {
+  return {
+    title,
+    url,
+    source: 'Wired.com',
+    addedDate: new Date('2024-01-01T00:00:00Z'),
+  };
+}
+
+describe('normalizeUrl', () => {
+  test('should ignore www prefix, trailing slash and fragment', () => {
+    expect(normalizeUrl('https://www.wired.com/story/foo/#comments'))
+      .toBe(normalizeUrl('https://wired.com/story/foo'));
+  });
+
+  test('should drop tracking params and sort the rest', () => {
+    expect(normalizeUrl('https://example.com/a?utm_source=x&b=2&a=1'))
+      .toBe('example.com/a?a=1&b=2');
+  });
+
+  test('should fall back to the raw string for invalid URLs', () => {
+    expect(normalizeUrl(' /Relative/Path ')).toBe('/relative/path');
+  });
+});
+
+describe('ArticleIndex', () => {
+  test('should only return articles not seen before', () => {
+    const index = new ArticleIndex();
+    index.add(article('https://www.wired.com/story/one'));
+
+    const fresh = index.filterNew([
+      article('https://wired.com/story/one/'),
+      article('https://wired.com/story/two'),
+      article('https://wired.com/story/two?utm_medium=email'),
+    ]);
+
+    expect(fresh.map(a => a.url)).toEqual(['https://wired.com/story/two']);
+    expect(index.size).toBe(2);
+  });
+
+  test('should refresh the details of a known article, keeping its added date and status', () => {
+    const index = new ArticleIndex();
+    index.add(article('https://wired.com/story/one', 'Old title'));
+    index.setStatus('https://wired.com/story/one', 'read');
+
+    const added = index.add({ ...article('https://wired.com/story/one', 'New title'), author: 'Ada', addedDate: new Date() });
+
+    expect(added).toBe(false);
+    expect(index.get('https://wired.com/story/one')).toMatchObject({
+      title: 'New title',
+      author: 'Ada',
+      addedDate: '2024-01-01T00:00:00.000Z',
+      status: 'read',
+    });
+  });
+
+  test('should fill in the source of an article a rebuild could not attribute', () => {
+    const index = new ArticleIndex();
+    index.rebuild([{ ...article('https://wired.com/story/one'), source: 'Unknown' }]);
+
+    index.add(article('https://wired.com/story/one'));
+
+    expect(index.getSource('https://wired.com/story/one')).toBe('Wired.com');
+    expect(index.withStatus('unread', 'Wired.com')).toHaveLength(1);
+  });
+
+  test('should round-trip through JSON', () => {
+    const index = new ArticleIndex();
+    index.add(article('https://wired.com/story/one'));
+
+    const restored = ArticleIndex.fromJSON(index.toJSON());
+
+    expect(restored.has('https://www.wired.com/story/one')).toBe(true);
+    expect(restored.size).toBe(1);
+  });
+
+  test('should start empty on missing or corrupt data', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(ArticleIndex.fromJSON(null).size).toBe(0);
+    expect(ArticleIndex.fromJSON('{not json').size).toBe(0);
+  });
+
+  test('should rebuild from existing Markdown output', () => {
+    const index = new ArticleIndex();
+    const content = [
+      '## One',
+      '- **URL:** https://wired.com/story/one',
+      '## Two',
+      '- [Read](https://theguardian.com/world/two).',
+    ].join('\n');
+
+    expect(index.rebuildFromContent(content)).toBe(2);
+    expect(index.has('https://theguardian.com/world/two')).toBe(true);
+  });
+});
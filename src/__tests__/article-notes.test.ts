@@ -0,0 +1,95 @@
+import {
+  slugify,
+  renderArticleNote,
+  updateArticleNote,
+  planArticleNotes,
+  splitFrontmatter,
+  getFrontmatterValue
+} from '../sync/article-notes';
+import { ReadLaterArticle } from '../types';
+
+const article: ReadLaterArticle = {
+  title: 'Why "AI" Is Eating: The Café Menu?',
+  url: 'https://www.wired.com/story/ai-cafe/',
+  source: 'Wired.com',
+  author: 'Jane Doe',
+  addedDate: new Date('2024-03-01T10:00:00Z'),
+  tags: ['ai', 'food'],
+};
+
+describe('slugify', () => {
+  test('should produce a filesystem-safe slug', () => {
+    expect(slugify(article.title)).toBe('why-ai-is-eating-the-cafe-menu');
+  });
+
+  test('should fall back to untitled', () => {
+    expect(slugify('???')).toBe('untitled');
+  });
+});
+
+describe('article notes', () => {
+  test('should render frontmatter with all article fields', () => {
+    const note = renderArticleNote(article, 'Body\n');
+    const { frontmatter, body } = splitFrontmatter(note);
+
+    expect(body).toBe('Body\n');
+    expect(getFrontmatterValue(frontmatter!, 'url')).toBe(article.url);
+    expect(getFrontmatterValue(frontmatter!, 'author')).toBe('Jane Doe');
+    expect(getFrontmatterValue(frontmatter!, 'status')).toBe('unread');
+    expect(frontmatter).toContain('tags:\n  - "ai"\n  - "food"');
+  });
+
+  test('should update frontmatter but keep body, custom keys, status and added date', () => {
+    const original = [
+      '---',
+      'url: "https://www.wired.com/story/ai-cafe/"',
+      'source: "Wired.com"',
+      'addedDate: 2024-01-01T00:00:00.000Z',
+      'status: read',
+      'rating: 5',
+      '---',
+      'My notes',
+    ].join('\n');
+
+    const updated = updateArticleNote(original, { ...article, author: 'John Roe' });
+    const { frontmatter, body } = splitFrontmatter(updated);
+
+    expect(body).toBe('My notes');
+    expect(getFrontmatterValue(frontmatter!, 'author')).toBe('John Roe');
+    expect(getFrontmatterValue(frontmatter!, 'status')).toBe('read');
+    expect(getFrontmatterValue(frontmatter!, 'rating')).toBe('5');
+    expect(getFrontmatterValue(frontmatter!, 'addedDate')).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  test('should match existing notes by URL instead of creating duplicates', () => {
+    const existing = {
+      path: 'Articles/renamed.md',
+      content: renderArticleNote({ ...article, url: 'https://wired.com/story/ai-cafe' }, 'Notes'),
+    };
+
+    const writes = planArticleNotes(
+      [{ ...article, author: 'New Author' }],
+      [existing],
+      'Articles',
+      () => 'Body'
+    );
+
+    expect(writes).toHaveLength(1);
+    expect(writes[0].path).toBe('Articles/renamed.md');
+    expect(writes[0].created).toBe(false);
+  });
+
+  test('should skip unchanged notes and suffix colliding filenames', () => {
+    const existing = {
+      path: 'Articles/why-ai-is-eating-the-cafe-menu.md',
+      content: renderArticleNote(article, 'Body'),
+    };
+    const other = { ...article, url: 'https://wired.com/story/other' };
+
+    const writes = planArticleNotes([article, other], [existing], 'Articles/', () => 'Body');
+
+    expect(writes).toHaveLength(1);
+    expect(writes[0].path).toBe('Articles/why-ai-is-eating-the-cafe-menu-2.md');
+    expect(writes[0].created).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import { ProcessError, commandExists, runProcess } from '../process';
+import { CredentialManager } from '../credentials/manager';
+import { CredentialUnavailableError } from '../credentials/errors';
+import { readBitwardenField } from '../credentials/providers/bitwarden';
+
+jest.mock('../process', () => ({
+  ...jest.requireActual('../process'),
+  runProcess: jest.fn(),
+  commandExists: jest.fn(async () => true),
+}));
+
+const run = runProcess as jest.Mock;
+
+const ITEM = {
+  name: 'Wired',
+  login: { username: 'reader@example.com', password: 'hunter2' },
+  fields: [{ name: 'pin', value: '1234' }],
+};
+
+/**
+ * Answer `bw` calls like the CLI would with the vault in the given state
+ * Unlocking with "master" gives the session key "session-key"
+ */
+function fakeBw(status: string): void {
+  run.mockImplementation(async (command: string, args: string[], options: { env: Record<string, string> }) => {
+    const unlocked = status === 'unlocked' || options.env.BW_SESSION === 'session-key';
+    const output = (stdout: string) => ({ stdout, stderr: '' });
+    const [, subcommand] = args; // after --nointeraction
+    switch (subcommand) {
+      case 'status':
+        return output(JSON.stringify({ status: unlocked ? 'unlocked' : status }));
+      case 'get':
+        if (!unlocked) throw new ProcessError('bw get failed: Vault is locked.', 'bw', 1, '', 'Vault is locked.');
+        return output(JSON.stringify(ITEM));
+      case 'unlock':
+        if (options.env.READLATER_BW_PASSWORD !== 'master') {
+          throw new ProcessError('bw unlock failed: Invalid master password.', 'bw', 1, '', 'Invalid master password.\n');
+        }
+        return output('session-key\n');
+    }
+    throw new Error(`unexpected bw ${args.join(' ')}`);
+  });
+}
+
+function itemFetches(): number {
+  return run.mock.calls.filter(([, args]) => args[1] === 'get').length;
+}
+
+describe('readBitwardenField', () => {
+  test('should read the login and custom fields', () => {
+    expect(readBitwardenField(ITEM, 'username')).toBe('reader@example.com');
+    expect(readBitwardenField(ITEM, 'password')).toBe('hunter2');
+    expect(readBitwardenField(ITEM, 'pin')).toBe('1234');
+    expect(readBitwardenField(ITEM, 'totp')).toBeNull();
+  });
+});
+
+describe('Bitwarden references', () => {
+  beforeEach(() => {
+    run.mockReset();
+  });
+
+  test('should fetch each item once for all its fields', async () => {
+    fakeBw('unlocked');
+    const manager = new CredentialManager({ bitwardenSession: '' });
+
+    const resolved = await manager.resolveReferences({ username: 'bw://Wired/username', password: 'bw://Wired/password' });
+    await manager.resolveReferences({ username: 'bw://Wired/username' });
+
+    expect(resolved).toEqual({ username: 'reader@example.com', password: 'hunter2' });
+    expect(itemFetches()).toBe(1);
+  });
+
+  test('should not check the CLI is installed when the secret is cached', async () => {
+    fakeBw('unlocked');
+    (commandExists as jest.Mock).mockClear();
+    const manager = new CredentialManager({ bitwardenSession: '' });
+
+    await manager.resolveReferences({ password: 'bw://Wired/password' });
+    await manager.resolveReferences({ password: 'bw://Wired/password' });
+
+    expect(commandExists).toHaveBeenCalledTimes(1);
+  });
+
+  test('should pass item names starting with "-" as arguments, not options', async () => {
+    fakeBw('unlocked');
+    const manager = new CredentialManager({ bitwardenSession: '' });
+
+    await manager.resolveReferences({ password: 'bw://--raw/password' });
+
+    expect(run.mock.calls.find(([, args]) => args[1] === 'get')[1]).toEqual(['--nointeraction', 'get', 'item', '--', '--raw']);
+  });
+
+  test('should report a locked vault with what to run', async () => {
+    fakeBw('locked');
+    const manager = new CredentialManager({ bitwardenSession: '' });
+
+    const failure = manager.resolveReferences({ password: 'bw://Wired/password' });
+
+    await expect(failure).rejects.toBeInstanceOf(CredentialUnavailableError);
+    await expect(failure).rejects.toMatchObject({ provider: 'bitwarden', reason: 'locked' });
+    await expect(failure).rejects.toThrow('bw unlock --raw');
+    expect(itemFetches()).toBe(0);
+  });
+
+  test('should report a logged-out CLI', async () => {
+    fakeBw('unauthenticated');
+    const manager = new CredentialManager({ bitwardenSession: '' });
+
+    await expect(manager.resolveReferences({ password: 'bw://Wired/password' })).rejects.toMatchObject({
+      reason: 'signed-out',
+      message: expect.stringContaining('bw login'),
+    });
+  });
+
+  test('should use a session key from the environment or the options', async () => {
+    fakeBw('locked');
+    const manager = new CredentialManager({ bitwardenSession: 'session-key' });
+
+    expect(await manager.resolveCredential(manager.parseReference('bw://Wired/password'))).toBe('hunter2');
+  });
+
+  test('should unlock with the master password and keep the session', async () => {
+    fakeBw('locked');
+    const manager = new CredentialManager({ bitwardenSession: '' });
+
+    await expect(manager.unlockBitwarden('wrong')).rejects.toThrow('Invalid master password.');
+    await manager.unlockBitwarden('master');
+
+    expect(await manager.resolveReferences({ password: 'bw://Wired/password' })).toEqual({ password: 'hunter2' });
+    expect(run.mock.calls.find(([, args]) => args[1] === 'unlock')[1]).not.toContain('master');
+  });
+
+  test('should forget the session and cached secrets when locked', async () => {
+    fakeBw('locked');
+    const manager = new CredentialManager({ bitwardenSession: '' });
+    await manager.unlockBitwarden('master');
+    await manager.resolveReferences({ password: 'bw://Wired/password' });
+
+    manager.lock();
+
+    await expect(manager.resolveReferences({ password: 'bw://Wired/password' })).rejects.toMatchObject({ reason: 'locked' });
+  });
+});
@@ -0,0 +1,91 @@
+import { Browser, BrowserContext } from 'playwright';
+import { BrowserPool } from '../providers/browser-pool';
+
+class FakeContext {
+  private closeListeners: Array<() => void> = [];
+
+  on(event: string, listener: () => void): void {
+    if (event === 'close') this.closeListeners.push(listener);
+  }
+
+  async close(): Promise<void> {
+    this.closeListeners.forEach(listener => listener());
+  }
+}
+
+class FakeBrowser {
+  contexts = 0;
+  closed = false;
+
+  async newContext(): Promise<BrowserContext> {
+    this.contexts++;
+    return new FakeContext() as unknown as BrowserContext;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+function fakeLauncher() {
+  const browsers: FakeBrowser[] = [];
+  const launch = async () => {
+    const browser = new FakeBrowser();
+    browsers.push(browser);
+    return browser as unknown as Browser;
+  };
+  return { browsers, launch };
+}
+
+describe('BrowserPool', () => {
+  test('should launch one browser for contexts requested together', async () => {
+    const { browsers, launch } = fakeLauncher();
+    const pool = new BrowserPool(launch);
+
+    const contexts = await Promise.all([pool.newContext(), pool.newContext(), pool.newContext()]);
+
+    expect(browsers).toHaveLength(1);
+    expect(browsers[0].contexts).toBe(3);
+    expect(pool.openContexts).toBe(3);
+
+    await contexts[0].close();
+    expect(pool.openContexts).toBe(2);
+  });
+
+  test('should prepare each context before handing it out', async () => {
+    const { launch } = fakeLauncher();
+    const prepared: BrowserContext[] = [];
+    const pool = new BrowserPool(launch, context => {
+      prepared.push(context);
+    });
+
+    const context = await pool.newContext();
+
+    expect(prepared).toEqual([context]);
+  });
+
+  test('should close the browser and launch a new one on next use', async () => {
+    const { browsers, launch } = fakeLauncher();
+    const pool = new BrowserPool(launch);
+
+    await pool.newContext();
+    await pool.close();
+    await pool.newContext();
+
+    expect(browsers.map(browser => browser.closed)).toEqual([true, false]);
+  });
+
+  test('should try launching again after a failed launch', async () => {
+    const { browsers, launch } = fakeLauncher();
+    let failures = 1;
+    const pool = new BrowserPool(async () => {
+      if (failures-- > 0) throw new Error('Executable doesn\'t exist');
+      return launch();
+    });
+
+    await expect(pool.newContext()).rejects.toThrow('Executable doesn\'t exist');
+    await pool.newContext();
+
+    expect(browsers).toHaveLength(1);
+  });
+});
@@ -0,0 +1,57 @@
+import { CredentialCache } from '../credentials/cache';
+
+describe('CredentialCache', () => {
+  let now: number;
+  let cache: CredentialCache;
+
+  beforeEach(() => {
+    now = 0;
+    cache = new CredentialCache(1000, () => now);
+  });
+
+  test('should load a value once and reuse it until it expires', async () => {
+    const load = jest.fn(async () => 'secret');
+
+    expect(await cache.get('op://Private/Wired/password', load)).toBe('secret');
+    now = 999;
+    expect(await cache.get('op://Private/Wired/password', load)).toBe('secret');
+    expect(load).toHaveBeenCalledTimes(1);
+
+    now = 1000;
+    await cache.get('op://Private/Wired/password', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  test('should share a lookup that is still in flight', async () => {
+    let finish!: (value: string) => void;
+    const load = jest.fn(() => new Promise<string>(resolve => finish = resolve));
+
+    const first = cache.get('bitwarden:Wired', load);
+    const second = cache.get('bitwarden:Wired', load);
+    finish('item');
+
+    expect(await Promise.all([first, second])).toEqual(['item', 'item']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not keep failures', async () => {
+    await expect(cache.get('key', async () => {
+      throw new Error('vault is locked');
+    })).rejects.toThrow('vault is locked');
+
+    expect(await cache.get('key', async () => 'secret')).toBe('secret');
+  });
+
+  test('should forget everything when cleared, and cache nothing with a TTL of 0', async () => {
+    const load = jest.fn(async () => 'secret');
+    await cache.get('key', load);
+    cache.clear();
+    await cache.get('key', load);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    const uncached = new CredentialCache(0);
+    await uncached.get('key', load);
+    await uncached.get('key', load);
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,140 @@
+import { DEFAULT_SETTINGS } from '../settings';
+import { CredentialStore, EncryptedCredentials, ScryptCost, clearCredentials, sealSettings, unsealSettings } from '../credentials/encryption';
+import { ReadLaterSettings } from '../types';
+
+// Far below the real cost, to keep the tests fast
+const CHEAP: ScryptCost = { N: 1024, r: 8, p: 1 };
+
+function settings(): ReadLaterSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    providers: {
+      wired: { enabled: true, credentials: { username: 'reader@example.com', password: 'hunter2' } },
+      medium: { enabled: true, credentials: { sessionToken: 'op://Private/Medium/sid' } },
+      hbr: { enabled: false, credentials: {} },
+    },
+  };
+}
+
+async function encrypted(passphrase = 'correct horse'): Promise<{ saved: ReadLaterSettings; blob: EncryptedCredentials }> {
+  const store = new CredentialStore(null, CHEAP);
+  await store.setPassphrase(passphrase);
+  const saved = sealSettings(settings(), store);
+  return { saved, blob: saved.encryptedCredentials as EncryptedCredentials };
+}
+
+describe('sealSettings', () => {
+  test('should save settings unchanged while encryption is off', () => {
+    const plain = settings();
+    const saved = sealSettings(plain, new CredentialStore(null, CHEAP));
+
+    expect(saved.providers.wired.credentials.password).toBe('hunter2');
+    expect(saved.encryptedCredentials).toBeNull();
+  });
+
+  test('should move every credential into the encrypted blob', async () => {
+    const { saved, blob } = await encrypted();
+    const json = JSON.stringify(saved);
+
+    expect(json).not.toContain('hunter2');
+    expect(json).not.toContain('reader@example.com');
+    expect(json).not.toContain('op://Private');
+    expect(saved.providers.wired).toEqual({ enabled: true, credentials: {} });
+    expect(blob.kdf).toMatchObject({ name: 'scrypt', N: 1024, r: 8, p: 1 });
+  });
+
+  test('should leave the in-memory settings usable for syncing', async () => {
+    const store = new CredentialStore(null, CHEAP);
+    await store.setPassphrase('correct horse');
+    const live = settings();
+
+    sealSettings(live, store);
+
+    expect(live.providers.wired.credentials.password).toBe('hunter2');
+    expect(live.encryptedCredentials).toBeTruthy();
+  });
+
+  test('should keep the last blob while locked', async () => {
+    const { saved, blob } = await encrypted();
+    const store = new CredentialStore(blob, CHEAP);
+
+    expect(store.locked).toBe(true);
+    expect(sealSettings(saved, store).encryptedCredentials).toBe(blob);
+  });
+});
+
+describe('CredentialStore', () => {
+  test('should unlock with the passphrase on a later session', async () => {
+    const { saved, blob } = await encrypted();
+    const store = new CredentialStore(blob, CHEAP);
+
+    unsealSettings(saved, await store.unlock('correct horse'));
+
+    expect(store.locked).toBe(false);
+    expect(saved.providers.wired.credentials).toEqual({ username: 'reader@example.com', password: 'hunter2' });
+    expect(saved.providers.medium.credentials).toEqual({ sessionToken: 'op://Private/Medium/sid' });
+  });
+
+  test('should reject a wrong passphrase and stay locked', async () => {
+    const { blob } = await encrypted();
+    const store = new CredentialStore(blob, CHEAP);
+
+    await expect(store.unlock('wrong horse')).rejects.toThrow('Wrong passphrase');
+    expect(store.locked).toBe(true);
+  });
+
+  test('should re-encrypt with a fresh salt when the passphrase changes', async () => {
+    const { blob } = await encrypted('old passphrase');
+    const store = new CredentialStore(blob, CHEAP);
+    await store.unlock('old passphrase');
+
+    await store.setPassphrase('new passphrase');
+    const changed = store.seal({ wired: { password: 'hunter2' } }) as EncryptedCredentials;
+
+    expect(changed.kdf.salt).not.toBe(blob.kdf.salt);
+    await expect(new CredentialStore(changed, CHEAP).unlock('old passphrase')).rejects.toThrow('Wrong passphrase');
+    expect(await new CredentialStore(changed, CHEAP).unlock('new passphrase')).toEqual({ wired: { password: 'hunter2' } });
+  });
+
+  test('should refuse to change the passphrase or turn off while locked', async () => {
+    const { blob } = await encrypted();
+    const store = new CredentialStore(blob, CHEAP);
+
+    await expect(store.setPassphrase('new')).rejects.toThrow('Unlock the credentials');
+    expect(() => store.disable()).toThrow('Unlock the credentials');
+  });
+
+  test('should store credentials as plain text again once turned off', async () => {
+    const { blob } = await encrypted();
+    const store = new CredentialStore(blob, CHEAP);
+    const live = settings();
+    await store.unlock('correct horse');
+
+    store.disable();
+    const saved = sealSettings(live, store);
+
+    expect(saved.encryptedCredentials).toBeNull();
+    expect(saved.providers.wired.credentials.password).toBe('hunter2');
+  });
+});
+
+describe('unsealSettings', () => {
+  test('should keep plain-text credentials that have no encrypted value, for migration', () => {
+    const live = settings();
+    live.providers.wired.credentials = { username: 'old@example.com', password: 'left in data.json' };
+
+    unsealSettings(live, { wired: { username: 'reader@example.com' }, pocket: { apiKey: 'key' } });
+
+    expect(live.providers.wired.credentials).toEqual({ username: 'reader@example.com', password: 'left in data.json' });
+    expect(live.providers.pocket).toEqual({ enabled: false, credentials: { apiKey: 'key' } });
+  });
+});
+
+describe('clearCredentials', () => {
+  test('should drop every credential from memory', () => {
+    const live = settings();
+    clearCredentials(live);
+
+    expect(Object.values(live.providers).map(config => config.credentials)).toEqual([{}, {}, {}]);
+  });
+});
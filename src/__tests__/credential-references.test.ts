@@ -0,0 +1,32 @@
+import { describeCredential } from '../credentials/references';
+
+describe('describeCredential', () => {
+  test('should leave empty values unlabelled', () => {
+    expect(describeCredential('')).toEqual({ reference: false, label: '' });
+  });
+
+  test('should label anything without a reference prefix as plain text', () => {
+    expect(describeCredential('hunter2')).toEqual({ reference: false, label: 'Plain text' });
+    expect(describeCredential('https://example.com')).toEqual({ reference: false, label: 'Plain text' });
+  });
+
+  test.each([
+    ['op://Private/Wired/password', '1Password reference'],
+    ['op://Private/Wired/login/password', '1Password reference'],
+    ['bw://Wired/password', 'Bitwarden reference'],
+    ['pass://news/wired', 'pass reference'],
+    ['pass://news/wired#username', 'pass reference'],
+    ['env://WIRED_PASSWORD', 'Environment variable reference'],
+  ])('should recognise %s', (value, label) => {
+    expect(describeCredential(value)).toEqual({ reference: true, label });
+  });
+
+  test.each([
+    ['op://Private/Wired', 'Expected op://vault/item/field'],
+    ['bw://Wired', 'Expected bw://item-name/field'],
+    ['pass://', 'Expected pass://path/to/entry#field'],
+    ['env://WIRED-PASSWORD', 'Expected env://VARIABLE_NAME'],
+  ])('should flag the malformed reference %s', (value, error) => {
+    expect(describeCredential(value)).toMatchObject({ reference: true, error });
+  });
+});
@@ -0,0 +1,197 @@
+import { BrowserProvider, ItemSelectors, SavedListInspection } from '../providers/base';
+import { checkCredentials, diagnoseProvider, isHealthy, renderDoctorReport } from '../providers/doctor';
+import { ProviderError } from '../providers/errors';
+import { CredentialRequirements, ProviderCredentials, ReadLaterArticle, ReadLaterProvider } from '../types';
+
+/**
+ * Browser provider whose login and saved-list page are canned, so no browser is launched
+ */
+class FakeSiteProvider extends BrowserProvider {
+  name = 'fakesite';
+  displayName = 'Fake Site';
+  loginUrl = 'https://fake.example/login';
+  readLaterUrl = 'https://fake.example/saved';
+  selectors: ItemSelectors = { item: '.saved', title: 'h2', author: '.byline' };
+  cleanedUp = false;
+
+  constructor(
+    private site: { login?: Error; inspection: SavedListInspection; urls?: string[] },
+    credentials: ProviderCredentials = { username: 'user', password: 'pass' }
+  ) {
+    super({ enabled: true, credentials });
+  }
+
+  async authenticate(): Promise<boolean> {
+    if (this.site.login) throw this.site.login;
+    return true;
+  }
+
+  async performLogin(): Promise<void> {}
+
+  async isAuthenticated(): Promise<boolean> {
+    return true;
+  }
+
+  async inspectSavedList(): Promise<SavedListInspection | null> {
+    return this.site.inspection;
+  }
+
+  async extractArticles(): Promise<ReadLaterArticle[]> {
+    return (this.site.urls || []).map(url => ({ title: 'T', url, source: this.displayName, addedDate: new Date() }));
+  }
+
+  async cleanup(): Promise<void> {
+    this.cleanedUp = true;
+  }
+}
+
+class FakeApiProvider extends ReadLaterProvider {
+  name = 'fakeapi';
+  displayName = 'Fake API';
+
+  constructor(private urls: string[]) {
+    super({ enabled: true, credentials: { apiKey: 'key' } });
+  }
+
+  async authenticate(): Promise<boolean> {
+    return true;
+  }
+
+  async fetchArticles(): Promise<ReadLaterArticle[]> {
+    return this.urls.map(url => ({ title: 'T', url, source: this.displayName, addedDate: new Date() }));
+  }
+
+  requiresCredentials(): CredentialRequirements {
+    return [['apiKey']];
+  }
+
+  supportsHeadless(): boolean {
+    return true;
+  }
+}
+
+const savedList = (items: number, fields: SavedListInspection['fields']): SavedListInspection => ({
+  url: 'https://fake.example/saved',
+  onSavedList: true,
+  items,
+  fields,
+});
+
+function statuses(checks: Array<{ step: string; status: string }>): string {
+  return checks.map(check => `${check.step}:${check.status}`).join(' ');
+}
+
+describe('diagnoseProvider', () => {
+  test('should pass a provider whose selectors all match', async () => {
+    const provider = new FakeSiteProvider({
+      inspection: savedList(3, { title: 3, link: 3, author: 3 }),
+      urls: ['https://fake.example/a', 'https://fake.example/b'],
+    });
+
+    const diagnosis = await diagnoseProvider(provider);
+
+    expect(statuses(diagnosis.checks)).toBe(
+      'credentials:pass login:pass items:pass title:pass link:pass author:pass urls:pass'
+    );
+    expect(isHealthy(diagnosis)).toBe(true);
+    expect(provider.cleanedUp).toBe(true);
+  });
+
+  test('should flag a loaded page with no items as a selector breakage', async () => {
+    const diagnosis = await diagnoseProvider(new FakeSiteProvider({ inspection: savedList(0, {}) }));
+
+    expect(statuses(diagnosis.checks)).toBe(
+      'credentials:pass login:pass items:fail title:skip link:skip author:skip urls:skip'
+    );
+    expect(diagnosis.checks[2].detail).toContain('Page loaded but no items matched ".saved"');
+    expect(isHealthy(diagnosis)).toBe(false);
+  });
+
+  test('should fail missing fields and warn on partial matches', async () => {
+    const diagnosis = await diagnoseProvider(new FakeSiteProvider({
+      inspection: savedList(4, { title: 0, link: 4, author: 1 }),
+      urls: ['/relative'],
+    }));
+
+    expect(statuses(diagnosis.checks)).toBe(
+      'credentials:pass login:pass items:pass title:fail link:pass author:warn urls:fail'
+    );
+    expect(diagnosis.checks.find(check => check.step === 'title')?.detail).toBe('"h2" matched none of 4 items');
+  });
+
+  test('should blame the selectors when a failed login still reached the saved list', async () => {
+    const diagnosis = await diagnoseProvider(new FakeSiteProvider({
+      login: new ProviderError('auth', 'Login failed; check the username and password'),
+      inspection: savedList(0, {}),
+    }));
+
+    expect(statuses(diagnosis.checks)).toBe(
+      'credentials:pass login:warn items:fail title:skip link:skip author:skip urls:skip'
+    );
+  });
+
+  test('should report a login that was redirected away with its error kind', async () => {
+    const diagnosis = await diagnoseProvider(new FakeSiteProvider({
+      login: new ProviderError('challenge', 'Captcha shown'),
+      inspection: { ...savedList(0, {}), url: 'https://fake.example/login', onSavedList: false },
+    }));
+
+    expect(statuses(diagnosis.checks)).toBe(
+      'credentials:pass login:fail items:skip title:skip link:skip author:skip urls:skip'
+    );
+    expect(diagnosis.checks[1].detail).toBe('Captcha or 2FA required: Captcha shown');
+  });
+
+  test('should stop at missing or unresolved credentials', async () => {
+    const missing = await diagnoseProvider(new FakeSiteProvider({ inspection: savedList(1, {}) }, {}));
+    const unresolved = await diagnoseProvider(
+      new FakeSiteProvider({ inspection: savedList(1, {}) }),
+      { step: 'credentials', status: 'fail', detail: 'password: not signed in' }
+    );
+
+    expect(missing.checks[0]).toEqual({
+      step: 'credentials', status: 'fail', detail: 'Missing (needs username+password or sessionToken)',
+    });
+    expect(unresolved.checks[0].detail).toBe('password: not signed in');
+    expect(statuses(unresolved.checks.slice(1))).toBe('login:skip items:skip title:skip link:skip author:skip urls:skip');
+  });
+
+  test('should skip selector checks for API providers', async () => {
+    const diagnosis = await diagnoseProvider(new FakeApiProvider(['https://example.com/a']));
+
+    expect(statuses(diagnosis.checks)).toBe(
+      'credentials:pass login:pass items:pass title:skip link:skip author:skip urls:pass'
+    );
+  });
+});
+
+describe('checkCredentials', () => {
+  test('should resolve every reference and collect failures', async () => {
+    const { check, resolved } = await checkCredentials(
+      { username: 'env://USER', password: 'op://Private/Site/password' },
+      async value => {
+        if (value.startsWith('op://')) throw new Error('1Password CLI not signed in');
+        return 'alice';
+      }
+    );
+
+    expect(resolved).toEqual({ username: 'alice' });
+    expect(check).toEqual({ step: 'credentials', status: 'fail', detail: 'password: 1Password CLI not signed in' });
+  });
+});
+
+describe('renderDoctorReport', () => {
+  test('should print a matrix followed by the problems', async () => {
+    const report = renderDoctorReport([
+      await diagnoseProvider(new FakeSiteProvider({ inspection: savedList(0, {}) })),
+      await diagnoseProvider(new FakeApiProvider(['https://example.com/a'])),
+    ]);
+
+    expect(report.split('\n').slice(0, 3)).toEqual([
+      'Provider   Credentials  Login  Items  Title  Link  Author  URLs',
+      'Fake Site  ✓            ✓      ✗      –      –     –       –',
+      'Fake API   ✓            ✓      ✓      –      –     –       ✓',
+    ]);
+    expect(report).toContain('\nFake Site\n  ✗ Items: Page loaded but no items matched ".saved"');
+  });
+});
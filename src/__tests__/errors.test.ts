@@ -0,0 +1,63 @@
+import { ProviderError, backoffDelay, classifyError } from '../providers/errors';
+import { HttpError } from '../providers/http';
+
+function playwrightTimeout(message: string): Error {
+  const error = new Error(message);
+  error.name = 'TimeoutError';
+  return error;
+}
+
+describe('classifyError', () => {
+  test('should classify HTTP status codes', () => {
+    expect(classifyError(new HttpError(401, 'GET /get failed', '')).kind).toBe('auth');
+    expect(classifyError(new HttpError(403, 'GET /get failed', '')).kind).toBe('auth');
+    expect(classifyError(new HttpError(503, 'GET /get failed', '')).kind).toBe('network');
+    expect(classifyError(new HttpError(404, 'GET /get failed', '')).kind).toBe('unknown');
+  });
+
+  test('should read Retry-After from rate limit responses', () => {
+    const error = classifyError(new HttpError(429, 'GET /get failed', '', { 'retry-after': '30' }));
+
+    expect(error.kind).toBe('rate-limit');
+    expect(error.retryAfterMs).toBe(30000);
+    expect(error.transient).toBe(true);
+  });
+
+  test('should tell element waits from navigation timeouts', () => {
+    const selector = playwrightTimeout(
+      'page.waitForSelector: Timeout 10000ms exceeded.\nCall log:\n  - waiting for locator(\'input[type="email"]\') to be visible'
+    );
+    const navigation = playwrightTimeout('page.goto: Timeout 30000ms exceeded.\nCall log:\n  - navigating to "https://example.com/"');
+
+    expect(classifyError(selector).kind).toBe('selector');
+    expect(classifyError(selector).transient).toBe(false);
+    expect(classifyError(navigation).kind).toBe('network');
+  });
+
+  test('should recognise connection failures', () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:80'), { code: 'ECONNREFUSED' });
+
+    expect(classifyError(refused).kind).toBe('network');
+    expect(classifyError(new Error('page.goto: net::ERR_NAME_NOT_RESOLVED at https://example.com/')).kind).toBe('network');
+    expect(classifyError(new Error('Request to example.com timed out')).kind).toBe('network');
+  });
+
+  test('should keep provider errors and fall back to unknown', () => {
+    const challenge = new ProviderError('challenge', 'Captcha');
+
+    expect(classifyError(challenge)).toBe(challenge);
+    expect(classifyError(new Error('Something odd')).kind).toBe('unknown');
+    expect(classifyError('plain string').message).toBe('plain string');
+  });
+});
+
+describe('backoffDelay', () => {
+  test('should double the delay for each retry', () => {
+    expect([1, 2, 3].map(attempt => backoffDelay(1000, attempt))).toEqual([1000, 2000, 4000]);
+  });
+
+  test('should honour Retry-After and cap the delay', () => {
+    expect(backoffDelay(1000, 1, 20000)).toBe(20000);
+    expect(backoffDelay(1000, 20)).toBe(5 * 60 * 1000);
+  });
+});
@@ -0,0 +1,95 @@
+import { exportArticles, exportPath, isExportFormat } from '../export/formats';
+import { ReadLaterArticle } from '../types';
+
+const articles: ReadLaterArticle[] = [
+  {
+    title: 'Cats & "Dogs", <together>',
+    url: 'https://example.com/pets?a=1&b=2',
+    source: 'Wired.com',
+    author: 'Jane Doe',
+    publicationDate: '2024-02-28',
+    excerpt: 'Line one\nline two',
+    addedDate: new Date('2024-03-01T10:00:00Z'),
+    tags: ['pets', 'news'],
+    status: 'read',
+  },
+  {
+    title: 'Later',
+    url: 'https://example.com/later',
+    source: 'The Guardian',
+    addedDate: new Date('2024-03-02T08:30:00Z'),
+  },
+];
+
+const options = {
+  template: '- [{{title}}]({{url}})',
+  dateFormat: 'YYYY-MM-DD',
+  generatedAt: new Date('2024-03-03T00:00:00Z'),
+};
+
+describe('exportArticles', () => {
+  test('should write JSON with ISO dates, tags and status', () => {
+    const parsed = JSON.parse(exportArticles(articles, 'json', options));
+
+    expect(parsed).toHaveLength(2);
+    expect(parsed[0]).toMatchObject({
+      title: 'Cats & "Dogs", <together>',
+      addedDate: '2024-03-01T10:00:00.000Z',
+      tags: ['pets', 'news'],
+      status: 'read',
+    });
+    expect(parsed[1]).toMatchObject({ tags: [], status: 'unread' });
+  });
+
+  test('should quote CSV fields that need it', () => {
+    const lines = exportArticles(articles, 'csv', options).split('\r\n');
+
+    expect(lines[0]).toBe('title,url,source,author,publicationDate,addedDate,tags,excerpt,status');
+    expect(lines[1]).toBe(
+      '"Cats & ""Dogs"", <together>",https://example.com/pets?a=1&b=2,Wired.com,Jane Doe,2024-02-28,' +
+      '2024-03-01T10:00:00.000Z,pets; news,"Line one\nline two",read'
+    );
+    expect(lines[2]).toBe('Later,https://example.com/later,The Guardian,,,2024-03-02T08:30:00.000Z,,,unread');
+  });
+
+  test('should group OPML outlines by source', () => {
+    const opml = exportArticles(articles, 'opml', options);
+
+    expect(opml).toContain('<dateCreated>Sun, 03 Mar 2024 00:00:00 GMT</dateCreated>');
+    expect(opml).toContain('<outline text="Wired.com">');
+    expect(opml).toContain(
+      '<outline type="link" text="Cats &amp; &quot;Dogs&quot;, &lt;together&gt;" ' +
+      'url="https://example.com/pets?a=1&amp;b=2" created="Fri, 01 Mar 2024 10:00:00 GMT" category="pets,news"/>'
+    );
+    expect(opml).toContain('<outline text="The Guardian">');
+  });
+
+  test('should list RSS items newest first', () => {
+    const rss = exportArticles(articles, 'rss', options);
+
+    expect(rss).toContain('<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">');
+    expect(rss.indexOf('<title>Later</title>')).toBeLessThan(rss.indexOf('<title>Cats'));
+    expect(rss).toContain('<guid isPermaLink="true">https://example.com/pets?a=1&amp;b=2</guid>');
+    expect(rss).toContain('<pubDate>Fri, 01 Mar 2024 10:00:00 GMT</pubDate>');
+    expect(rss).toContain('<dc:creator>Jane Doe</dc:creator>');
+    expect(rss).toContain('<category>news</category>');
+  });
+
+  test('should render Markdown with the template', () => {
+    expect(exportArticles(articles, 'md', options)).toBe(
+      '- [Cats & "Dogs", \\<together\\>](https://example.com/pets?a=1&b=2)\n- [Later](https://example.com/later)'
+    );
+  });
+});
+
+describe('exportPath', () => {
+  test('should swap the extension', () => {
+    expect(exportPath('ReadLater/Clippings.md', 'rss')).toBe('ReadLater/Clippings.xml');
+    expect(exportPath('ReadLater.d/Clippings', 'csv')).toBe('ReadLater.d/Clippings.csv');
+  });
+
+  test('should recognise formats', () => {
+    expect(isExportFormat('opml')).toBe(true);
+    expect(isExportFormat('xml')).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { BrowserContext, Route, chromium } from 'playwright';
+import { BrowserProvider } from '../providers/base';
+import { BrowserPool } from '../providers/browser-pool';
+import { fixtureKey, replayFixtures, scrubHtml } from '../providers/fixtures';
+import { GuardianProvider } from '../providers/guardian';
+import { WiredProvider } from '../providers/wired';
+import { ProviderConfig, ProviderCredentials, ReadLaterArticle } from '../types';
+
+const FIXTURES = join(__dirname, 'fixtures');
+
+/**
+ * Stands in for a browser context, handing requests straight to the route handler
+ */
+class FakeContext {
+  handler: ((route: Route) => Promise<void>) | null = null;
+
+  async route(_pattern: string, handler: (route: Route) => Promise<void>): Promise<void> {
+    this.handler = handler;
+  }
+
+  async request(url: string, method = 'GET'): Promise<{ aborted?: string; body?: string }> {
+    const outcome: { aborted?: string; body?: string } = {};
+    const route = {
+      request: () => ({ url: () => url, method: () => method }),
+      abort: async (reason: string) => { outcome.aborted = reason; },
+      fulfill: async ({ body }: { body: string }) => { outcome.body = body; },
+    };
+    await this.handler?.(route as unknown as Route);
+    return outcome;
+  }
+}
+
+describe('fixtureKey', () => {
+  test('should keep the query and drop the fragment', () => {
+    expect(fixtureKey('https://www.theguardian.com/saved-articles?page=2#top'))
+      .toBe('https://www.theguardian.com/saved-articles?page=2');
+  });
+});
+
+describe('scrubHtml', () => {
+  test('should remove scripts and hidden field values', () => {
+    const html = '<head><script src="/app.js"></script><script>window.__STATE__ = {"email":"a@b.c"}</script></head>' +
+      '<form><input name="_csrf" value="secret" type="hidden"><input type="email" value="kept"></form>';
+
+    expect(scrubHtml(html)).toBe('<head></head><form><input name="_csrf" type="hidden"><input type="email" value="kept"></form>');
+  });
+});
+
+describe('replayFixtures', () => {
+  test('should serve recorded pages and abort everything else', async () => {
+    const context = new FakeContext();
+    await replayFixtures(context as unknown as BrowserContext, join(FIXTURES, 'guardian'));
+
+    const page = await context.request('https://www.theguardian.com/saved-articles?page=2#comments');
+    expect(page.body).toContain('Why the internet\'s undersea cables keep breaking');
+
+    expect(await context.request('https://www.theguardian.com/saved-articles?page=3'))
+      .toEqual({ aborted: 'internetdisconnected' });
+    expect(await context.request('https://assets.guim.co.uk/app.js'))
+      .toEqual({ aborted: 'internetdisconnected' });
+    expect(await context.request('https://profile.theguardian.com/signin', 'POST'))
+      .toEqual({ aborted: 'internetdisconnected' });
+  });
+
+  test('should fail clearly when a provider has no recording', async () => {
+    await expect(replayFixtures(new FakeContext() as unknown as BrowserContext, join(FIXTURES, 'missing')))
+      .rejects.toThrow('record one with "readlater-sync record-fixtures"');
+  });
+});
+
+// Replays need a real browser; run `npx playwright install chromium` to enable them
+const describeReplay = existsSync(chromium.executablePath()) ? describe : describe.skip;
+
+describeReplay('provider replay', () => {
+  jest.setTimeout(30000);
+
+  let pool: BrowserPool | null = null;
+
+  function replay<T extends BrowserProvider>(
+    Provider: new (config: ProviderConfig) => T,
+    fixture: string,
+    credentials: ProviderCredentials = { sessionToken: 'session=replay' }
+  ): T {
+    pool = new BrowserPool(undefined, context => replayFixtures(context, join(FIXTURES, fixture)));
+    const provider = new Provider({ enabled: true, credentials, timeouts: { login: 2000 } });
+    provider.setBrowserPool(pool);
+    return provider;
+  }
+
+  // addedDate is the time of the sync, so it is left out of snapshots
+  function snapshot(articles: ReadLaterArticle[]) {
+    return articles.map(({ title, url, excerpt, author, publicationDate, source }) =>
+      ({ title, url, excerpt, author, publicationDate, source }));
+  }
+
+  afterEach(async () => {
+    await pool?.close();
+    pool = null;
+  });
+
+  test('WiredProvider should extract the recorded saved list', async () => {
+    const provider = replay(WiredProvider, 'wired');
+
+    expect(await provider.authenticate()).toBe(true);
+    expect(snapshot(await provider.fetchArticles())).toMatchSnapshot();
+  });
+
+  test('GuardianProvider should extract every page of the recorded saved list', async () => {
+    const provider = replay(GuardianProvider, 'guardian');
+
+    expect(await provider.authenticate()).toBe(true);
+    expect(snapshot(await provider.fetchArticles())).toMatchSnapshot();
+  });
+
+  test('GuardianProvider should log in through the recorded sign-in form', async () => {
+    const provider = replay(GuardianProvider, 'guardian', { username: 'reader@example.com', password: 'replay' });
+
+    expect(await provider.authenticate()).toBe(true);
+    expect(await provider.fetchArticles()).toHaveLength(3);
+  });
+
+  test('should fail offline when a provider leaves the recorded pages', async () => {
+    const provider = replay(WiredProvider, 'wired', { username: 'reader@example.com', password: 'replay' });
+
+    await expect(provider.authenticate()).rejects.toThrow('ERR_INTERNET_DISCONNECTED');
+    await provider.cleanup();
+  });
+});
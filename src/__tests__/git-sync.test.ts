@@ -0,0 +1,193 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_COMMIT_MESSAGE, GitSync, renderCommitMessage } from '../sync/git-sync';
+import { runProcess } from '../process';
+import { ReadLaterArticle, SyncResult } from '../types';
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  return (await runProcess('git', args, { cwd })).stdout.trim();
+}
+
+function result(provider: string, articlesAdded: number): SyncResult {
+  return { provider, success: true, articlesAdded, articlesFetched: articlesAdded };
+}
+
+function article(title: string, source: string): ReadLaterArticle {
+  return { title, url: `https://example.com/${title.length}`, source, addedDate: new Date('2024-03-01T10:00:00Z') };
+}
+
+describe('renderCommitMessage', () => {
+  const results = [result('WIRED', 2), result('GUARDIAN', 1), result('HBR', 0)];
+  const articles = [article('Why *we* save [links]', 'WIRED'), article('Reading later', 'WIRED'), article('Queue', 'GUARDIAN')];
+
+  test('should keep the old message by default', () => {
+    expect(renderCommitMessage(DEFAULT_COMMIT_MESSAGE, results, articles)).toBe('chore: sync read-later articles (3 articles)');
+  });
+
+  test('should fill in provider counts and article titles without Markdown escaping', () => {
+    const template = 'Sync {{count}} ({{summary}})\n\n{{#each articles}}- {{this.title}} [{{this.source}}]\n{{/each}}';
+
+    expect(renderCommitMessage(template, results, articles)).toBe(
+      'Sync 3 (WIRED 2, GUARDIAN 1)\n\n- Why *we* save [links] [WIRED]\n- Reading later [WIRED]\n- Queue [GUARDIAN]'
+    );
+  });
+
+  test('should fall back to the default when the template renders empty', () => {
+    expect(renderCommitMessage('{{#if summary}}Sync {{summary}}{{/if}}', [], [])).toBe('chore: sync read-later articles (0 articles)');
+  });
+});
+
+describe('GitSync', () => {
+  let root: string;
+  let remote: string;
+  let vault: string;
+  let other: string;
+
+  async function clone(name: string): Promise<string> {
+    const path = join(root, name);
+    await git(root, 'clone', '-q', remote, path);
+    await git(path, 'config', 'user.name', 'Reader');
+    await git(path, 'config', 'user.email', 'reader@example.com');
+    await git(path, 'config', 'commit.gpgsign', 'false');
+    return path;
+  }
+
+  async function commitFile(repo: string, file: string, content: string, push = true): Promise<void> {
+    mkdirSync(join(repo, file, '..'), { recursive: true });
+    writeFileSync(join(repo, file), content);
+    await git(repo, 'add', file);
+    await git(repo, 'commit', '-q', '-m', `Edit ${file}`);
+    if (push) {
+      await git(repo, 'push', '-q', 'origin', 'HEAD');
+    }
+  }
+
+  beforeEach(async () => {
+    root = mkdtempSync(join(tmpdir(), 'readlater-git-'));
+    remote = join(root, 'remote.git');
+    await git(root, 'init', '-q', '--bare', '-b', 'main', remote);
+
+    vault = await clone('vault');
+    await commitFile(vault, 'ReadLater/Clippings.md', '## a\n');
+    other = await clone('other');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should pull with rebase, then commit and push what was written', async () => {
+    await commitFile(other, 'Daily.md', 'from another device\n');
+    const sync = new GitSync(vault, { sign: false });
+
+    expect(await sync.prepare()).toBe(true);
+    expect(existsSync(join(vault, 'Daily.md'))).toBe(true);
+
+    writeFileSync(join(vault, 'ReadLater/Clippings.md'), '## a\n## b\n');
+    expect(await sync.publish(['ReadLater/Clippings.md', 'ReadLater/.readlater-index.json'], 'Sync "1" $(id)')).toBe(true);
+
+    expect(await git(remote, 'log', '-1', '--format=%s', 'main')).toBe('Sync "1" $(id)');
+    expect(sync.steps.map(step => [step.action, step.success])).toEqual([
+      ['pull', true], ['commit', true], ['push', true],
+    ]);
+    expect(sync.steps[0].detail).toBe('Pulled 1 commit from origin/main (rebased)');
+  });
+
+  test('should abort a conflicting pull and leave the vault as it was', async () => {
+    await commitFile(vault, 'ReadLater/Clippings.md', '## local\n', false);
+    await commitFile(other, 'ReadLater/Clippings.md', '## remote\n');
+    const head = await git(vault, 'rev-parse', 'HEAD');
+    const sync = new GitSync(vault);
+
+    expect(await sync.prepare()).toBe(false);
+
+    expect(sync.steps[0]).toMatchObject({ action: 'pull', success: false, conflicts: ['ReadLater/Clippings.md'] });
+    expect(sync.steps[0].detail).toContain('rebase aborted');
+    expect(await git(vault, 'rev-parse', 'HEAD')).toBe(head);
+    expect(await git(vault, 'status', '--porcelain')).toBe('');
+    expect(readFileSync(join(vault, 'ReadLater/Clippings.md'), 'utf-8')).toBe('## local\n');
+  });
+
+  test('should rebase and push again when the remote moved on after the pull', async () => {
+    const sync = new GitSync(vault, { sign: false });
+    await sync.prepare();
+
+    await commitFile(other, 'Daily.md', 'pushed while we were syncing\n');
+    writeFileSync(join(vault, 'ReadLater/Clippings.md'), '## a\n## b\n');
+
+    expect(await sync.publish(['ReadLater/Clippings.md'], 'Sync')).toBe(true);
+    expect(sync.steps[sync.steps.length - 1].detail).toBe('Pushed to origin/main after 2 attempts');
+    expect(await git(remote, 'log', '--format=%s', 'main')).toBe('Sync\nEdit Daily.md\nEdit ReadLater/Clippings.md');
+  });
+
+  test('should commit to a dedicated branch and switch back afterwards', async () => {
+    const sync = new GitSync(vault, { branch: 'readlater', sign: false });
+
+    expect(await sync.prepare()).toBe(true);
+    writeFileSync(join(vault, 'ReadLater/Clippings.md'), '## a\n## b\n');
+    await sync.publish(['ReadLater/Clippings.md'], 'Sync');
+    await sync.restoreBranch();
+
+    expect(await git(remote, 'log', '-1', '--format=%s', 'readlater')).toBe('Sync');
+    expect(await git(remote, 'log', '-1', '--format=%s', 'main')).toBe('Edit ReadLater/Clippings.md');
+    expect(await git(vault, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+    expect(sync.steps[0]).toMatchObject({ action: 'branch', detail: 'Created readlater from main' });
+  });
+
+  test('should switch back to the original branch when the sync throws', async () => {
+    const sync = new GitSync(vault, { branch: 'readlater', sign: false });
+    expect(await sync.prepare()).toBe(true);
+
+    await expect(sync.onSyncBranch(async () => {
+      expect(await git(vault, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('readlater');
+      throw new Error('Provider exploded');
+    })).rejects.toThrow('Provider exploded');
+
+    expect(await git(vault, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+  });
+
+  test('should pass the signing key through to git', async () => {
+    const sync = new GitSync(vault, { sign: 'READLATER-NO-SUCH-KEY' });
+    await sync.prepare();
+    writeFileSync(join(vault, 'ReadLater/Clippings.md'), '## a\n## b\n');
+
+    expect(await sync.publish(['ReadLater/Clippings.md'], 'Sync')).toBe(false);
+    expect(sync.steps[sync.steps.length - 1]).toMatchObject({ action: 'commit', success: false });
+    expect(sync.steps[sync.steps.length - 1].detail).toMatch(/gpg/i);
+  });
+
+  test('should not commit when the written files are unchanged', async () => {
+    const sync = new GitSync(vault);
+    await sync.prepare();
+    writeFileSync(join(vault, 'unrelated.md'), 'edited by hand');
+
+    expect(await sync.publish(['ReadLater/Clippings.md'], 'Sync')).toBe(true);
+    expect(sync.steps[sync.steps.length - 1].detail).toBe('Nothing to commit');
+    expect(await git(vault, 'rev-list', '--count', 'HEAD')).toBe('1');
+  });
+
+  test('should leave files the user staged out of the sync commit', async () => {
+    const sync = new GitSync(vault, { sign: false });
+    await sync.prepare();
+    writeFileSync(join(vault, 'Draft.md'), 'half written');
+    await git(vault, 'add', 'Draft.md');
+    writeFileSync(join(vault, 'ReadLater/Clippings.md'), '## a\n## b\n');
+
+    expect(await sync.publish(['ReadLater/Clippings.md'], 'Sync')).toBe(true);
+
+    expect(await git(vault, 'show', '--name-only', '--format=', 'HEAD')).toBe('ReadLater/Clippings.md');
+    expect(await git(vault, 'diff', '--cached', '--name-only')).toBe('Draft.md');
+  });
+
+  test('should not commit files the user staged when the written files are unchanged', async () => {
+    const sync = new GitSync(vault);
+    await sync.prepare();
+    writeFileSync(join(vault, 'Draft.md'), 'half written');
+    await git(vault, 'add', 'Draft.md');
+
+    expect(await sync.publish(['ReadLater/Clippings.md'], 'Sync')).toBe(true);
+    expect(sync.steps[sync.steps.length - 1].detail).toBe('Nothing to commit');
+    expect(await git(vault, 'rev-list', '--count', 'HEAD')).toBe('1');
+  });
+});
@@ -0,0 +1,71 @@
+import { SyncHistory, SyncRun, renderSyncLog } from '../sync/history';
+
+function run(startedAt: string, fetched: Record<string, number | null>, extra: Partial<SyncRun> = {}): SyncRun {
+  return {
+    startedAt,
+    durationMs: 1500,
+    trigger: 'manual',
+    results: Object.entries(fetched).map(([provider, count]) => count === null
+      ? { provider, success: false, articlesAdded: 0, articlesFetched: 0, error: 'Authentication failed' }
+      : { provider, success: true, articlesAdded: Math.min(count, 1), articlesFetched: count }),
+    newArticles: 0,
+    seenArticles: 0,
+    ...extra,
+  };
+}
+
+describe('SyncHistory', () => {
+  test('should round-trip through JSON and list recent runs newest first', () => {
+    const history = new SyncHistory();
+    history.add(run('2024-03-01T10:00:00Z', { Wired: 3 }));
+    history.add(run('2024-03-02T10:00:00Z', { Wired: 4 }));
+
+    const restored = SyncHistory.fromJSON(history.toJSON());
+
+    expect(restored.size).toBe(2);
+    expect(restored.recent(1)[0].startedAt).toBe('2024-03-02T10:00:00Z');
+    expect(SyncHistory.fromJSON('not json').size).toBe(0);
+  });
+
+  test('should find when a provider started returning no articles', () => {
+    const history = new SyncHistory();
+    history.add(run('2024-03-01T10:00:00Z', { Wired: 3, Medium: 0 }));
+    history.add(run('2024-03-02T10:00:00Z', { Wired: 0, Medium: 0 }));
+    history.add(run('2024-03-03T10:00:00Z', { Wired: null, Medium: 0 }));
+    history.add(run('2024-03-04T10:00:00Z', { Wired: 0, Medium: 0 }));
+
+    expect(history.emptySince('Wired')).toEqual(new Date('2024-03-02T10:00:00Z'));
+    // Never returned anything, so there's no point where it stopped
+    expect(history.emptySince('Medium')).toBeNull();
+    expect(history.emptyProviders().map(entry => entry.provider)).toEqual(['Wired']);
+  });
+
+  test('should not flag a provider whose latest run fetched articles', () => {
+    const history = new SyncHistory();
+    history.add(run('2024-03-01T10:00:00Z', { Wired: 0 }));
+    history.add(run('2024-03-02T10:00:00Z', { Wired: 2 }));
+
+    expect(history.emptySince('Wired')).toBeNull();
+  });
+});
+
+describe('renderSyncLog', () => {
+  test('should render one row per provider with escaped errors', () => {
+    const history = new SyncHistory();
+    history.add(run('2024-03-01T10:00:00Z', { Wired: 3, 'Pipe|Site': null }, { trigger: 'interval' }));
+
+    const note = renderSyncLog(history);
+
+    expect(note).toContain('| Time | Trigger | Duration | Provider | Result | Fetched | New | Seen | Error |');
+    expect(note).toMatch(/\| interval \| 1\.5s \| Wired \| ✓ \| 3 \| 1 \| 2 \| {2}\|/);
+    expect(note).toContain('| Pipe\\|Site | ✗ | 0 | 0 | 0 | Authentication failed |');
+  });
+
+  test('should warn about providers that stopped returning articles', () => {
+    const history = new SyncHistory();
+    history.add(run('2024-03-01T10:00:00Z', { Wired: 3 }));
+    history.add(run('2024-03-02T10:00:00Z', { Wired: 0 }));
+
+    expect(renderSyncLog(history)).toContain('> [!warning] Wired has returned no articles since');
+  });
+});
@@ -0,0 +1,51 @@
+import { htmlToMarkdown, decodeEntities } from '../content/html-to-markdown';
+
+describe('htmlToMarkdown', () => {
+  test('should convert headings, paragraphs and inline formatting', () => {
+    const html = `
+      <h2>The  Headline</h2>
+      <p>Some <strong>bold</strong> and <em>italic</em> text with <code>code</code>.</p>
+      <p>Second&nbsp;paragraph &amp; more.</p>
+    `;
+
+    expect(htmlToMarkdown(html)).toBe([
+      '## The Headline',
+      '',
+      'Some **bold** and *italic* text with `code`.',
+      '',
+      'Second paragraph & more.',
+    ].join('\n'));
+  });
+
+  test('should resolve relative links and images against the base URL', () => {
+    const html = '<p>See <a href="/story/other">this story</a> <img src="img/a.png" alt="A"></p>';
+
+    expect(htmlToMarkdown(html, 'https://www.wired.com/story/one/')).toBe(
+      'See [this story](https://www.wired.com/story/other) ![A](https://www.wired.com/story/one/img/a.png)'
+    );
+  });
+
+  test('should convert nested lists', () => {
+    const html = '<ul><li>One</li><li>Two<ol><li>Nested</li></ol></li></ul>';
+
+    expect(htmlToMarkdown(html)).toBe('- One\n- Two\n  1. Nested');
+  });
+
+  test('should convert blockquotes and preserve preformatted text', () => {
+    const html = '<blockquote><p>Quoted</p><p>Twice</p></blockquote><pre>  indented\n    code</pre>';
+
+    expect(htmlToMarkdown(html)).toBe('> Quoted\n>\n> Twice\n\n```\n  indented\n    code\n```');
+  });
+
+  test('should drop scripts, styles and unclosed junk', () => {
+    const html = '<div><script>alert(1)</script><style>p{}</style><p>Kept<p>Also kept</div>';
+
+    expect(htmlToMarkdown(html)).toBe('Kept\n\nAlso kept');
+  });
+});
+
+describe('decodeEntities', () => {
+  test('should decode named and numeric entities', () => {
+    expect(decodeEntities('&ldquo;Hi&rdquo; &#8212; &#x41;&unknown;')).toBe('“Hi” — A&unknown;');
+  });
+});
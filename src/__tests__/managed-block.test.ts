@@ -0,0 +1,126 @@
+import {
+  END_MARKER, ITEM_END_MARKER, START_MARKER, itemMarker, readManagedArticles, updateManagedContent
+} from '../sync/managed-block';
+import { readStateFromContent } from '../sync/read-state';
+import { ReadLaterArticle } from '../types';
+
+function article(slug: string, title = slug): ReadLaterArticle {
+  return {
+    title,
+    url: `https://example.com/${slug}`,
+    source: 'Wired.com',
+    addedDate: new Date('2024-03-01T10:00:00Z'),
+  };
+}
+
+const render = (a: ReadLaterArticle) => `## ${a.title}\n- ${a.url}\n- [${a.status === 'read' ? 'x' : ' '}] Read\n`;
+
+describe('updateManagedContent', () => {
+  test('should wrap articles in a managed region', () => {
+    expect(updateManagedContent(null, [article('a')], render, 'replace')).toBe([
+      START_MARKER,
+      itemMarker('https://example.com/a', 'Wired.com'),
+      '## a',
+      '- https://example.com/a',
+      '- [ ] Read',
+      ITEM_END_MARKER,
+      END_MARKER,
+      '',
+    ].join('\n'));
+  });
+
+  test('should keep text around the region and annotations under each entry when replacing', () => {
+    const first = updateManagedContent(null, [article('a'), article('b')], render, 'replace');
+    const edited = ('# My clippings\n\n' + first + '\nWritten after the list\n')
+      .replace(`${ITEM_END_MARKER}\n${itemMarker('https://example.com/b', 'Wired.com')}`,
+        `${ITEM_END_MARKER}\n> my highlight on a\n- [ ] follow up\n${itemMarker('https://example.com/b', 'Wired.com')}`);
+
+    const updated = updateManagedContent(edited, [article('b', 'B renamed'), article('a')], render, 'replace');
+
+    expect(updated.startsWith('# My clippings\n\n' + START_MARKER)).toBe(true);
+    expect(updated.endsWith(`${END_MARKER}\n\nWritten after the list\n`)).toBe(true);
+    expect(updated).toContain('## B renamed');
+    expect(updated).not.toContain('## b\n');
+    expect(updated).toContain(`- [ ] Read\n${ITEM_END_MARKER}\n> my highlight on a\n- [ ] follow up\n${END_MARKER}`);
+  });
+
+  test('should drop removed articles unless they have annotations', () => {
+    const first = updateManagedContent(null, [article('a'), article('b'), article('c')], render, 'replace');
+    const edited = first.replace(`${ITEM_END_MARKER}\n${itemMarker('https://example.com/c', 'Wired.com')}`,
+      `${ITEM_END_MARKER}\nKeep this\n${itemMarker('https://example.com/c', 'Wired.com')}`);
+
+    const updated = updateManagedContent(edited, [article('c')], render, 'replace');
+
+    expect(updated).not.toContain('example.com/a');
+    expect(updated).toContain('## b\n');
+    expect(updated).toContain('Keep this');
+    expect(updated.indexOf('## c')).toBeLessThan(updated.indexOf('## b'));
+  });
+
+  test('should rebuild only the scoped sources in place when replacing', () => {
+    const other = (slug: string) => ({ ...article(slug), source: 'Other' });
+    const first = updateManagedContent(null, [other('x'), article('a'), article('b'), other('y')], render, 'replace');
+    const sources: Record<string, string> = { x: 'Other', a: 'Wired.com', b: 'Wired.com', y: 'Other' };
+    const scope = { sources: ['Wired.com'], sourceOf: (url: string) => sources[url.split('/').pop() || ''] };
+
+    const updated = updateManagedContent(first, [article('c'), article('a')], render, 'replace', scope);
+
+    expect(updated.match(/^## \w$/gm)).toEqual(['## x', '## c', '## a', '## y']);
+  });
+
+  test('should add only new articles at the end of the region when appending', () => {
+    const first = updateManagedContent(null, [article('a')], render, 'append');
+    const edited = first.replace('- [ ] Read', '- [x] Read');
+
+    const updated = updateManagedContent(edited, [article('a'), article('b')], render, 'append');
+
+    expect(updated).toContain('- [x] Read');
+    expect(updated.match(/## a/g)).toHaveLength(1);
+    expect(updated.indexOf('## b')).toBeGreaterThan(updated.indexOf('## a'));
+    expect(updated.indexOf('## b')).toBeLessThan(updated.indexOf(END_MARKER));
+  });
+
+  test('should keep existing content of a file without markers', () => {
+    const updated = updateManagedContent('Old list\n\n', [article('a')], render, 'replace');
+
+    expect(updated.startsWith(`Old list\n\n${START_MARKER}\n`)).toBe(true);
+  });
+
+  test('should match annotated entries by normalized URL', () => {
+    const first = updateManagedContent(null, [article('a')], render, 'replace')
+      .replace(`${ITEM_END_MARKER}\n`, `${ITEM_END_MARKER}\nNote\n`);
+    const moved = { ...article('a'), url: 'https://www.example.com/a/?utm_source=feed' };
+
+    const updated = updateManagedContent(first, [moved], render, 'replace');
+
+    expect(updated.match(/Note/g)).toHaveLength(1);
+    expect(updated).toContain(itemMarker(moved.url, 'Wired.com'));
+  });
+});
+
+describe('readManagedArticles', () => {
+  test('should read each entry from its marker and heading, ignoring links in annotations', () => {
+    const content = updateManagedContent(null, [article('a'), article('b')], render, 'replace')
+      .replace(`${ITEM_END_MARKER}\n${itemMarker('https://example.com/b', 'Wired.com')}`,
+        `${ITEM_END_MARKER}\nSee https://example.com/elsewhere\n${itemMarker('https://example.com/b')}`);
+
+    expect(readManagedArticles(content)?.map(a => [a.title, a.url, a.source])).toEqual([
+      ['a', 'https://example.com/a', 'Wired.com'],
+      ['b', 'https://example.com/b', 'Unknown'],
+    ]);
+    expect(readManagedArticles('## Old list\n- https://example.com/a\n')).toBeNull();
+  });
+});
+
+describe('readStateFromContent with managed blocks', () => {
+  test('should attribute the read checkbox to the entry, not the annotations', () => {
+    const content = updateManagedContent(null, [{ ...article('a'), status: 'read' }, article('b')], render, 'replace')
+      .replace(`${ITEM_END_MARKER}\n${itemMarker('https://example.com/b', 'Wired.com')}`,
+        `${ITEM_END_MARKER}\n- [x] unrelated task\n${itemMarker('https://example.com/b', 'Wired.com')}`);
+
+    expect(readStateFromContent(content)).toEqual({
+      read: ['https://example.com/a'],
+      unread: ['https://example.com/b'],
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { commandExists, runProcess } from '../process';
+import { CredentialManager } from '../credentials/manager';
+import { PassProvider, parsePassEntry } from '../credentials/providers/pass';
+
+jest.mock('../process', () => ({
+  ...jest.requireActual('../process'),
+  runProcess: jest.fn(),
+  commandExists: jest.fn(),
+}));
+
+const ENTRY = [
+  'correct horse battery staple',
+  '---',
+  'Login: reader@example.com',
+  'url: https://www.wired.com/account/sign-in',
+  'api key: abc:123',
+  'otpauth://totp/Wired?secret=JBSWY3DPEHPK3PXP',
+  '',
+].join('\n');
+
+describe('parsePassEntry', () => {
+  test('should read the password from the first line', () => {
+    expect(parsePassEntry(ENTRY)).toBe('correct horse battery staple');
+    expect(parsePassEntry(ENTRY, 'password')).toBe('correct horse battery staple');
+  });
+
+  test('should read other fields from key: value lines, ignoring case', () => {
+    expect(parsePassEntry(ENTRY, 'URL')).toBe('https://www.wired.com/account/sign-in');
+    expect(parsePassEntry(ENTRY, 'api key')).toBe('abc:123');
+  });
+
+  test('should find a username under its common names', () => {
+    expect(parsePassEntry(ENTRY, 'username')).toBe('reader@example.com');
+    expect(parsePassEntry('secret\r\nusername: alice\r\nuser: bob', 'username')).toBe('alice');
+  });
+
+  test('should return null for missing fields and empty entries', () => {
+    expect(parsePassEntry(ENTRY, 'pin')).toBeNull();
+    expect(parsePassEntry('')).toBeNull();
+  });
+});
+
+describe('CredentialManager.parseReference', () => {
+  test('should route pass:// references to the pass provider', () => {
+    expect(new CredentialManager().parseReference('pass://websites/wired.com#username')).toEqual({
+      provider: 'pass',
+      reference: 'pass://websites/wired.com#username',
+    });
+  });
+});
+
+describe('PassProvider', () => {
+  test('should pass entries starting with "-" as arguments, not options', async () => {
+    (commandExists as jest.Mock).mockImplementation(async (command: string) => command === 'gopass');
+    (runProcess as jest.Mock).mockResolvedValue({ stdout: ENTRY, stderr: '' });
+    const provider = new PassProvider();
+
+    expect(await provider.getCredential('pass://-c#username')).toBe('reader@example.com');
+    expect(runProcess).toHaveBeenCalledWith('gopass', ['show', '-f', '--', '-c']);
+  });
+});
@@ -0,0 +1,40 @@
+import { ProcessError, commandExists, runProcess } from '../process';
+
+// Run small scripts with the current node binary, so the tests don't depend on what else is installed
+const node = process.execPath;
+
+describe('runProcess', () => {
+  test('should pass arguments through without a shell', async () => {
+    const tricky = ['say "hi"', '$(touch pwned)', '`id`; echo done', "it's"];
+    const { stdout } = await runProcess(node, ['-e', 'console.log(JSON.stringify(process.argv.slice(1)))', ...tricky]);
+
+    expect(JSON.parse(stdout)).toEqual(tricky);
+  });
+
+  test('should add env variables and write input to stdin', async () => {
+    const script = 'let s = ""; process.stdin.on("data", d => s += d).on("end", () => console.log(process.env.READLATER_TEST + ":" + s))';
+    const { stdout } = await runProcess(node, ['-e', script], { env: { READLATER_TEST: 'env' }, input: 'stdin' });
+
+    expect(stdout.trim()).toBe('env:stdin');
+  });
+
+  test('should fail with the exit code and stderr', async () => {
+    const failure = runProcess(node, ['-e', 'console.error("Vault is locked."); process.exit(3)']);
+
+    await expect(failure).rejects.toBeInstanceOf(ProcessError);
+    await expect(failure).rejects.toMatchObject({ exitCode: 3, stderr: 'Vault is locked.\n', timedOut: false });
+    await expect(failure).rejects.toThrow('failed: Vault is locked.');
+  });
+
+  test('should stop commands that run too long', async () => {
+    await expect(runProcess(node, ['-e', 'setTimeout(() => {}, 10000)'], { timeoutMs: 200 })).rejects.toMatchObject({
+      timedOut: true,
+      message: expect.stringContaining('timed out'),
+    });
+  });
+
+  test('should say when the command is not installed', async () => {
+    await expect(runProcess('readlater-no-such-command', [])).rejects.toThrow('readlater-no-such-command not found');
+    expect(await commandExists('readlater-no-such-command')).toBe(false);
+  });
+});
@@ -1,9 +1,17 @@
 import { ProviderRegistry } from '../providers/registry';
+import { BrowserProvider, parseSessionToken } from '../providers/base';
+import { CustomProviderDefinition, LoginStep, validateCustomProvider } from '../providers/custom';
 import { ReadLaterSettings } from '../types';
 
 describe('ProviderRegistry', () => {
   const mockSettings: ReadLaterSettings = {
+    outputMode: 'file',
     outputFile: 'test.md',
+    notesFolder: 'Articles',
+    indexFile: '.readlater-index.json',
+    feedFile: '',
+    historyFile: '.readlater-history.json',
+    syncLogNote: '',
     providers: {
       wired: {
         enabled: true,
@@ -17,8 +25,15 @@ describe('ProviderRegistry', () => {
         credentials: {}
       }
     },
+    customProviders: [],
     syncInterval: 0,
+    retries: 2,
+    retryDelay: 5,
+    concurrency: 3,
     headlessMode: true,
+    persistSessions: false,
+    sessionDir: '',
+    writeBackDryRun: false,
     appendMode: true,
     dateFormat: 'YYYY-MM-DD',
     template: '{{title}}'
@@ -47,6 +62,22 @@ describe('ProviderRegistry', () => {
     expect(provider).toBeNull();
   });
 
+  test('should expose pagination strategies for multi-page saved lists', () => {
+    const registry = new ProviderRegistry({
+      ...mockSettings,
+      providers: {
+        medium: { enabled: true, credentials: {} },
+        guardian: { enabled: true, credentials: {} }
+      }
+    });
+
+    const medium = registry.getProvider('medium') as BrowserProvider;
+    const guardian = registry.getProvider('guardian') as BrowserProvider;
+
+    expect(medium.pagination.type).toBe('infinite-scroll');
+    expect(guardian.pagination.type).toBe('next-link');
+  });
+
   test('should list all provider names', () => {
     const registry = new ProviderRegistry(mockSettings);
     const names = registry.getAllProviderNames();
@@ -58,3 +89,173 @@ describe('ProviderRegistry', () => {
     expect(names).toContain('irishtimes');
   });
 });
+
+describe('session token authentication', () => {
+  const settings = (providers: ReadLaterSettings['providers']): ReadLaterSettings => ({
+    outputMode: 'file',
+    outputFile: 'test.md',
+    notesFolder: 'Articles',
+    indexFile: '.readlater-index.json',
+    feedFile: '',
+    historyFile: '.readlater-history.json',
+    syncLogNote: '',
+    providers,
+    customProviders: [],
+    syncInterval: 0,
+    retries: 2,
+    retryDelay: 5,
+    concurrency: 3,
+    headlessMode: true,
+    persistSessions: false,
+    sessionDir: '',
+    writeBackDryRun: false,
+    appendMode: true,
+    dateFormat: 'YYYY-MM-DD',
+    template: '{{title}}'
+  });
+
+  test('should accept either username+password or a session token', () => {
+    const registry = new ProviderRegistry(settings({
+      wired: { enabled: true, credentials: { sessionToken: 'name=value' } },
+      guardian: { enabled: true, credentials: { username: 'user@example.com' } }
+    }));
+
+    expect(registry.getProvider('wired')?.hasRequiredCredentials()).toBe(true);
+    expect(registry.getProvider('guardian')?.hasRequiredCredentials()).toBe(false);
+  });
+
+  test('should require a session token for Medium', () => {
+    const registry = new ProviderRegistry(settings({
+      medium: { enabled: true, credentials: { username: 'user@example.com', password: 'x' } }
+    }));
+
+    expect(registry.getProvider('medium')?.hasRequiredCredentials()).toBe(false);
+    expect(registry.getProvider('medium')?.requiresCredentials()).toEqual([['sessionToken']]);
+  });
+
+  test('should turn a bare token into the default session cookie', () => {
+    expect(parseSessionToken(' abc123 ', '.medium.com', 'sid')).toEqual([
+      { name: 'sid', value: 'abc123', domain: '.medium.com', path: '/', secure: true }
+    ]);
+  });
+
+  test('should parse a cookie string into multiple cookies', () => {
+    const cookies = parseSessionToken('a=1; b=x=y;', '.wired.com');
+
+    expect(cookies.map(c => [c.name, c.value])).toEqual([['a', '1'], ['b', 'x=y']]);
+  });
+
+  test('should reject a bare token when the provider has no default cookie', () => {
+    expect(() => parseSessionToken('abc123', '.wired.com')).toThrow('cookie string');
+  });
+
+  test('should derive the cookie domain from the saved-list URL', () => {
+    const registry = new ProviderRegistry(settings({ wired: { enabled: true, credentials: {} } }));
+
+    expect((registry.getProvider('wired') as BrowserProvider).cookieDomain).toBe('.wired.com');
+  });
+});
+
+describe('custom providers', () => {
+  const atlantic: CustomProviderDefinition = {
+    id: 'atlantic',
+    displayName: 'The Atlantic',
+    loginUrl: 'https://accounts.theatlantic.com/login/',
+    readLaterUrl: 'https://www.theatlantic.com/saved/',
+    loginSteps: [
+      { action: 'fill', selector: 'input[name="username"]', value: '{{username}}' },
+      { action: 'fill', selector: 'input[name="password"]', value: '{{password}}' },
+      { action: 'click', selector: 'button[type="submit"]' },
+      { action: 'waitForNavigation' }
+    ],
+    itemSelector: '.saved-item',
+    fields: { title: 'h2', excerpt: '.dek' },
+    pagination: { type: 'infinite-scroll', itemSelector: '.saved-item' }
+  };
+
+  const settingsWith = (customProviders: CustomProviderDefinition[]): ReadLaterSettings => ({
+    outputMode: 'file',
+    outputFile: 'test.md',
+    notesFolder: 'Articles',
+    indexFile: '.readlater-index.json',
+    feedFile: '',
+    historyFile: '.readlater-history.json',
+    syncLogNote: '',
+    providers: {
+      atlantic: { enabled: true, credentials: { username: 'u', password: 'p' } }
+    },
+    customProviders,
+    syncInterval: 0,
+    retries: 2,
+    retryDelay: 5,
+    concurrency: 3,
+    headlessMode: true,
+    persistSessions: false,
+    sessionDir: '',
+    writeBackDryRun: false,
+    appendMode: true,
+    dateFormat: 'YYYY-MM-DD',
+    template: '{{title}}'
+  });
+
+  test('should accept a complete definition', () => {
+    expect(validateCustomProvider(atlantic)).toEqual([]);
+  });
+
+  test('should report missing fields and unknown login actions', () => {
+    const errors = validateCustomProvider({
+      id: 'Bad Id',
+      loginUrl: 'not a url',
+      loginSteps: [
+        { action: 'teleport' },
+        { action: 'click' },
+        { action: 'fill', selector: '#email' },
+        { action: 'press', selector: '#password' },
+        { action: 'wait', ms: '500' },
+      ] as unknown as LoginStep[],
+      fields: { title: '' }
+    });
+
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.stringContaining('"id"'),
+      expect.stringContaining('"displayName"'),
+      expect.stringContaining('"loginUrl"'),
+      expect.stringContaining('"readLaterUrl"'),
+      expect.stringContaining('"itemSelector"'),
+      expect.stringContaining('"fields.title"'),
+      expect.stringContaining('unknown action "teleport"'),
+      expect.stringContaining('loginSteps[1] (click) needs a "selector"'),
+      expect.stringContaining('loginSteps[2] (fill) needs a "value"'),
+      expect.stringContaining('loginSteps[3] (press) needs a "key"'),
+      expect.stringContaining('loginSteps[4] (wait) needs a numeric "ms"')
+    ]));
+  });
+
+  test('should reject ids that clash with the plugin commands', () => {
+    expect(validateCustomProvider({ ...atlantic, id: 'provider' })).toEqual(['provider: "id" "provider" is reserved']);
+  });
+
+  test('should register valid definitions as browser providers', () => {
+    const registry = new ProviderRegistry(settingsWith([atlantic]));
+    const provider = registry.getProvider('atlantic') as BrowserProvider;
+
+    expect(registry.getAllProviderNames()).toContain('atlantic');
+    expect(registry.getEnabledProviders().map(p => p.name)).toEqual(['atlantic']);
+    expect(provider.displayName).toBe('The Atlantic');
+    expect(provider.pagination.type).toBe('infinite-scroll');
+    expect(provider.cookieDomain).toBe('.theatlantic.com');
+  });
+
+  test('should skip invalid definitions and ones that shadow built-in providers', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const registry = new ProviderRegistry(settingsWith([
+      { ...atlantic, id: 'wired' },
+      { ...atlantic, id: 'broken', itemSelector: '' }
+    ]));
+
+    const wired = registry.getAllProviders().find(p => p.name === 'wired');
+    expect(wired?.displayName).toBe('Wired.com');
+    expect(registry.getAllProviderNames()).not.toContain('broken');
+  });
+});
@@ -0,0 +1,164 @@
+import { ArticleIndex } from '../sync/article-index';
+import { applyReadState, readStateFromContent, readStateFromNotes, writeBackReadArticles } from '../sync/read-state';
+import { ArchiveResult, CredentialRequirements, ReadLaterArticle, ReadLaterProvider } from '../types';
+
+class FakeProvider extends ReadLaterProvider {
+  name = 'fake';
+  displayName = 'Fake';
+  archived: string[][] = [];
+
+  constructor(private canArchive = true) {
+    super({ enabled: true, credentials: {} });
+  }
+
+  async authenticate(): Promise<boolean> {
+    return true;
+  }
+
+  async fetchArticles(): Promise<ReadLaterArticle[]> {
+    return [];
+  }
+
+  requiresCredentials(): CredentialRequirements {
+    return [];
+  }
+
+  supportsHeadless(): boolean {
+    return true;
+  }
+
+  supportsArchive(): boolean {
+    return this.canArchive;
+  }
+
+  async archiveArticles(urls: string[]): Promise<ArchiveResult[]> {
+    this.archived.push(urls);
+    return urls.map(url => url.includes('missing')
+      ? { url, success: false, error: 'Not found in saved list' }
+      : { url, success: true });
+  }
+}
+
+function indexWith(...urls: string[]): ArticleIndex {
+  const index = new ArticleIndex();
+  for (const url of urls) {
+    index.add({ title: url, url, source: 'Fake', addedDate: new Date('2024-01-01T00:00:00Z') });
+  }
+  return index;
+}
+
+describe('readStateFromContent', () => {
+  test('should use the checkbox in each entry of the default template', () => {
+    const content = [
+      '## One',
+      '- **URL:** https://example.com/one',
+      '- [x] Read',
+      '',
+      '---',
+      '## Two',
+      '- **URL:** https://example.com/two',
+      '- [ ] Read',
+      '',
+      '---',
+      '## Three',
+      '- **URL:** https://example.com/three',
+    ].join('\n');
+
+    expect(readStateFromContent(content)).toEqual({
+      read: ['https://example.com/one'],
+      unread: ['https://example.com/two'],
+    });
+  });
+
+  test('should use task lines that contain the link', () => {
+    const content = '- [X] [One](https://example.com/one)\n- [ ] [Two](https://example.com/two)\n';
+
+    expect(readStateFromContent(content)).toEqual({
+      read: ['https://example.com/one'],
+      unread: ['https://example.com/two'],
+    });
+  });
+});
+
+describe('readStateFromNotes', () => {
+  test('should treat read, archived and done statuses as read', () => {
+    const note = (url: string, status: string) => ({
+      path: `ReadLater/${status}.md`,
+      content: `---\nurl: "${url}"\nstatus: ${status}\n---\nBody`,
+    });
+
+    expect(readStateFromNotes([
+      note('https://example.com/a', 'read'),
+      note('https://example.com/b', 'Done'),
+      note('https://example.com/c', 'unread'),
+      { path: 'ReadLater/no-frontmatter.md', content: 'Just text' },
+    ])).toEqual({
+      read: ['https://example.com/a', 'https://example.com/b'],
+      unread: ['https://example.com/c'],
+    });
+  });
+});
+
+describe('applyReadState', () => {
+  test('should mark read and unread, leaving archived and unindexed articles alone', () => {
+    const index = indexWith('https://example.com/a', 'https://example.com/b', 'https://example.com/c');
+    index.setStatus('https://example.com/b', 'read');
+    index.setStatus('https://example.com/c', 'archived');
+
+    const changed = applyReadState(index, {
+      read: ['https://www.example.com/a/', 'https://example.com/unknown'],
+      unread: ['https://example.com/b', 'https://example.com/c'],
+    });
+
+    expect(changed).toBe(2);
+    expect(index.getStatus('https://example.com/a')).toBe('read');
+    expect(index.getStatus('https://example.com/b')).toBe('unread');
+    expect(index.getStatus('https://example.com/c')).toBe('archived');
+  });
+
+  test('should persist statuses in the serialized index', () => {
+    const index = indexWith('https://example.com/a');
+    index.setStatus('https://example.com/a', 'read');
+
+    expect(ArticleIndex.fromJSON(index.toJSON()).getStatus('https://example.com/a')).toBe('read');
+  });
+});
+
+describe('writeBackReadArticles', () => {
+  test('should archive read articles and mark the successful ones archived', async () => {
+    const index = indexWith('https://example.com/a', 'https://example.com/missing', 'https://example.com/c');
+    index.setStatus('https://example.com/a', 'read');
+    index.setStatus('https://example.com/missing', 'read');
+    const provider = new FakeProvider();
+
+    const result = await writeBackReadArticles(provider, index, false);
+
+    expect(provider.archived).toEqual([['https://example.com/a', 'https://example.com/missing']]);
+    expect(result.results.filter(r => r.success)).toHaveLength(1);
+    expect(index.getStatus('https://example.com/a')).toBe('archived');
+    expect(index.getStatus('https://example.com/missing')).toBe('read');
+    expect(index.getStatus('https://example.com/c')).toBe('unread');
+  });
+
+  test('should only list pending articles in a dry run', async () => {
+    const index = indexWith('https://example.com/a');
+    index.setStatus('https://example.com/a', 'read');
+    const provider = new FakeProvider();
+
+    const result = await writeBackReadArticles(provider, index, true);
+
+    expect(result.pending.map(entry => entry.url)).toEqual(['https://example.com/a']);
+    expect(provider.archived).toEqual([]);
+    expect(index.getStatus('https://example.com/a')).toBe('read');
+  });
+
+  test('should report providers without archive support', async () => {
+    const provider = new FakeProvider(false);
+    const results = await ReadLaterProvider.prototype.archiveArticles.call(provider, ['https://example.com/a']);
+
+    expect(provider.supportsArchive()).toBe(false);
+    expect(results).toEqual([
+      { url: 'https://example.com/a', success: false, error: 'Fake does not support archiving' },
+    ]);
+  });
+});
@@ -0,0 +1,477 @@
+import { SyncEngine } from '../sync/engine';
+import { ProviderError } from '../providers/errors';
+import { SyncStorage } from '../sync/storage';
+import {
+  ArchiveResult, CredentialRequirements, FetchOptions, ProviderCredentials, ReadLaterArticle, ReadLaterProvider, ReadLaterSettings
+} from '../types';
+
+class MemoryStorage implements SyncStorage {
+  files = new Map<string, string>();
+
+  async read(path: string): Promise<string | null> {
+    return this.files.get(path) ?? null;
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+
+  async list(folder: string): Promise<string[]> {
+    return Array.from(this.files.keys()).filter(path => path.startsWith(`${folder}/`) && path.endsWith('.md'));
+  }
+}
+
+class FakeProvider extends ReadLaterProvider {
+  displayName: string;
+  archived: string[] = [];
+  known: string[] = [];
+  cleanups = 0;
+
+  constructor(
+    public name: string,
+    private articles: ReadLaterArticle[],
+    private loggedIn = true,
+    credentials: ProviderCredentials = { username: 'user', password: 'pass' }
+  ) {
+    super({ enabled: true, credentials });
+    this.displayName = name.toUpperCase();
+  }
+
+  async authenticate(): Promise<boolean> {
+    return this.loggedIn;
+  }
+
+  async fetchArticles(options: FetchOptions = {}): Promise<ReadLaterArticle[]> {
+    this.known = this.articles.map(article => article.url).filter(url => options.isKnown?.(url));
+    return this.articles.map(article => ({ ...article }));
+  }
+
+  requiresCredentials(): CredentialRequirements {
+    return [['username', 'password']];
+  }
+
+  supportsHeadless(): boolean {
+    return true;
+  }
+
+  supportsArchive(): boolean {
+    return true;
+  }
+
+  async archiveArticles(urls: string[]): Promise<ArchiveResult[]> {
+    this.archived.push(...urls);
+    return urls.map(url => ({ url, success: true }));
+  }
+
+  async cleanup(): Promise<void> {
+    this.cleanups++;
+  }
+}
+
+/**
+ * Fails to fetch with the given errors, in turn, before succeeding
+ */
+class FlakyProvider extends FakeProvider {
+  attempts = 0;
+
+  constructor(articles: ReadLaterArticle[], private errors: Error[]) {
+    super('flaky', articles);
+  }
+
+  async fetchArticles(): Promise<ReadLaterArticle[]> {
+    const error = this.errors[this.attempts++];
+    if (error) {
+      throw error;
+    }
+    return super.fetchArticles();
+  }
+}
+
+/**
+ * Holds fetchArticles open until release() so tests can see how many run at once
+ */
+class SlowProvider extends FakeProvider {
+  static running = 0;
+  static maxRunning = 0;
+  private release!: () => void;
+  private markStarted!: () => void;
+  private started = new Promise<void>(resolve => this.markStarted = resolve);
+
+  async fetchArticles(): Promise<ReadLaterArticle[]> {
+    SlowProvider.running++;
+    SlowProvider.maxRunning = Math.max(SlowProvider.maxRunning, SlowProvider.running);
+    this.markStarted();
+    await new Promise<void>(resolve => this.release = resolve);
+    SlowProvider.running--;
+    return super.fetchArticles();
+  }
+
+  async finish(): Promise<void> {
+    await this.started;
+    this.release();
+  }
+}
+
+function article(slug: string): ReadLaterArticle {
+  return {
+    title: slug,
+    url: `https://example.com/${slug}`,
+    source: 'FAKE',
+    addedDate: new Date('2024-03-01T10:00:00Z'),
+  };
+}
+
+function settings(overrides: Partial<ReadLaterSettings> = {}): ReadLaterSettings {
+  return {
+    outputMode: 'file',
+    outputFile: 'ReadLater/Clippings.md',
+    notesFolder: 'ReadLater/Articles',
+    indexFile: 'ReadLater/.readlater-index.json',
+    feedFile: '',
+    historyFile: 'ReadLater/.readlater-history.json',
+    syncLogNote: '',
+    providers: { fake: { enabled: true, credentials: {} } },
+    customProviders: [],
+    syncInterval: 0,
+    retries: 2,
+    retryDelay: 5,
+    concurrency: 3,
+    headlessMode: true,
+    persistSessions: false,
+    sessionDir: '',
+    writeBackDryRun: false,
+    appendMode: true,
+    dateFormat: 'YYYY-MM-DD',
+    template: '## {{title}}\n- {{url}}\n- {{read | checkbox}} Read\n',
+    ...overrides,
+  };
+}
+
+describe('SyncEngine', () => {
+  test('should write new articles, save the index and record the last sync', async () => {
+    const storage = new MemoryStorage();
+    const config = settings();
+    const engine = new SyncEngine(config, storage);
+    await engine.loadIndex();
+
+    const summary = await engine.sync([new FakeProvider('fake', [article('a'), article('b')])]);
+
+    expect(summary.results).toEqual([
+      { provider: 'FAKE', success: true, articlesAdded: 2, articlesFetched: 2, durationMs: expect.any(Number) },
+    ]);
+    expect(summary.writtenPaths).toEqual(['ReadLater/Clippings.md']);
+    expect(storage.files.get('ReadLater/Clippings.md')).toContain('## a');
+    expect(config.providers.fake.lastSync).toBeInstanceOf(Date);
+
+    const reloaded = new SyncEngine(config, storage);
+    await reloaded.loadIndex();
+    expect(reloaded.index.size).toBe(2);
+    expect(reloaded.index.getLastSync('fake')).toEqual(config.providers.fake.lastSync);
+  });
+
+  test('should only append articles not seen before', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings(), storage);
+    await engine.loadIndex();
+
+    await engine.sync([new FakeProvider('fake', [article('a')])]);
+    const provider = new FakeProvider('fake', [article('a'), article('b')]);
+    const summary = await engine.sync([provider]);
+
+    const content = storage.files.get('ReadLater/Clippings.md') || '';
+    expect(provider.known).toEqual(['https://example.com/a']);
+    expect(summary.newArticles.map(a => a.title)).toEqual(['b']);
+    expect(content.match(/## a/g)).toHaveLength(1);
+    expect(content).toContain('## b');
+  });
+
+  test('should not count articles as seen when writing them fails', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings(), storage);
+    await engine.loadIndex();
+
+    const write = storage.write.bind(storage);
+    storage.write = async () => { throw new Error('Disk full'); };
+    await expect(engine.sync([new FakeProvider('fake', [article('a')])])).rejects.toThrow('Disk full');
+    storage.write = write;
+
+    const summary = await engine.sync([new FakeProvider('fake', [article('a')])]);
+    expect(summary.newArticles.map(a => a.title)).toEqual(['a']);
+    expect(storage.files.get('ReadLater/Clippings.md')).toContain('## a');
+  });
+
+  test('should only replace the entries of providers that synced', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings({ appendMode: false, retries: 0 }), storage);
+    await engine.loadIndex();
+    const other = (slug: string) => ({ ...article(slug), source: 'OTHER' });
+
+    await engine.sync([new FakeProvider('fake', [article('a'), article('b')]), new FakeProvider('other', [other('x')])]);
+    await engine.sync([new FakeProvider('fake', [article('b')])]);
+    let content = storage.files.get('ReadLater/Clippings.md') || '';
+    expect(content).not.toContain('## a');
+    expect(content.indexOf('## b')).toBeLessThan(content.indexOf('## x'));
+
+    await engine.sync([new FakeProvider('fake', [article('c')]), new FakeProvider('other', [], false)]);
+    content = storage.files.get('ReadLater/Clippings.md') || '';
+    expect(content).not.toContain('## b');
+    expect(content.indexOf('## c')).toBeLessThan(content.indexOf('## x'));
+  });
+
+  test('should remove the entries of a provider whose list is now empty', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings({ appendMode: false }), storage);
+    await engine.loadIndex();
+
+    await engine.sync([new FakeProvider('fake', [article('a')]), new FakeProvider('other', [{ ...article('x'), source: 'OTHER' }])]);
+    const summary = await engine.sync([new FakeProvider('fake', [])]);
+
+    const content = storage.files.get('ReadLater/Clippings.md') || '';
+    expect(summary.writtenPaths).toEqual(['ReadLater/Clippings.md']);
+    expect(content).not.toContain('## a');
+    expect(content).toContain('## x');
+  });
+
+  test('should report failures per provider and keep going', async () => {
+    const engine = new SyncEngine(settings(), new MemoryStorage());
+    const summary = await engine.sync([
+      new FakeProvider('bare', [], true, {}),
+      new FakeProvider('locked', [], false),
+      new FakeProvider('fake', [article('a')]),
+    ]);
+
+    const failure = { success: false, articlesAdded: 0, articlesFetched: 0, durationMs: expect.any(Number) };
+    expect(summary.results).toEqual([
+      { ...failure, provider: 'BARE', error: 'Missing credentials (needs username+password)', errorKind: 'auth' },
+      { ...failure, provider: 'LOCKED', error: 'Authentication failed', errorKind: 'auth' },
+      { provider: 'FAKE', success: true, articlesAdded: 1, articlesFetched: 1, durationMs: expect.any(Number) },
+    ]);
+  });
+
+  test('should retry transient errors with backoff', async () => {
+    const delays: number[] = [];
+    const engine = new SyncEngine(settings({ retryDelay: 2 }), new MemoryStorage(), {
+      sleep: async ms => { delays.push(ms); },
+    });
+    const provider = new FlakyProvider([article('a')], [
+      new ProviderError('network', 'Request to example.com timed out'),
+      new ProviderError('rate-limit', 'Too many requests', 10000),
+    ]);
+
+    const summary = await engine.sync([provider]);
+
+    expect(summary.results[0]).toMatchObject({ success: true, articlesAdded: 1, attempts: 3 });
+    expect(delays).toEqual([2000, 10000]);
+  });
+
+  test('should give up on permanent errors and after the last retry', async () => {
+    const engine = new SyncEngine(settings({ retries: 1 }), new MemoryStorage(), { sleep: async () => {} });
+    const redesigned = new FlakyProvider([], [new ProviderError('selector', 'Saved list not found')]);
+    const offline = new FlakyProvider([], [new Error('net::ERR_INTERNET_DISCONNECTED'), new Error('net::ERR_INTERNET_DISCONNECTED')]);
+
+    const summary = await engine.sync([redesigned, offline]);
+
+    expect(redesigned.attempts).toBe(1);
+    expect(offline.attempts).toBe(2);
+    expect(summary.results.map(result => [result.errorKind, result.attempts])).toEqual([
+      ['selector', undefined],
+      ['network', 2],
+    ]);
+  });
+
+  test('should sync providers concurrently up to the limit and keep their order', async () => {
+    const engine = new SyncEngine(settings({ concurrency: 2 }), new MemoryStorage());
+    const providers = ['one', 'two', 'three'].map(name => new SlowProvider(name, [article(name)]));
+
+    const sync = engine.sync(providers);
+    await providers[1].finish();
+    await providers[0].finish();
+    await providers[2].finish();
+    const summary = await sync;
+
+    expect(SlowProvider.maxRunning).toBe(2);
+    expect(summary.results.map(result => result.provider)).toEqual(['ONE', 'TWO', 'THREE']);
+    expect(summary.articles.map(a => a.title)).toEqual(['one', 'two', 'three']);
+  });
+
+  test('should clean up every provider whether it succeeds or fails', async () => {
+    const engine = new SyncEngine(settings({ retries: 0 }), new MemoryStorage());
+    const ok = new FakeProvider('fake', [article('a')]);
+    const broken = new FlakyProvider([], [new Error('Cannot read properties of null')]);
+
+    await engine.sync([ok, broken]);
+
+    expect(ok.cleanups).toBe(1);
+    expect(broken.cleanups).toBeGreaterThanOrEqual(1);
+  });
+
+  test('should emit events in order', async () => {
+    const engine = new SyncEngine(settings(), new MemoryStorage());
+    const events: string[] = [];
+
+    engine.on('start', ({ providers }) => events.push(`start ${providers.join(',')}`));
+    engine.on('result', result => events.push(`result ${result.provider}`));
+    const off = engine.on('progress', () => events.push('progress'));
+    engine.on('complete', summary => events.push(`complete ${summary.newArticles.length}`));
+
+    await engine.sync([new FakeProvider('fake', [article('a')])]);
+    off();
+    await engine.sync([]);
+
+    expect(events).toEqual([
+      'start FAKE', 'progress', 'progress', 'progress', 'result FAKE', 'complete 1',
+      'start ', 'complete 0',
+    ]);
+  });
+
+  test('should pick up read checkboxes and archive them with write-back', async () => {
+    const storage = new MemoryStorage();
+    const config = settings();
+    config.providers.fake.writeBack = true;
+    const engine = new SyncEngine(config, storage);
+    const provider = new FakeProvider('fake', [article('a'), article('b')]);
+
+    await engine.sync([provider]);
+    const content = storage.files.get('ReadLater/Clippings.md') || '';
+    await storage.write('ReadLater/Clippings.md', content.replace('- [ ] Read', '- [x] Read'));
+
+    const writeBacks: number[] = [];
+    engine.on('write-back', result => writeBacks.push(result.results.length));
+    await engine.sync([provider]);
+
+    expect(provider.archived).toEqual(['https://example.com/a']);
+    expect(writeBacks).toEqual([1]);
+    expect(engine.index.getStatus('https://example.com/a')).toBe('archived');
+  });
+
+  test('should write one note per article in notes mode', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings({ outputMode: 'notes' }), storage);
+
+    const summary = await engine.sync([new FakeProvider('fake', [article('a')])]);
+
+    expect(summary.writtenPaths).toEqual(['ReadLater/Articles/a.md']);
+    expect(storage.files.get('ReadLater/Articles/a.md')).toContain('url: "https://example.com/a"');
+  });
+
+  test('should read the queue from the vault without syncing', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings({ outputMode: 'notes' }), storage);
+    await engine.sync([new FakeProvider('fake', [article('a'), article('b')])]);
+    storage.files.delete('ReadLater/Articles/b.md');
+    storage.files.set('ReadLater/Articles/a.md', (storage.files.get('ReadLater/Articles/a.md') || '').replace('status: unread', 'status: read'));
+
+    await engine.updateReadState();
+    const queue = await engine.readQueue();
+
+    expect(queue.map(a => [a.title, a.source, a.status])).toEqual([['a', 'FAKE', 'read']]);
+  });
+
+  test('should rebuild the index from the entries in the output file', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings(), storage);
+    await engine.sync([new FakeProvider('fake', [article('a'), article('b')])]);
+    const content = storage.files.get('ReadLater/Clippings.md') || '';
+    storage.files.set('ReadLater/Clippings.md', content
+      .replace('- [ ] Read', '- [x] Read')
+      .replace('%% readlater:end %%', 'Related: https://example.com/annotation\n%% readlater:end %%'));
+
+    expect(await engine.rebuildIndex()).toBe(2);
+    expect(engine.index.has('https://example.com/annotation')).toBe(false);
+    expect(engine.index.withStatus('read', 'FAKE').map(entry => [entry.title, entry.url])).toEqual([['a', 'https://example.com/a']]);
+  });
+
+  test('should rebuild the index from the article notes in notes mode', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings({ outputMode: 'notes' }), storage);
+    await engine.sync([new FakeProvider('fake', [article('a')])]);
+
+    expect(await engine.rebuildIndex()).toBe(1);
+    expect(engine.index.get('https://example.com/a')).toMatchObject({ title: 'a', source: 'FAKE' });
+  });
+
+  test('should write the RSS feed and leave the output alone when asked', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings({ feedFile: 'ReadLater/Queue.xml' }), storage, { writeOutput: false });
+
+    const summary = await engine.sync([new FakeProvider('fake', [article('a')])]);
+
+    expect(summary.writtenPaths).toEqual(['ReadLater/Queue.xml']);
+    expect(storage.files.get('ReadLater/Queue.xml')).toContain('<link>https://example.com/a</link>');
+    expect(storage.files.has('ReadLater/Clippings.md')).toBe(false);
+    expect(storage.files.has('ReadLater/.readlater-index.json')).toBe(true);
+  });
+
+  test('should keep articles from other providers in the feed when syncing one', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings({ feedFile: 'ReadLater/Queue.xml' }), storage);
+    await engine.loadIndex();
+    const other = { ...article('x'), source: 'OTHER', author: 'Ada', tags: ['longread'] };
+
+    await engine.sync([new FakeProvider('fake', [article('a')]), new FakeProvider('other', [other])]);
+    await engine.sync([new FakeProvider('fake', [article('a'), article('b')])]);
+
+    const feed = storage.files.get('ReadLater/Queue.xml') || '';
+    for (const slug of ['a', 'b', 'x']) {
+      expect(feed).toContain(`<link>https://example.com/${slug}</link>`);
+    }
+    expect(feed).toContain('<dc:creator>Ada</dc:creator>');
+    expect(feed).toContain('<category>longread</category>');
+  });
+
+  test('should record each run in the history and the Sync Log note', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings({ syncLogNote: 'ReadLater/Sync Log.md' }), storage);
+
+    await engine.sync([new FakeProvider('fake', [article('a'), article('b')])], 'interval');
+    await engine.sync([new FakeProvider('fake', [article('b'), article('c')])]);
+
+    const runs = (await engine.readHistory()).recent(5);
+    expect(runs.map(run => [run.trigger, run.newArticles, run.seenArticles])).toEqual([
+      ['manual', 1, 1],
+      ['interval', 2, 0],
+    ]);
+    expect(storage.files.get('ReadLater/Sync Log.md')).toContain('| manual |');
+  });
+
+  test('should log in with resolved references and leave them in the settings', async () => {
+    const config = settings({
+      providers: { fake: { enabled: true, credentials: { username: 'user', password: 'op://Private/Fake/password' } } },
+    });
+    const provider = new FakeProvider('fake', [article('a')], true, config.providers.fake.credentials);
+    const resolveCredentials = jest.fn(async () => ({ username: 'user', password: 'secret' }));
+    const engine = new SyncEngine(config, new MemoryStorage(), { resolveCredentials });
+
+    const summary = await engine.sync([provider]);
+
+    expect(summary.results[0].success).toBe(true);
+    expect(resolveCredentials).toHaveBeenCalledWith({ username: 'user', password: 'op://Private/Fake/password' });
+    expect(provider.credentials.password).toBe('secret');
+    expect(config.providers.fake.credentials.password).toBe('op://Private/Fake/password');
+  });
+
+  test('should fail the provider as an auth error when a reference does not resolve', async () => {
+    const resolveCredentials = async () => {
+      throw new Error('password: 1Password CLI not found');
+    };
+    const engine = new SyncEngine(settings(), new MemoryStorage(), { resolveCredentials, sleep: async () => {} });
+
+    const summary = await engine.sync([new FakeProvider('fake', [article('a')])]);
+
+    expect(summary.results[0]).toMatchObject({
+      success: false,
+      errorKind: 'auth',
+      error: 'Could not resolve credential password: 1Password CLI not found',
+    });
+  });
+
+  test('should not touch storage when not persisting', async () => {
+    const storage = new MemoryStorage();
+    const engine = new SyncEngine(settings(), storage, { persist: false });
+
+    const summary = await engine.sync([new FakeProvider('fake', [article('a')])]);
+
+    expect(summary.articles).toHaveLength(1);
+    expect(storage.files.size).toBe(0);
+  });
+});
@@ -0,0 +1,152 @@
+import { compileTemplate, TemplateError } from '../template/engine';
+import { formatDate } from '../template/filters';
+import { SAMPLE_ARTICLE, formatArticle } from '../template/article';
+import { DEFAULT_SETTINGS } from '../settings';
+import { ReadLaterArticle } from '../types';
+
+const options = { dateFormat: 'YYYY-MM-DD' };
+
+function render(template: string, context: Record<string, unknown>): string {
+  return compileTemplate(template).render(context, options);
+}
+
+function article(overrides: Partial<ReadLaterArticle> = {}): ReadLaterArticle {
+  return {
+    title: 'A Title',
+    url: 'https://example.com/a_b',
+    source: 'Wired.com',
+    addedDate: new Date(2024, 0, 5, 8, 3, 9),
+    ...overrides,
+  };
+}
+
+describe('formatDate', () => {
+  test('should format moment-style tokens and keep bracketed text', () => {
+    const date = new Date(2024, 2, 4, 15, 7, 9);
+
+    expect(formatDate(date, 'YYYY-MM-DD HH:mm:ss')).toBe('2024-03-04 15:07:09');
+    expect(formatDate(date, 'ddd, D MMM YY h:mm a')).toBe('Mon, 4 Mar 24 3:07 pm');
+    expect(formatDate(date, '[Week of] MMMM D')).toBe('Week of March 4');
+  });
+});
+
+describe('compileTemplate', () => {
+  test('should render fields and nested paths', () => {
+    expect(render('{{title}} by {{author.name}}', { title: 'Hi', author: { name: 'Ann' } }))
+      .toBe('Hi by Ann');
+  });
+
+  test('should support if/else on any field, treating empty lists as false', () => {
+    const template = '{{#if tags}}tagged{{else}}untagged{{/if}}';
+
+    expect(render(template, { tags: ['a'] })).toBe('tagged');
+    expect(render(template, { tags: [] })).toBe('untagged');
+  });
+
+  test('should loop with each, exposing this and @index', () => {
+    expect(render('{{#each tags}}{{@index}}:{{this}}{{#if @last}}.{{else}}, {{/if}}{{/each}}', { tags: ['x', 'y'] }))
+      .toBe('0:x, 1:y.');
+    expect(render('{{#each tags}}{{this}}{{else}}none{{/each}}', { tags: [] })).toBe('none');
+  });
+
+  test('should drop lines that only hold block tags', () => {
+    const template = 'start\n{{#if a}}\nA\n{{/if}}\n{{#if b}}\nB\n{{/if}}\nend\n';
+
+    expect(render(template, { a: true, b: false })).toBe('start\nA\nend\n');
+  });
+
+  test('should apply filters left to right', () => {
+    const context = { title: '  Hello World  ', excerpt: 'one two three four' };
+
+    expect(render('{{title | trim | upper}}', context)).toBe('HELLO WORLD');
+    expect(render('{{title | slug}}', context)).toBe('hello-world');
+    expect(render('{{excerpt | truncate:7}}', context)).toBe('one two…');
+    expect(render('{{excerpt | truncate:3, "..."}}', context)).toBe('one...');
+    expect(render('{{missing | default:"n/a"}}', context)).toBe('n/a');
+    expect(render('{{tags | lower | join:" "}}', { tags: ['AI', 'Go'] })).toBe('ai go');
+  });
+
+  test('should link values with wikilink without escaping them', () => {
+    expect(render('{{tags | wikilink}}', { tags: ['AI', 'Deep|Learning'] })).toBe('[[AI]], [[DeepLearning]]');
+  });
+
+  test('should escape Markdown in values unless raw', () => {
+    const context = { title: 'C# *tips* [draft] $5' };
+
+    expect(render('{{title}}', context)).toBe('C\\# \\*tips\\* \\[draft\\] \\$5');
+    expect(render('{{{title}}}', context)).toBe('C# *tips* [draft] $5');
+    expect(render('{{title | raw}}', context)).toBe('C# *tips* [draft] $5');
+  });
+
+  test.each([
+    ['{{title', 'Unclosed tag'],
+    ['{{#if title}}x', '"{{#if}}" is never closed'],
+    ['{{#if title}}x{{/each}}', 'Expected "{{/if}}"'],
+    ['x{{/if}}', 'without a matching'],
+    ['{{else}}', 'outside of an #if or #each block'],
+    ['{{#with title}}{{/with}}', 'Unknown block "#with"'],
+    ['{{title | shout}}', 'Unknown filter "shout"'],
+    ['{{title | truncate}}', 'Filter "truncate" takes 1-2 argument(s), got 0'],
+    ['{{title | date:YYYY}}', 'Invalid arguments for filter "date"'],
+    ['{{}}', 'Empty expression'],
+  ])('should report %s as a syntax error', (template, message) => {
+    expect(() => compileTemplate(template)).toThrow(TemplateError);
+    expect(() => compileTemplate(template)).toThrow(message);
+  });
+
+  test('should report the line and column of errors', () => {
+    let error: TemplateError | undefined;
+    try {
+      compileTemplate('line one\n  {{title | nope}}');
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toMatchObject({ line: 2, column: 3 });
+    expect(error?.message).toContain('(line 2, column 3)');
+  });
+});
+
+describe('formatArticle', () => {
+  test('should format dates with the configured dateFormat or an explicit one', () => {
+    const a = article({ publicationDate: '2023-12-25T10:00:00Z' });
+
+    expect(formatArticle(a, '{{addedDate}}', { dateFormat: 'DD/MM/YYYY' })).toBe('05/01/2024');
+    expect(formatArticle(a, '{{addedDate | date:"YYYY-MM-DD HH:mm"}}', options)).toBe('2024-01-05 08:03');
+    expect(formatArticle(a, '{{date}}', options)).toBe('2023-12-25T10:00:00Z');
+    expect(formatArticle(article({ publicationDate: 'Yesterday' }), '{{date | date}}', options)).toBe('Yesterday');
+  });
+
+  test('should not escape URLs or Markdown content', () => {
+    const a = article({ content: '**Bold** text' });
+
+    expect(formatArticle(a, '[{{title}}]({{url}})\n{{content}}', options))
+      .toBe('[A Title](https://example.com/a_b)\n**Bold** text');
+  });
+
+  test('should reject unknown fields', () => {
+    expect(() => formatArticle(article(), '{{titel}}', options)).toThrow('Unknown field "titel"');
+  });
+
+  test('should render the default template', () => {
+    const output = formatArticle(article({ tags: ['ai', 'ml'] }), DEFAULT_SETTINGS.template, options);
+
+    expect(output).toBe([
+      '## A Title',
+      '- **Source:** Wired.com',
+      '- **URL:** https://example.com/a_b',
+      '- **Author:** Unknown',
+      '- **Date:** ',
+      '- **Tags:** ai, ml',
+      '- [ ] Read',
+      '',
+      '---',
+      '',
+    ].join('\n'));
+  });
+
+  test('should render the sample article used for the settings preview', () => {
+    expect(formatArticle(SAMPLE_ARTICLE, DEFAULT_SETTINGS.template, options))
+      .toContain('## The \\[Surprising\\] Economics of \\*Reading Later\\*');
+  });
+});
@@ -6,15 +6,31 @@
  * Usage:
  *   readlater-sync --config config.json --output output.md
  *   readlater-sync --provider wired --username user@email.com --password pass123
+ *   readlater-sync doctor --config config.json
+ *   readlater-sync record-fixtures --provider guardian --username user@email.com --password pass123
  */
 
 import { chromium } from 'playwright';
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { dirname } from 'path';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
 import { ProviderRegistry } from './providers/registry';
-import { ReadLaterSettings, ReadLaterArticle, SyncResult } from './types';
+import { ReadLaterSettings } from './types';
 import { CredentialManager } from './credentials/manager';
 import { ObsidianSyncManager } from './sync/obsidian-sync';
+import { SyncEngine, SyncSummary } from './sync/engine';
+import { FileSystemStorage } from './sync/storage';
+import { DEFAULT_COMMIT_MESSAGE, GitStep, GitSync, GitSyncOptions, compileCommitMessage, renderCommitMessage } from './sync/git-sync';
+import { DEFAULT_TEMPLATE, compileArticleTemplate } from './template/article';
+import { describeWriteBack } from './sync/read-state';
+import { formatDuration } from './sync/history';
+import { EXPORT_FORMATS, exportArticles, isExportFormat } from './export/formats';
+import { SessionStore } from './providers/session-store';
+import { ERROR_KIND_LABELS, classifyError, describeFailure } from './providers/errors';
+import { DoctorCheck, ProviderDiagnosis, checkCredentials, diagnoseProvider, isHealthy, renderDoctorReport } from './providers/doctor';
+import { recordFixtures } from './providers/fixtures';
+import { BrowserProvider } from './providers/base';
+import { getPocketRequestToken, getPocketAuthorizeUrl, getPocketAccessToken } from './providers/pocket';
 
 interface CLIOptions {
   config?: string;
@@ -22,11 +38,30 @@ interface CLIOptions {
   provider?: string;
   username?: string;
   password?: string;
+  sessionToken?: string;
   append?: boolean;
   verbose?: boolean;
   vault?: string;
   gitSync?: boolean;
+  gitBranch?: string;
+  gitMessage?: string;
+  gitSign?: boolean;
   listCredentialProviders?: boolean;
+  rebuildIndex?: boolean;
+  notesFolder?: string;
+  fullText?: boolean;
+  maxItems?: number;
+  retries?: number;
+  concurrency?: number;
+  noSession?: boolean;
+  clearSessions?: boolean;
+  authorizePocket?: string;
+  writeBack?: boolean;
+  writeBackDryRun?: boolean;
+  format?: string;
+  history?: boolean;
+  doctor?: boolean;
+  recordFixtures?: boolean;
 }
 
 function parseArgs(): CLIOptions {
@@ -38,6 +73,12 @@ function parseArgs(): CLIOptions {
     const next = args[i + 1];
 
     switch (arg) {
+      case 'doctor':
+        options.doctor = true;
+        break;
+      case 'record-fixtures':
+        options.recordFixtures = true;
+        break;
       case '--config':
         options.config = next;
         i++;
@@ -58,6 +99,10 @@ function parseArgs(): CLIOptions {
         options.password = next;
         i++;
         break;
+      case '--session-token':
+        options.sessionToken = next;
+        i++;
+        break;
       case '--append':
         options.append = true;
         break;
@@ -72,9 +117,65 @@ function parseArgs(): CLIOptions {
       case '--git-sync':
         options.gitSync = true;
         break;
+      case '--git-branch':
+        options.gitBranch = next;
+        i++;
+        break;
+      case '--git-message':
+        options.gitMessage = next;
+        i++;
+        break;
+      case '--git-sign':
+        options.gitSign = true;
+        break;
       case '--list-credential-providers':
         options.listCredentialProviders = true;
         break;
+      case '--notes-folder':
+        options.notesFolder = next;
+        i++;
+        break;
+      case '--full-text':
+        options.fullText = true;
+        break;
+      case '--max-items':
+        options.maxItems = parseInt(next, 10);
+        i++;
+        break;
+      case '--retries':
+        options.retries = parseInt(next, 10);
+        i++;
+        break;
+      case '--concurrency':
+        options.concurrency = parseInt(next, 10);
+        i++;
+        break;
+      case '--no-session':
+        options.noSession = true;
+        break;
+      case '--clear-sessions':
+        options.clearSessions = true;
+        break;
+      case '--rebuild-index':
+        options.rebuildIndex = true;
+        break;
+      case '--history':
+        options.history = true;
+        break;
+      case '--write-back':
+        options.writeBack = true;
+        break;
+      case '--write-back-dry-run':
+        options.writeBackDryRun = true;
+        break;
+      case '--format':
+        options.format = next;
+        i++;
+        break;
+      case '--authorize-pocket':
+        options.authorizePocket = next;
+        i++;
+        break;
       case '--help':
       case '-h':
         printHelp();
@@ -92,19 +193,47 @@ Read Later Sync - Headless CLI
 Usage:
   readlater-sync --config config.json
   readlater-sync --provider wired --username user@example.com --password pass123 --output articles.md
+  readlater-sync --provider medium --session-token "sid-cookie-value" --output articles.md
   readlater-sync --config config.json --vault /path/to/vault --git-sync
+  readlater-sync doctor --config config.json
+  readlater-sync record-fixtures --provider guardian --no-session --output src/__tests__/fixtures
+
+Commands:
+  doctor                         Check each enabled provider's credentials, login and selectors,
+                                 print a pass/fail matrix and exit (status 1 if any check fails)
+  record-fixtures                Save each enabled browser provider's login and saved-list pages
+                                 under --output (default: fixtures) for offline replay tests
 
 Options:
   --config <file>                Path to configuration JSON file
   --output <file>                Output file path (default: stdout)
   --vault <path>                 Obsidian vault path (enables Obsidian Sync integration)
-  --git-sync                     Auto-commit and push changes to Git
-  --provider <name>              Provider name (wired, guardian, hbr, medium, irishtimes)
+  --git-sync                     Pull with rebase before writing, then commit and push changes to Git
+  --git-branch <name>            Commit to this branch instead of the vault's current one
+  --git-message <template>       Commit message template ({{count}}, {{summary}}, {{#each articles}}...)
+  --git-sign                     GPG-sign the commit
+  --provider <name>              Provider name (wired, guardian, hbr, medium, irishtimes,
+                                 pocket, instapaper, wallabag)
   --username <email>             Login username/email (or credential reference)
   --password <pass>              Login password (or credential reference)
-  --append                       Append to output file instead of replacing
+  --session-token <token>        Session cookie instead of username/password (or credential reference)
+  --format <fmt>                 Output format: md (default), json, csv, opml or rss. Formats other
+                                 than md are written to --output, or stdout if it isn't given
+  --append                       Add new articles to the synced list instead of rewriting it
+  --full-text                    Fetch each article's full text as Markdown ({{content}})
+  --max-items <n>                Maximum saved items to fetch per provider (default: 500)
+  --retries <n>                  Extra attempts after a network error or rate limit (default: 2)
+  --concurrency <n>              Providers to sync at the same time (default: 3)
+  --notes-folder <path>          Write one note per article to this vault folder (requires --vault)
+  --no-session                   Log in fresh instead of reusing saved browser sessions
+  --clear-sessions               Delete saved browser sessions and exit
   --verbose, -v                  Verbose output
   --list-credential-providers    List available credential managers
+  --write-back                   Archive articles marked read in the vault on each site that supports it
+  --write-back-dry-run           Only list what write-back would archive
+  --rebuild-index                Rebuild the article index from the output file and exit
+  --history                      Show the most recent sync runs and exit
+  --authorize-pocket <key>       Get a Pocket access token for a consumer key and exit
   --help, -h                     Show this help message
 
 Credential References:
@@ -118,18 +247,44 @@ Credential References:
     "username": "bw://item-name/field"
     Example: "bw://wired-login/username"
 
+  pass / gopass (first line is the password, "key: value" lines hold other fields):
+    "password": "pass://path/to/entry"
+    "username": "pass://path/to/entry#username"
+
   Environment Variables:
     "username": "env://WIRED_USERNAME"
 
 Configuration File Format:
   {
+    "outputMode": "file",
     "outputFile": "ReadLater/Clippings.md",
+    "notesFolder": "ReadLater/Articles",
+    "indexFile": "ReadLater/.readlater-index.json",
+    "feedFile": "ReadLater/Reading Queue.xml",
+    "historyFile": "ReadLater/.readlater-history.json",
+    "syncLogNote": "ReadLater/Sync Log.md",
     "appendMode": true,
+    "persistSessions": true,
+    "writeBackDryRun": false,
+    "retries": 2,
+    "retryDelay": 5,
+    "concurrency": 3,
+    "sessionDir": "~/.obsidian-readlater/auth-state",
     "vaultPath": "/Users/name/Documents/MyVault",
     "gitSync": true,
+    "git": {
+      "branch": "readlater",
+      "commitMessage": "Sync {{count}} articles ({{summary}})\\n\\n{{#each articles}}- {{this.title}}\\n{{/each}}",
+      "sign": true,
+      "pushRetries": 2
+    },
     "providers": {
       "wired": {
         "enabled": true,
+        "fetchFullText": true,
+        "maxItems": 300,
+        "writeBack": true,
+        "timeouts": { "login": 30000 },
         "credentials": {
           "username": "op://Private/Wired/username",
           "password": "op://Private/Wired/password"
@@ -141,10 +296,24 @@ Configuration File Format:
           "username": "env://GUARDIAN_USER",
           "password": "env://GUARDIAN_PASS"
         }
+      },
+      "wallabag": {
+        "enabled": true,
+        "serverUrl": "https://wallabag.example.com",
+        "credentials": {
+          "apiKey": "env://WALLABAG_CLIENT_ID",
+          "apiSecret": "env://WALLABAG_CLIENT_SECRET",
+          "username": "env://WALLABAG_USER",
+          "password": "env://WALLABAG_PASS"
+        }
       }
-    }
+    },
+    "customProviders": []
   }
 
+  Custom providers describe additional sites by login steps and CSS selectors;
+  see the README for the format.
+
 Examples:
   # Use 1Password CLI for credentials
   readlater-sync --config config.json --vault ~/Documents/MyVault
@@ -154,87 +323,261 @@ Examples:
   export WIRED_PASS="password"
   readlater-sync --provider wired --username "env://WIRED_USER" --password "env://WIRED_PASS"
 
+  # Medium signs in with magic links, so pass its "sid" session cookie
+  readlater-sync --provider medium --session-token "env://MEDIUM_SID" --output medium.md
+
+  # Authorize Pocket, then put the printed access token in "sessionToken"
+  readlater-sync --authorize-pocket "your-consumer-key"
+
+  # Print the reading queue as JSON for scripts
+  readlater-sync --config config.json --format json | jq '.[].url'
+
   # Sync to vault with Git auto-commit
   readlater-sync --config config.json --vault ~/Documents/MyVault --git-sync
 `);
 }
 
-async function loadConfig(configPath: string): Promise<ReadLaterSettings> {
-  const config = JSON.parse(readFileSync(configPath, 'utf-8'));
-
-  // Merge with defaults
+/**
+ * Settings from a parsed config file, with defaults for anything missing
+ */
+function settingsFromConfig(config: Partial<ReadLaterSettings>): ReadLaterSettings {
   return {
+    outputMode: config.outputMode || 'file',
     outputFile: config.outputFile || 'output.md',
+    notesFolder: config.notesFolder || 'ReadLater/Articles',
+    indexFile: config.indexFile || '.readlater-index.json',
+    feedFile: config.feedFile || '',
+    historyFile: config.historyFile || '.readlater-history.json',
+    syncLogNote: config.syncLogNote || '',
     providers: config.providers || {},
+    customProviders: config.customProviders || [],
     syncInterval: 0,
+    retries: config.retries !== undefined ? config.retries : 2,
+    retryDelay: config.retryDelay !== undefined ? config.retryDelay : 5,
+    concurrency: config.concurrency || 3,
     headlessMode: true,
+    persistSessions: config.persistSessions !== undefined ? config.persistSessions : true,
+    sessionDir: config.sessionDir || '',
+    writeBackDryRun: config.writeBackDryRun || false,
     appendMode: config.appendMode !== undefined ? config.appendMode : true,
     dateFormat: config.dateFormat || 'YYYY-MM-DD',
-    template: config.template || `## {{title}}
-- **Source:** {{source}}
-- **URL:** {{url}}
-- **Author:** {{author}}
-- **Date:** {{date}}
-{{#if excerpt}}
-- **Excerpt:** {{excerpt}}
-{{/if}}
-
----
-`
+    template: config.template || DEFAULT_TEMPLATE
   };
 }
 
-function formatArticle(article: ReadLaterArticle, template: string): string {
-  let result = template;
+async function loadConfig(configPath: string): Promise<ReadLaterSettings> {
+  return settingsFromConfig(JSON.parse(readFileSync(configPath, 'utf-8')));
+}
 
-  result = result.replace(/{{title}}/g, article.title || 'Untitled');
-  result = result.replace(/{{url}}/g, article.url);
-  result = result.replace(/{{source}}/g, article.source);
-  result = result.replace(/{{author}}/g, article.author || 'Unknown');
-  result = result.replace(/{{date}}/g, article.publicationDate || '');
+/**
+ * Storage for the vault, or for paths relative to the working directory without one
+ */
+function createStorage(syncManager: ObsidianSyncManager | null): FileSystemStorage {
+  return new FileSystemStorage(syncManager || new ObsidianSyncManager({ vaultPath: '' }));
+}
 
-  // Handle conditional blocks
-  if (article.excerpt) {
-    result = result.replace(/{{#if excerpt}}([\s\S]*?){{\/if}}/g, '$1');
-    result = result.replace(/{{excerpt}}/g, article.excerpt);
-  } else {
-    result = result.replace(/{{#if excerpt}}[\s\S]*?{{\/if}}/g, '');
+async function rebuildIndex(options: CLIOptions): Promise<void> {
+  if (!options.config && !options.output) {
+    console.error('Error: --rebuild-index requires --config or --output');
+    process.exit(1);
+  }
+
+  const rawConfig = options.config ? JSON.parse(readFileSync(options.config, 'utf-8')) : {};
+  const vaultPath: string | null = rawConfig.vaultPath || options.vault || null;
+  const settings = settingsFromConfig(rawConfig);
+  if (options.output) {
+    settings.outputFile = options.output;
   }
 
-  if (article.tags && article.tags.length > 0) {
-    result = result.replace(/{{#if tags}}([\s\S]*?){{\/if}}/g, '$1');
-    result = result.replace(/{{tags}}/g, article.tags.join(', '));
+  const syncManager = vaultPath ? new ObsidianSyncManager({ vaultPath }) : null;
+  if (syncManager && !syncManager.isValidVault()) {
+    console.error(`Error: Invalid vault path: ${vaultPath}`);
+    process.exit(1);
+  }
+
+  const engine = new SyncEngine(settings, createStorage(syncManager));
+  await engine.loadIndex();
+  const count = await engine.rebuildIndex();
+
+  const rebuiltFrom = settings.outputMode === 'notes' ? settings.notesFolder : settings.outputFile;
+  console.log(`Article index rebuilt from ${rebuiltFrom}: ${count || 0} articles`);
+}
+
+/**
+ * Settings for a command that runs against the providers in --config, or the one given by --provider
+ */
+async function commandSettings(options: CLIOptions, command: string): Promise<ReadLaterSettings | null> {
+  let settings: ReadLaterSettings;
+  if (options.config) {
+    settings = await loadConfig(options.config);
+  } else if (options.provider) {
+    settings = settingsFromConfig({
+      providers: {
+        [options.provider]: {
+          enabled: true,
+          credentials: {
+            username: options.username,
+            password: options.password,
+            sessionToken: options.sessionToken
+          }
+        }
+      }
+    });
   } else {
-    result = result.replace(/{{#if tags}}[\s\S]*?{{\/if}}/g, '');
+    console.error(`Error: ${command} requires --config or --provider`);
+    return null;
   }
 
-  return result;
+  if (options.noSession) {
+    settings.persistSessions = false;
+  }
+  return settings;
 }
 
-async function saveArticles(
-  articles: ReadLaterArticle[],
-  outputPath: string,
-  append: boolean,
-  template: string
-): Promise<void> {
-  const formatted = articles.map(article => formatArticle(article, template)).join('\n');
+/**
+ * Check each enabled provider's credentials, login and selectors; returns false if any check failed
+ */
+async function runDoctor(options: CLIOptions): Promise<boolean> {
+  const settings = await commandSettings(options, 'doctor');
+  if (!settings) {
+    return false;
+  }
+
+  // Resolve references up front so a locked vault shows as a credentials failure, not a login one
+  const credManager = new CredentialManager();
+  const credentialChecks = new Map<string, DoctorCheck>();
+  for (const [providerName, providerConfig] of Object.entries(settings.providers)) {
+    if (!providerConfig.enabled) continue;
+
+    const { check, resolved } = await checkCredentials(providerConfig.credentials, value =>
+      credManager.resolveCredential(credManager.parseReference(value))
+    );
+    providerConfig.credentials = resolved;
+    credentialChecks.set(providerName, check);
+  }
 
-  if (!outputPath || outputPath === '-') {
-    console.log(formatted);
+  const registry = new ProviderRegistry(settings);
+  const providers = registry.getEnabledProviders();
+  if (providers.length === 0) {
+    console.error('Error: No providers enabled');
+    return false;
+  }
+
+  const diagnoses: ProviderDiagnosis[] = [];
+  try {
+    for (const provider of providers) {
+      console.log(`Checking ${provider.displayName}...`);
+      diagnoses.push(await diagnoseProvider(provider, credentialChecks.get(provider.name)));
+    }
+  } finally {
+    await registry.closeBrowser();
+  }
+
+  console.log('\n' + renderDoctorReport(diagnoses));
+  return diagnoses.every(isHealthy);
+}
+
+/**
+ * Record each enabled browser provider's pages for the replay tests; returns false if any recording failed
+ */
+async function runRecordFixtures(options: CLIOptions): Promise<boolean> {
+  const settings = await commandSettings(options, 'record-fixtures');
+  if (!settings) {
+    return false;
+  }
+
+  const credManager = new CredentialManager();
+  for (const providerConfig of Object.values(settings.providers)) {
+    if (providerConfig.enabled) {
+      providerConfig.credentials = await credManager.resolveReferences(providerConfig.credentials);
+    }
+  }
+
+  const providers = new ProviderRegistry(settings).getEnabledProviders()
+    .filter((provider): provider is BrowserProvider => provider instanceof BrowserProvider);
+  if (providers.length === 0) {
+    console.error('Error: No browser providers enabled; API providers have no pages to record');
+    return false;
+  }
+
+  const outputDir = options.output || 'fixtures';
+  let recorded = true;
+
+  for (const provider of providers) {
+    const dir = join(outputDir, provider.name);
+    console.log(`Recording ${provider.displayName}...`);
+
+    try {
+      const manifest = await recordFixtures(provider, dir);
+      console.log(`  ${manifest.pages.length} page(s) saved to ${dir}`);
+    } catch (error) {
+      const classified = classifyError(error);
+      console.error(`  ✗ ${ERROR_KIND_LABELS[classified.kind]}: ${classified.message}`);
+      recorded = false;
+    }
+  }
+
+  console.log('\nCheck the saved pages for names, email addresses and other personal details before committing them.');
+  return recorded;
+}
+
+async function showHistory(options: CLIOptions): Promise<void> {
+  const rawConfig = options.config ? JSON.parse(readFileSync(options.config, 'utf-8')) : {};
+  const vaultPath: string | null = rawConfig.vaultPath || options.vault || null;
+  const syncManager = vaultPath ? new ObsidianSyncManager({ vaultPath }) : null;
+
+  const history = await new SyncEngine(settingsFromConfig(rawConfig), createStorage(syncManager)).readHistory();
+  const runs = history.recent(10);
+
+  if (runs.length === 0) {
+    console.log('No syncs recorded yet');
     return;
   }
 
-  // Create directory if it doesn't exist
-  const dir = dirname(outputPath);
-  if (dir && !existsSync(dir)) {
-    mkdirSync(dir, { recursive: true });
+  for (const { provider, since } of history.emptyProviders()) {
+    console.log(`Warning: ${provider} has returned no articles since ${since.toLocaleString()}`);
   }
 
-  if (append && existsSync(outputPath)) {
-    const existing = readFileSync(outputPath, 'utf-8');
-    writeFileSync(outputPath, existing + '\n\n' + formatted);
-  } else {
-    writeFileSync(outputPath, formatted);
+  for (const run of runs) {
+    console.log(`${new Date(run.startedAt).toLocaleString()}  ${run.trigger}  ${formatDuration(run.durationMs)}  ` +
+      `${run.newArticles} new, ${run.seenArticles} seen`);
+    for (const result of run.results) {
+      const status = result.success ? '✓' : '✗';
+      console.log(`  ${status} ${result.provider}: ${result.articlesFetched ?? 0} fetched, ${result.articlesAdded} new` +
+        (result.error ? ` (${describeFailure(result)})` : ''));
+    }
+    if (run.error) {
+      console.log(`  Error: ${run.error}`);
+    }
+  }
+}
+
+/**
+ * Walk through Pocket's OAuth flow interactively and print the access token
+ */
+async function authorizePocket(consumerKey: string): Promise<void> {
+  const redirectUri = 'https://getpocket.com/connected_applications';
+  const requestToken = await getPocketRequestToken(consumerKey, redirectUri);
+
+  console.log('Open this URL in a browser and approve access:');
+  console.log(`  ${getPocketAuthorizeUrl(requestToken, redirectUri)}`);
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  await new Promise<void>(resolve => rl.question('\nPress Enter once approved...', () => resolve()));
+  rl.close();
+
+  const accessToken = await getPocketAccessToken(consumerKey, requestToken);
+  console.log(`\nAccess token: ${accessToken}`);
+  console.log('Use it as the Pocket "sessionToken" credential, with the consumer key as "apiKey".');
+}
+
+/**
+ * Print what Git sync did, one line per step
+ */
+function reportGitSteps(steps: GitStep[], report: (message: string) => void): void {
+  report('\nGit:');
+  for (const step of steps) {
+    report(`  ${step.success ? '✓' : '✗'} ${step.detail}`);
   }
 }
 
@@ -252,15 +595,55 @@ async function main(): Promise<void> {
     }
 
     if (available.length === 0) {
-      console.log('  (none available - install 1Password CLI or Bitwarden CLI)');
+      console.log('  (none available - install 1Password CLI, Bitwarden CLI, pass or gopass)');
     }
 
     process.exit(0);
   }
 
+  if (options.clearSessions) {
+    const rawConfig = options.config ? JSON.parse(readFileSync(options.config, 'utf-8')) : {};
+    const count = new SessionStore(rawConfig.sessionDir).clearAll();
+    console.log(`Cleared ${count} saved session(s)`);
+    process.exit(0);
+  }
+
+  if (options.rebuildIndex) {
+    await rebuildIndex(options);
+    process.exit(0);
+  }
+
+  if (options.history) {
+    await showHistory(options);
+    process.exit(0);
+  }
+
+  if (options.doctor) {
+    process.exit(await runDoctor(options) ? 0 : 1);
+  }
+
+  if (options.recordFixtures) {
+    process.exit(await runRecordFixtures(options) ? 0 : 1);
+  }
+
+  if (options.authorizePocket) {
+    await authorizePocket(options.authorizePocket);
+    process.exit(0);
+  }
+
+  const format = options.format || 'md';
+  if (!isExportFormat(format)) {
+    console.error(`Error: Unknown format "${format}" (expected ${EXPORT_FORMATS.join(', ')})`);
+    process.exit(1);
+  }
+
+  // Other formats go to --output or stdout, leaving the configured Markdown output alone
+  const markdownOutput = format === 'md' ? options.output : undefined;
+
   let settings: ReadLaterSettings;
   let vaultPath: string | null = null;
   let useGitSync = false;
+  let gitOptions: GitSyncOptions = {};
 
   if (options.config) {
     // Load from config file
@@ -269,71 +652,126 @@ async function main(): Promise<void> {
     // Extract vault and git settings
     vaultPath = rawConfig.vaultPath || options.vault || null;
     useGitSync = rawConfig.gitSync || options.gitSync || false;
+    gitOptions = rawConfig.git || {};
 
     settings = await loadConfig(options.config);
 
-    if (options.output) {
-      settings.outputFile = options.output;
+    if (markdownOutput) {
+      settings.outputFile = markdownOutput;
     }
     if (options.append !== undefined) {
       settings.appendMode = options.append;
     }
-  } else if (options.provider && options.username && options.password) {
+  } else if (options.provider && ((options.username && options.password) || options.sessionToken)) {
     // Use command-line arguments
     vaultPath = options.vault || null;
     useGitSync = options.gitSync || false;
 
-    settings = {
-      outputFile: options.output || '-',
+    settings = settingsFromConfig({
+      outputFile: markdownOutput || '-',
+      appendMode: options.append || false,
       providers: {
         [options.provider]: {
           enabled: true,
           credentials: {
             username: options.username,
-            password: options.password
+            password: options.password,
+            sessionToken: options.sessionToken
           }
         }
-      },
-      syncInterval: 0,
-      headlessMode: true,
-      appendMode: options.append || false,
-      dateFormat: 'YYYY-MM-DD',
-      template: `## {{title}}
-- **Source:** {{source}}
-- **URL:** {{url}}
-- **Author:** {{author}}
-
----
-`
-    };
+      }
+    });
   } else {
-    console.error('Error: Must provide either --config or --provider with credentials');
+    console.error('Error: Must provide either --config or --provider with --username/--password or --session-token');
     printHelp();
     process.exit(1);
   }
 
-  // Resolve credentials using credential manager
-  const credManager = new CredentialManager();
+  if (options.noSession) {
+    settings.persistSessions = false;
+  }
 
-  for (const [providerName, providerConfig] of Object.entries(settings.providers)) {
-    if (!providerConfig.enabled) continue;
+  if (options.gitBranch) {
+    gitOptions.branch = options.gitBranch;
+  }
+  if (options.gitMessage) {
+    gitOptions.commitMessage = options.gitMessage;
+  }
+  if (options.gitSign) {
+    gitOptions.sign = true;
+  }
+  const commitMessage = gitOptions.commitMessage || DEFAULT_COMMIT_MESSAGE;
 
-    const creds = providerConfig.credentials;
-    const resolvedCreds: Record<string, string> = {};
+  for (const providerConfig of Object.values(settings.providers)) {
+    if (options.fullText) {
+      providerConfig.fetchFullText = true;
+    }
+    if (options.maxItems && options.maxItems > 0) {
+      providerConfig.maxItems = options.maxItems;
+    }
+    if (options.writeBack) {
+      providerConfig.writeBack = true;
+    }
+  }
 
-    for (const [key, value] of Object.entries(creds)) {
-      if (typeof value === 'string') {
-        const parsed = credManager.parseReference(value);
-        resolvedCreds[key] = await credManager.resolveCredential(parsed);
-      }
+  if (options.writeBackDryRun) {
+    settings.writeBackDryRun = true;
+  }
+
+  if (options.retries !== undefined && !isNaN(options.retries) && options.retries >= 0) {
+    settings.retries = options.retries;
+  }
+
+  if (options.concurrency && options.concurrency > 0) {
+    settings.concurrency = options.concurrency;
+  }
+
+  if (options.notesFolder) {
+    settings.outputMode = 'notes';
+    settings.notesFolder = options.notesFolder;
+  }
+
+  if (settings.outputMode === 'notes' && !vaultPath) {
+    console.error('Error: One-note-per-article output requires a vault (--vault or vaultPath)');
+    process.exit(1);
+  }
+
+  // Report template mistakes before logging in anywhere
+  try {
+    compileArticleTemplate(settings.template);
+  } catch (error) {
+    console.error(`Error: Invalid template: ${error.message}`);
+    process.exit(1);
+  }
+
+  if (useGitSync) {
+    try {
+      compileCommitMessage(commitMessage);
+    } catch (error) {
+      console.error(`Error: Invalid commit message template: ${error.message}`);
+      process.exit(1);
     }
+  }
 
-    // Update with resolved credentials
-    providerConfig.credentials = resolvedCreds;
+  // Resolve credentials using credential manager
+  const credManager = new CredentialManager();
+
+  for (const providerConfig of Object.values(settings.providers)) {
+    if (providerConfig.enabled) {
+      providerConfig.credentials = await credManager.resolveReferences(providerConfig.credentials);
+    }
   }
 
+  // Track already-written articles unless Markdown output goes to stdout
+  const useIndex = !!vaultPath || (!!settings.outputFile && settings.outputFile !== '-');
+  const exportToStdout = format !== 'md' && (!options.output || options.output === '-');
+
+  // Keep stdout for the articles when they are written there
+  const toStdout = exportToStdout || (format === 'md' && !useIndex);
+  const report = toStdout ? console.error : console.log;
+
   if (options.verbose) {
-    console.log('Starting sync with settings:', JSON.stringify({
+    report('Starting sync with settings:', JSON.stringify({
       ...settings,
       providers: Object.fromEntries(
         Object.entries(settings.providers).map(([k, v]) => [k, { ...v, credentials: '***' }])
@@ -341,8 +779,18 @@ async function main(): Promise<void> {
     }, null, 2));
   }
 
+  // Checked before Git sync can switch the vault to another branch
+  const registry = new ProviderRegistry(settings);
+  const providers = registry.getEnabledProviders();
+
+  if (providers.length === 0) {
+    console.error('Error: No providers enabled');
+    process.exit(1);
+  }
+
   // Initialize Obsidian Sync if vault path provided
   let syncManager: ObsidianSyncManager | null = null;
+  let gitSync: GitSync | null = null;
   if (vaultPath) {
     syncManager = new ObsidianSyncManager({ vaultPath, syncEnabled: true, autoCommit: useGitSync });
 
@@ -352,145 +800,117 @@ async function main(): Promise<void> {
     }
 
     if (options.verbose) {
-      console.log(`Using Obsidian vault: ${vaultPath}`);
+      report(`Using Obsidian vault: ${vaultPath}`);
       if (syncManager.isGitVault()) {
-        console.log('  Git repository detected');
+        report('  Git repository detected');
         if (useGitSync) {
-          console.log('  Auto-commit and push enabled');
+          report('  Auto-commit and push enabled');
         }
       }
     }
 
-    // Pull latest changes if using Git sync
+    // Pull latest changes before writing anything; a conflict stops the sync with the vault untouched
     if (useGitSync && syncManager.isGitVault()) {
       if (options.verbose) {
-        console.log('Pulling latest changes from Git...');
+        report('Pulling latest changes from Git...');
+      }
+      gitSync = new GitSync(vaultPath, gitOptions);
+      if (!(await gitSync.prepare())) {
+        await gitSync.restoreBranch();
+        reportGitSteps(gitSync.steps, console.error);
+        console.error('Error: Git sync failed before writing; nothing was synced');
+        process.exit(1);
       }
-      syncManager.gitPull();
     }
   }
 
-  const registry = new ProviderRegistry(settings);
-  const providers = registry.getEnabledProviders();
-
-  if (providers.length === 0) {
-    console.error('Error: No providers enabled');
-    process.exit(1);
-  }
-
-  const results: SyncResult[] = [];
-  const allArticles: ReadLaterArticle[] = [];
+  // Everything that writes to the vault; with Git sync it runs on the sync branch
+  const syncVault = async (): Promise<SyncSummary> => {
+    const engine = new SyncEngine(settings, createStorage(syncManager), {
+      persist: useIndex,
+      writeOutput: format === 'md',
+    });
+    await engine.loadIndex();
 
-  for (const provider of providers) {
-    try {
+    engine.on('progress', ({ message }) => {
       if (options.verbose) {
-        console.log(`Authenticating with ${provider.displayName}...`);
+        report(message);
       }
-
-      const authenticated = await provider.authenticate();
-
-      if (!authenticated) {
-        console.error(`Failed to authenticate with ${provider.displayName}`);
-        results.push({
-          provider: provider.displayName,
-          success: false,
-          articlesAdded: 0,
-          error: 'Authentication failed'
-        });
-        continue;
+    });
+
+    engine.on('write-back', writeBack => {
+      report(describeWriteBack(writeBack));
+      for (const entry of writeBack.pending) {
+        const result = writeBack.results.find(r => r.url === entry.url);
+        const status = writeBack.dryRun ? '-' : result?.success ? '✓' : '✗';
+        report(`  ${status} ${entry.url}${result?.error ? ` (${result.error})` : ''}`);
       }
+    });
 
-      if (options.verbose) {
-        console.log(`Fetching articles from ${provider.displayName}...`);
+    engine.on('result', result => {
+      if (!result.success) {
+        console.error(`Error with ${result.provider}: ${describeFailure(result)}`);
       }
+    });
 
-      const articles = await provider.fetchArticles();
-      allArticles.push(...articles);
-
-      results.push({
-        provider: provider.displayName,
-        success: true,
-        articlesAdded: articles.length
-      });
-
-      if (options.verbose) {
-        console.log(`Fetched ${articles.length} articles from ${provider.displayName}`);
-      }
-
-    } catch (error) {
-      console.error(`Error with ${provider.displayName}:`, error);
-      results.push({
-        provider: provider.displayName,
-        success: false,
-        articlesAdded: 0,
-        error: error.message
-      });
+    let summary: SyncSummary;
+    try {
+      summary = await engine.sync(providers, 'cli');
+    } finally {
+      await registry.closeBrowser();
+    }
+    const { results, articles, newArticles, writtenPaths } = summary;
+
+    const exportOptions = { template: settings.template, dateFormat: settings.dateFormat };
+    if (toStdout) {
+      process.stdout.write(exportArticles(articles, format, exportOptions) + (format === 'md' ? '\n' : ''));
+    } else if (format !== 'md' && options.output) {
+      await engine.exportArticles(articles, format, options.output);
+      writtenPaths.push(options.output);
     }
-  }
-
-  // Save articles
-  if (allArticles.length > 0) {
-    const formatted = allArticles.map(article => formatArticle(article, settings.template)).join('\n');
-
-    // Use sync manager if vault is configured, otherwise fall back to direct file write
-    if (syncManager) {
-      const relativePath = settings.outputFile;
-
-      if (settings.appendMode) {
-        syncManager.appendFile(relativePath, formatted);
-      } else {
-        syncManager.writeFile(relativePath, formatted);
-      }
 
+    if (syncManager && writtenPaths.length > 0) {
       if (options.verbose) {
-        console.log(`Wrote to vault: ${relativePath}`);
+        report(`Wrote to vault: ${writtenPaths.join(', ')}`);
       }
 
       // Trigger Obsidian Sync
       syncManager.triggerSync();
 
       // Git commit and push if enabled
-      if (useGitSync && syncManager.isGitVault()) {
-        const commitMsg = `chore: sync read-later articles (${allArticles.length} articles)`;
-
-        if (syncManager.gitCommit(commitMsg, [relativePath])) {
-          if (options.verbose) {
-            console.log('Changes committed to Git');
-          }
-
-          if (syncManager.gitPush()) {
-            if (options.verbose) {
-              console.log('Changes pushed to remote');
-            }
-          }
-        }
+      if (gitSync) {
+        const recordPaths = [settings.indexFile, settings.historyFile, settings.syncLogNote].filter(Boolean);
+        await gitSync.publish([...writtenPaths, ...recordPaths], renderCommitMessage(commitMessage, results, newArticles));
       }
-    } else {
-      // Direct file write (no vault)
-      await saveArticles(
-        allArticles,
-        settings.outputFile,
-        settings.appendMode,
-        settings.template
-      );
     }
 
-    console.log(`\nSync complete: ${allArticles.length} articles saved`);
+    return summary;
+  };
+
+  const summary = gitSync ? await gitSync.onSyncBranch(syncVault) : await syncVault();
+  const { results, articles, newArticles, writtenPaths } = summary;
+
+  if (writtenPaths.length > 0 || (toStdout && articles.length > 0)) {
+    report(`\nSync complete: ${newArticles.length} new articles saved`);
   } else {
-    console.log('\nNo articles found');
+    report('\nNo new articles found');
   }
 
   // Print summary
-  console.log('\nResults:');
+  report('\nResults:');
   for (const result of results) {
     const status = result.success ? '✓' : '✗';
-    console.log(`  ${status} ${result.provider}: ${result.articlesAdded} articles`);
+    report(`  ${status} ${result.provider}: ${result.articlesAdded} articles`);
     if (result.error) {
-      console.log(`    Error: ${result.error}`);
+      report(`    Error: ${describeFailure(result)}`);
     }
   }
 
-  const failures = results.filter(r => !r.success).length;
+  if (gitSync) {
+    reportGitSteps(gitSync.steps, report);
+  }
+
+  const failures = results.filter(r => !r.success).length + (gitSync?.steps.filter(step => !step.success).length || 0);
   process.exit(failures > 0 ? 1 : 0);
 }
 
@@ -0,0 +1,64 @@
+/**
+ * Find the main article content on the current page and return it as HTML
+ *
+ * Runs inside the browser via page.evaluate(), so it must stay self-contained:
+ * no imports and no references to anything outside the function body.
+ * Uses a Readability-style heuristic: strip obvious boilerplate, then score
+ * candidate containers by the amount of paragraph text they hold, penalizing
+ * link-heavy blocks such as navigation and related-story lists.
+ */
+export function extractMainContent(): string {
+  const BOILERPLATE_SELECTORS = [
+    'script', 'style', 'noscript', 'iframe', 'svg', 'form', 'button',
+    'nav', 'header', 'footer', 'aside',
+    '[role="navigation"]', '[role="banner"]', '[role="complementary"]', '[role="contentinfo"]',
+    '[aria-hidden="true"]',
+    '[class*="advert"]', '[class*="promo"]', '[class*="newsletter"]', '[class*="related"]',
+    '[class*="share"]', '[class*="social"]', '[class*="comment"]', '[class*="paywall"]',
+    '[id*="advert"]', '[id*="newsletter"]', '[id*="related"]', '[id*="comment"]'
+  ];
+
+  const root = document.body.cloneNode(true) as HTMLElement;
+  for (const selector of BOILERPLATE_SELECTORS) {
+    root.querySelectorAll(selector).forEach(el => el.remove());
+  }
+
+  const textLength = (el: Element) => (el.textContent || '').replace(/\s+/g, ' ').trim().length;
+
+  const linkDensity = (el: Element) => {
+    const total = textLength(el);
+    if (total === 0) return 1;
+    let linked = 0;
+    el.querySelectorAll('a').forEach(a => { linked += textLength(a); });
+    return linked / total;
+  };
+
+  // Score each paragraph's parent and grandparent, as Readability does
+  const scores = new Map<Element, number>();
+  root.querySelectorAll('p, pre, blockquote').forEach(p => {
+    const length = textLength(p);
+    if (length < 25) return;
+
+    const score = 1 + (p.textContent || '').split(',').length + Math.min(Math.floor(length / 100), 3);
+    const parent = p.parentElement;
+    const grandparent = parent?.parentElement;
+
+    if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  const semantic = root.querySelector('article, [itemprop="articleBody"], main, [role="main"]');
+  const content: Element = best || semantic || root;
+
+  return content.innerHTML;
+}
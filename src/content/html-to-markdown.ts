@@ -0,0 +1,230 @@
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Elements whose content never belongs in the article text
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'svg', 'iframe', 'form', 'button', 'select', 'textarea', 'template', 'head']);
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'figure', 'figcaption',
+  'table', 'thead', 'tbody', 'tfoot', 'dl', 'dt', 'dd', 'address', 'details', 'summary'
+]);
+
+// Stands in for list indentation so whitespace normalization leaves it alone
+const INDENT = '\u0001';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’',
+  ldquo: '“', rdquo: '”', laquo: '«', raquo: '»', copy: '©', reg: '®', trade: '™'
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const num = code[1].toLowerCase() === 'x' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+      return isNaN(num) ? entity : String.fromCodePoint(num);
+    }
+    const named = NAMED_ENTITIES[code.toLowerCase()];
+    return named !== undefined ? named : entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+  let match;
+  while ((match = pattern.exec(source)) !== null) {
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attrs[match[1].toLowerCase()] = decodeEntities(value);
+  }
+
+  return attrs;
+}
+
+/**
+ * Parse HTML into a lightweight tree; tolerant of unclosed and stray tags
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: 'root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/([a-zA-Z][a-zA-Z0-9-]*)\s*>|<([a-zA-Z][a-zA-Z0-9-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g;
+
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    const [token, closeTag, openTag, attrSource] = match;
+    const current = stack[stack.length - 1];
+
+    if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      const index = stack.map(el => el.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+    } else if (openTag) {
+      const tag = openTag.toLowerCase();
+      const element: HtmlElement = { tag, attrs: parseAttributes(attrSource), children: [] };
+      current.children.push(element);
+
+      if (!VOID_TAGS.has(tag) && !attrSource.trim().endsWith('/')) {
+        stack.push(element);
+      }
+    } else if (!token.startsWith('<!')) {
+      current.children.push(token);
+    }
+  }
+
+  return root;
+}
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  if (!baseUrl) {
+    return href;
+  }
+
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+function block(content: string): string {
+  const trimmed = content.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : '';
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === 'string') {
+    return decodeEntities(node);
+  }
+  return node.children.map(textContent).join('');
+}
+
+class MarkdownRenderer {
+  constructor(private baseUrl?: string) {}
+
+  render(node: HtmlNode, listDepth = 0): string {
+    if (typeof node === 'string') {
+      return decodeEntities(node).replace(/\s+/g, ' ');
+    }
+
+    const { tag } = node;
+    if (SKIPPED_TAGS.has(tag)) {
+      return '';
+    }
+
+    const inner = () => this.renderChildren(node, listDepth);
+
+    switch (tag) {
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+        const text = inner().replace(/\s+/g, ' ').trim();
+        return text ? block(`${'#'.repeat(Number(tag[1]))} ${text}`) : '';
+      }
+      case 'br':
+        return '  \n';
+      case 'hr':
+        return block('---');
+      case 'strong': case 'b':
+        return this.wrapInline(inner(), '**');
+      case 'em': case 'i':
+        return this.wrapInline(inner(), '*');
+      case 'code':
+        return this.wrapInline(textContent(node).replace(/\s+/g, ' '), '`');
+      case 'pre':
+        return block('```\n' + textContent(node).replace(/^\n+|\s+$/g, '') + '\n```');
+      case 'a': {
+        const text = inner().trim();
+        const href = node.attrs.href;
+        if (!text || !href || href.startsWith('#') || href.startsWith('javascript:')) {
+          return text;
+        }
+        return `[${text}](${resolveUrl(href, this.baseUrl)})`;
+      }
+      case 'img': {
+        const src = node.attrs.src || node.attrs['data-src'];
+        return src ? `![${node.attrs.alt || ''}](${resolveUrl(src, this.baseUrl)})` : '';
+      }
+      case 'blockquote': {
+        const quoted = this.normalize(inner());
+        return quoted ? block(quoted.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')) : '';
+      }
+      case 'ul': case 'ol':
+        return this.renderList(node, tag === 'ol', listDepth);
+      case 'li':
+        return block(inner());
+      case 'tr':
+        return block(node.children
+          .filter((child): child is HtmlElement => typeof child !== 'string')
+          .map(cell => this.render(cell, listDepth).replace(/\s+/g, ' ').trim())
+          .join(' | '));
+      default:
+        return BLOCK_TAGS.has(tag) ? block(inner()) : inner();
+    }
+  }
+
+  private renderChildren(node: HtmlElement, listDepth: number): string {
+    return node.children.map(child => this.render(child, listDepth)).join('');
+  }
+
+  private wrapInline(content: string, marker: string): string {
+    const trimmed = content.trim();
+    if (!trimmed) {
+      return content;
+    }
+    const leading = content.match(/^\s*/)![0] ? ' ' : '';
+    const trailing = content.match(/\s*$/)![0] ? ' ' : '';
+    return `${leading}${marker}${trimmed}${marker}${trailing}`;
+  }
+
+  private renderList(node: HtmlElement, ordered: boolean, listDepth: number): string {
+    const items = node.children.filter((child): child is HtmlElement =>
+      typeof child !== 'string' && child.tag === 'li'
+    );
+
+    const lines = items.map((item, i) => {
+      const marker = ordered ? `${i + 1}. ` : '- ';
+      const content = this.normalize(this.renderChildren(item, listDepth + 1));
+      const indent = INDENT.repeat(marker.length);
+      return marker + content.split('\n').map((line, j) => (j === 0 || !line ? line : indent + line)).join('\n');
+    });
+
+    const list = lines.join('\n');
+    return listDepth > 0 ? `\n${list}\n` : block(list);
+  }
+
+  /**
+   * Collapse the whitespace left behind by block boundaries and inline text
+   */
+  normalize(markdown: string): string {
+    const parts = markdown.split(/(\n```\n[\s\S]*?\n```)/);
+
+    return parts.map((part, i) => {
+      if (i % 2 === 1) {
+        return part;
+      }
+      return part
+        .split('\n')
+        .map(line => line.replace(/^[ \t]+/, '').replace(/(\S)[ \t]+$/, (m, c) => (m.endsWith('  ') ? `${c}  ` : c)))
+        .join('\n')
+        .replace(/[ \t]{2,}(?=\S)/g, ' ');
+    }).join('')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
+
+/**
+ * Convert an HTML fragment to Markdown, resolving relative links and images against baseUrl
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const renderer = new MarkdownRenderer(baseUrl);
+  return renderer.normalize(renderer.render(parseHtml(html))).replace(new RegExp(INDENT, 'g'), ' ');
+}
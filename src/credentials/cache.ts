@@ -0,0 +1,46 @@
+// How long resolved secrets stay in memory before the secret manager is asked again
+export const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+
+interface CacheEntry {
+  value: Promise<unknown>;
+  expires: number;
+}
+
+/**
+ * Secrets kept in memory for a short while, so a sync that needs the same one for
+ * several fields or providers only asks the secret manager once
+ * Lookups still in flight are shared too; failed ones are not kept.
+ */
+export class CredentialCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private ttlMs = DEFAULT_CACHE_TTL, private now: () => number = Date.now) {}
+
+  /**
+   * The cached value for `key`, or the result of `load` if there is none or it has expired
+   */
+  get<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (this.ttlMs <= 0) {
+      return load();
+    }
+
+    const cached = this.entries.get(key);
+    if (cached && cached.expires > this.now()) {
+      return cached.value as Promise<T>;
+    }
+
+    const value = load();
+    const entry = { value, expires: this.now() + this.ttlMs };
+    this.entries.set(key, entry);
+    value.catch(() => {
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key);
+      }
+    });
+    return value;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,221 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import type { ProviderConfig, ProviderCredentials, ReadLaterSettings } from '../types';
+
+/**
+ * scrypt cost parameters; stored with each blob so they can be raised later
+ * without breaking existing data
+ */
+export interface ScryptCost {
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface KdfParams extends ScryptCost {
+  name: 'scrypt';
+  salt: string; // base64
+}
+
+/**
+ * Every provider's credentials, encrypted with a key derived from the master passphrase
+ */
+export interface EncryptedCredentials {
+  version: 1;
+  kdf: KdfParams;
+  iv: string; // base64
+  tag: string; // base64 GCM authentication tag
+  data: string; // base64 ciphertext of the JSON credentials by provider id
+}
+
+export type StoredCredentials = Record<string, ProviderCredentials>;
+
+// OWASP's recommended minimum for scrypt: 128 MiB of memory per derivation
+export const DEFAULT_SCRYPT_COST: ScryptCost = { N: 2 ** 17, r: 8, p: 1 };
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+
+function deriveKey(passphrase: string, kdf: KdfParams): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase.normalize('NFKC'),
+      Buffer.from(kdf.salt, 'base64'),
+      KEY_LENGTH,
+      // scrypt needs 128 * N * r bytes; Node's default limit is 32 MiB
+      { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r },
+      (error, key) => error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+function encrypt(credentials: StoredCredentials, key: Buffer, kdf: KdfParams): EncryptedCredentials {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    kdf,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decrypt(encrypted: EncryptedCredentials, key: Buffer): StoredCredentials {
+  const decipher = createDecipheriv(CIPHER, key, Buffer.from(encrypted.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+
+  let plaintext: string;
+  try {
+    plaintext = Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    // GCM can't tell a wrong key from tampered data; a wrong passphrase is by far the likelier
+    throw new Error('Wrong passphrase');
+  }
+  return JSON.parse(plaintext);
+}
+
+/**
+ * Holds the key for the encrypted credentials while they are unlocked
+ * The key lives only in memory, so credentials lock again when Obsidian restarts.
+ */
+export class CredentialStore {
+  private key: Buffer | null = null;
+  private kdf: KdfParams | null;
+
+  constructor(private encrypted: EncryptedCredentials | null = null, private cost: ScryptCost = DEFAULT_SCRYPT_COST) {
+    this.kdf = encrypted ? encrypted.kdf : null;
+  }
+
+  /**
+   * Whether credentials are kept encrypted at all
+   */
+  get enabled(): boolean {
+    return this.kdf !== null;
+  }
+
+  /**
+   * Encrypted, and the passphrase hasn't been entered this session
+   */
+  get locked(): boolean {
+    return this.enabled && this.key === null;
+  }
+
+  /**
+   * Derive the key from the passphrase and decrypt; throws "Wrong passphrase" if it doesn't match
+   */
+  async unlock(passphrase: string): Promise<StoredCredentials> {
+    if (!this.encrypted) {
+      throw new Error('No encrypted credentials to unlock');
+    }
+
+    const key = await deriveKey(passphrase, this.encrypted.kdf);
+    const credentials = decrypt(this.encrypted, key);
+    this.key = key;
+    return credentials;
+  }
+
+  /**
+   * Turn encryption on, or change the passphrase, with a fresh salt
+   * Takes effect on the next seal()
+   */
+  async setPassphrase(passphrase: string): Promise<void> {
+    if (this.locked) {
+      throw new Error('Unlock the credentials before changing the passphrase');
+    }
+
+    const kdf: KdfParams = { name: 'scrypt', salt: randomBytes(SALT_LENGTH).toString('base64'), ...this.cost };
+    this.key = await deriveKey(passphrase, kdf);
+    this.kdf = kdf;
+  }
+
+  /**
+   * Forget the key; the encrypted blob stays as it is
+   */
+  lock(): void {
+    this.key = null;
+  }
+
+  /**
+   * Turn encryption off; credentials are stored as plain text again from the next save
+   */
+  disable(): void {
+    if (this.locked) {
+      throw new Error('Unlock the credentials before turning off encryption');
+    }
+
+    this.key = null;
+    this.kdf = null;
+    this.encrypted = null;
+  }
+
+  /**
+   * Encrypt the credentials with the current key
+   * While locked there is no key, so the last blob is returned unchanged;
+   * null when encryption is off
+   */
+  seal(credentials: StoredCredentials): EncryptedCredentials | null {
+    if (this.key && this.kdf) {
+      this.encrypted = encrypt(credentials, this.key, this.kdf);
+    }
+    return this.enabled ? this.encrypted : null;
+  }
+}
+
+function hasValues(credentials: ProviderCredentials): boolean {
+  return Object.values(credentials).some(value => !!value);
+}
+
+/**
+ * The settings as they should be written to data.json
+ * With encryption on and unlocked, every provider's credentials move into
+ * `encryptedCredentials` and are blanked in the copy that is returned.
+ * While locked, the last encrypted blob is kept and nothing else changes.
+ */
+export function sealSettings(settings: ReadLaterSettings, store: CredentialStore): ReadLaterSettings {
+  const credentials: StoredCredentials = {};
+  for (const [id, config] of Object.entries(settings.providers)) {
+    if (hasValues(config.credentials)) {
+      credentials[id] = config.credentials;
+    }
+  }
+
+  settings.encryptedCredentials = store.seal(credentials);
+  if (!settings.encryptedCredentials || store.locked) {
+    return settings;
+  }
+
+  const providers: Record<string, ProviderConfig> = {};
+  for (const [id, config] of Object.entries(settings.providers)) {
+    providers[id] = { ...config, credentials: {} };
+  }
+  return { ...settings, providers };
+}
+
+/**
+ * Put decrypted credentials back into the settings
+ * Plain-text values left in data.json (from before encryption was turned on,
+ * or by another device) are kept where there is no encrypted value, so the
+ * next save encrypts them.
+ */
+export function unsealSettings(settings: ReadLaterSettings, credentials: StoredCredentials): void {
+  for (const [id, stored] of Object.entries(credentials)) {
+    if (!settings.providers[id]) {
+      settings.providers[id] = { enabled: false, credentials: {} };
+    }
+    const config = settings.providers[id];
+    config.credentials = { ...config.credentials, ...stored };
+  }
+}
+
+/**
+ * Drop decrypted credentials from memory when locking
+ */
+export function clearCredentials(settings: ReadLaterSettings): void {
+  for (const config of Object.values(settings.providers)) {
+    config.credentials = {};
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Why a secret manager can't answer until the user does something
+ *   - signed-out: its CLI isn't signed in to an account
+ *   - locked: signed in, but the vault needs unlocking
+ */
+export type UnavailableReason = 'signed-out' | 'locked';
+
+/**
+ * A secret manager that needs the user first; the message says what to run
+ */
+export class CredentialUnavailableError extends Error {
+  constructor(public provider: string, public reason: UnavailableReason, message: string) {
+    super(message);
+    this.name = 'CredentialUnavailableError';
+  }
+}
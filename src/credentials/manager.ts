@@ -1,19 +1,35 @@
 import { CredentialProvider, CredentialReference } from './types';
+import { ProviderCredentials } from '../types';
+import { CredentialCache, DEFAULT_CACHE_TTL } from './cache';
+import { CredentialUnavailableError } from './errors';
 import { OnePasswordProvider } from './providers/onepassword';
 import { BitwardenProvider } from './providers/bitwarden';
 import { EnvProvider } from './providers/env';
+import { PassProvider } from './providers/pass';
+
+export interface CredentialManagerOptions {
+  // Milliseconds to keep resolved secrets in memory; 0 asks the secret manager every time
+  cacheTtl?: number;
+  // Bitwarden session key; defaults to BW_SESSION
+  bitwardenSession?: string;
+}
 
 export class CredentialManager {
   private providers: Map<string, CredentialProvider>;
+  private cache: CredentialCache;
+  private bitwarden: BitwardenProvider;
 
-  constructor() {
+  constructor(options: CredentialManagerOptions = {}) {
     this.providers = new Map();
+    this.cache = new CredentialCache(options.cacheTtl ?? DEFAULT_CACHE_TTL);
+    this.bitwarden = new BitwardenProvider(this.cache, options.bitwardenSession ?? process.env.BW_SESSION);
     this.registerProviders();
   }
 
   private registerProviders(): void {
     this.providers.set('1password', new OnePasswordProvider());
-    this.providers.set('bitwarden', new BitwardenProvider());
+    this.providers.set('bitwarden', this.bitwarden);
+    this.providers.set('pass', new PassProvider());
     this.providers.set('env', new EnvProvider());
   }
 
@@ -31,18 +47,21 @@ export class CredentialManager {
       return value;
     }
 
-    // Credential reference - resolve it
-    const provider = await this.getProvider(value.provider);
-    if (!provider) {
-      throw new Error(`Credential provider '${value.provider}' not available`);
-    }
-
-    const credential = await provider.getCredential(value.reference);
-    if (!credential) {
-      throw new Error(`Failed to resolve credential: ${value.reference}`);
-    }
+    // Credential reference - resolve it, checking the provider is installed only on a cache miss
+    const lookup = async () => {
+      const provider = await this.getProvider(value.provider);
+      if (!provider) {
+        throw new Error(`Credential provider '${value.provider}' not available`);
+      }
 
-    return credential;
+      const credential = await provider.getCredential(value.reference);
+      if (!credential) {
+        throw new Error(`Failed to resolve credential: ${value.reference}`);
+      }
+      return credential;
+    };
+    // Environment variables are cheap to read and may change while running
+    return value.provider === 'env' ? lookup() : this.cache.get(`${value.provider}:${value.reference}`, lookup);
   }
 
   async resolveCredentials(
@@ -59,11 +78,50 @@ export class CredentialManager {
     return resolved;
   }
 
+  /**
+   * Resolve the references among a provider's credentials; plain values come back as they are
+   */
+  async resolveReferences(credentials: ProviderCredentials): Promise<ProviderCredentials> {
+    const resolved: ProviderCredentials = {};
+
+    for (const [key, value] of Object.entries(credentials)) {
+      if (typeof value !== 'string' || !value) continue;
+
+      try {
+        resolved[key as keyof ProviderCredentials] = await this.resolveCredential(this.parseReference(value));
+      } catch (error) {
+        // Kept as they are so callers can offer to unlock
+        if (error instanceof CredentialUnavailableError) {
+          throw error;
+        }
+        throw new Error(`${key}: ${error.message}`);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Unlock the Bitwarden vault with its master password for the rest of this session
+   */
+  unlockBitwarden(masterPassword: string): Promise<void> {
+    return this.bitwarden.unlock(masterPassword);
+  }
+
+  /**
+   * Forget resolved secrets and the Bitwarden session key
+   */
+  lock(): void {
+    this.cache.clear();
+    this.bitwarden.lock();
+  }
+
   /**
    * Parse credential reference from string format
    * Formats:
    *   - op://vault/item/field
    *   - bw://item/field
+   *   - pass://path/to/entry or pass://path/to/entry#field
    *   - env://VARIABLE_NAME
    */
   parseReference(ref: string): CredentialReference | string {
@@ -81,6 +139,13 @@ export class CredentialManager {
       };
     }
 
+    if (ref.startsWith('pass://')) {
+      return {
+        provider: 'pass',
+        reference: ref
+      };
+    }
+
     if (ref.startsWith('env://')) {
       return {
         provider: 'env',
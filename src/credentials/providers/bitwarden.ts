@@ -1,60 +1,72 @@
 import { CredentialProvider } from '../types';
-import { execSync } from 'child_process';
+import { CredentialCache } from '../cache';
+import { CredentialUnavailableError } from '../errors';
+import { ProcessError, commandExists, runProcess } from '../../process';
 
-export class BitwardenProvider implements CredentialProvider {
-  name = 'bitwarden';
+export type BitwardenStatus = 'unauthenticated' | 'locked' | 'unlocked';
 
-  async isAvailable(): Promise<boolean> {
-    try {
-      execSync('bw --version', { stdio: 'ignore' });
-      return true;
-    } catch {
-      return false;
-    }
-  }
+// Environment variable the master password is handed to `bw unlock` in, so it never appears in the process list
+const PASSWORD_ENV = 'READLATER_BW_PASSWORD';
 
-  async getCredential(reference: string): Promise<string | null> {
-    try {
-      // Reference format: bw://item-name/field-name
-      const match = reference.match(/^bw:\/\/([^/]+)\/(.+)$/);
-      if (!match) {
-        console.error(`Invalid Bitwarden reference format: ${reference}`);
-        return null;
-      }
+/**
+ * The parts of `bw get item` output we read
+ */
+export interface BitwardenItem {
+  login?: { username?: string | null; password?: string | null };
+  fields?: Array<{ name: string; value: string | null }>;
+}
 
-      const [, itemName, fieldName] = match;
+/**
+ * Read a field from a Bitwarden item
+ * username and password come from the login; anything else from the custom fields
+ */
+export function readBitwardenField(item: BitwardenItem, fieldName: string): string | null {
+  if (fieldName === 'username' && item.login?.username) {
+    return item.login.username;
+  }
 
-      // Get item
-      const result = execSync(`bw get item "${itemName}"`, {
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'ignore']
-      });
+  if (fieldName === 'password' && item.login?.password) {
+    return item.login.password;
+  }
 
-      const item = JSON.parse(result);
+  const field = (item.fields || []).find(f => f.name === fieldName);
+  return field?.value || null;
+}
 
-      // Extract field
-      if (fieldName === 'username' && item.login?.username) {
-        return item.login.username;
-      }
+export class BitwardenProvider implements CredentialProvider {
+  name = 'bitwarden';
+  private session: string | null;
 
-      if (fieldName === 'password' && item.login?.password) {
-        return item.login.password;
-      }
+  /**
+   * @param session key from `bw unlock --raw`; defaults to BW_SESSION
+   */
+  constructor(private cache = new CredentialCache(), session = process.env.BW_SESSION) {
+    this.session = session || null;
+  }
 
-      // Check custom fields
-      if (item.fields) {
-        const field = item.fields.find((f: any) => f.name === fieldName);
-        if (field) {
-          return field.value;
-        }
-      }
+  async isAvailable(): Promise<boolean> {
+    return commandExists('bw');
+  }
 
-      console.error(`Field '${fieldName}' not found in Bitwarden item '${itemName}'`);
+  async getCredential(reference: string): Promise<string | null> {
+    // Reference format: bw://item-name/field-name
+    const match = reference.match(/^bw:\/\/([^/]+)\/(.+)$/);
+    if (!match) {
+      console.error(`Invalid Bitwarden reference format: ${reference}`);
       return null;
-    } catch (error) {
-      console.error(`Failed to read Bitwarden credential: ${reference}`, error);
+    }
+
+    const [, itemName, fieldName] = match;
+    const item = await this.getItem(itemName);
+    if (!item) {
       return null;
     }
+
+    const value = readBitwardenField(item, fieldName);
+    if (!value) {
+      console.error(`Field '${fieldName}' not found in Bitwarden item '${itemName}'`);
+    }
+    return value;
   }
 
   async getCredentials(references: Record<string, string>): Promise<Record<string, string>> {
@@ -70,15 +82,73 @@ export class BitwardenProvider implements CredentialProvider {
     return credentials;
   }
 
+  /**
+   * Fetch an item once for all the fields read from it
+   * Throws CredentialUnavailableError if the CLI is logged out or the vault is locked
+   */
+  private getItem(itemName: string): Promise<BitwardenItem | null> {
+    return this.cache.get(`bitwarden:${itemName}`, async () => {
+      await this.ensureUnlocked();
+      return JSON.parse(await this.run(['get', 'item', '--', itemName]));
+    });
+  }
+
+  private async ensureUnlocked(): Promise<void> {
+    const status = await this.getStatus();
+
+    if (status === 'unauthenticated') {
+      throw new CredentialUnavailableError(this.name, 'signed-out', 'Bitwarden CLI is not logged in. Run "bw login" and try again.');
+    }
+    if (status === 'locked') {
+      throw new CredentialUnavailableError(
+        this.name,
+        'locked',
+        'Bitwarden vault is locked. Run \'export BW_SESSION="$(bw unlock --raw)"\' and try again.'
+      );
+    }
+  }
+
+  /**
+   * Whether the CLI is logged in, and if so whether the vault is unlocked with the current session
+   */
+  async getStatus(): Promise<BitwardenStatus> {
+    try {
+      return JSON.parse(await this.run(['status'])).status;
+    } catch {
+      return 'unauthenticated';
+    }
+  }
+
   /**
    * Helper to check if user is logged in and unlocked
    */
   async isUnlocked(): Promise<boolean> {
+    return (await this.getStatus()) === 'unlocked';
+  }
+
+  /**
+   * Unlock the vault with the master password and keep the session key in memory
+   */
+  async unlock(masterPassword: string): Promise<void> {
     try {
-      execSync('bw unlock --check', { stdio: 'ignore' });
-      return true;
-    } catch {
-      return false;
+      this.session = (await this.run(['unlock', '--raw', '--passwordenv', PASSWORD_ENV], { [PASSWORD_ENV]: masterPassword })).trim();
+    } catch (error) {
+      const output = error instanceof ProcessError ? error.stderr.trim() : '';
+      throw new Error(output || 'Could not unlock the Bitwarden vault');
     }
   }
+
+  /**
+   * Forget the session key, e.g. when the plugin's credentials are locked
+   */
+  lock(): void {
+    this.session = null;
+  }
+
+  private async run(args: string[], env: Record<string, string> = {}): Promise<string> {
+    const session: Record<string, string> = this.session ? { BW_SESSION: this.session } : {};
+    // Options go first, since anything after "--" is an argument
+    const { stdout } = await runProcess('bw', ['--nointeraction', ...args], { env: { ...session, ...env } });
+    return stdout;
+  }
 }
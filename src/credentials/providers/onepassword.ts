@@ -1,31 +1,30 @@
 import { CredentialProvider } from '../types';
-import { execSync } from 'child_process';
+import { CredentialUnavailableError } from '../errors';
+import { commandExists, runProcess } from '../../process';
 
 export class OnePasswordProvider implements CredentialProvider {
   name = '1password';
 
   async isAvailable(): Promise<boolean> {
-    try {
-      execSync('op --version', { stdio: 'ignore' });
-      return true;
-    } catch {
-      return false;
-    }
+    return commandExists('op');
   }
 
   async getCredential(reference: string): Promise<string | null> {
     try {
       // Reference format: op://vault/item/field
       // or op://vault/item/section/field
-      const result = execSync(`op read "${reference}"`, {
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'ignore']
-      });
-
-      return result.trim();
+      const { stdout } = await runProcess('op', ['read', reference]);
+      return stdout.trim();
     } catch (error) {
-      console.error(`Failed to read 1Password credential: ${reference}`, error);
-      return null;
+      // Only checked after a failure: with the desktop app integration, `op read` can sign in by itself
+      if (!(await this.isSignedIn())) {
+        throw new CredentialUnavailableError(
+          this.name,
+          'signed-out',
+          '1Password CLI is not signed in. Run \'eval $(op signin)\' or turn on the 1Password app integration, then try again.'
+        );
+      }
+      throw error;
     }
   }
 
@@ -47,7 +46,7 @@ export class OnePasswordProvider implements CredentialProvider {
    */
   async isSignedIn(): Promise<boolean> {
     try {
-      execSync('op account list', { stdio: 'ignore' });
+      await runProcess('op', ['whoami']);
       return true;
     } catch {
       return false;
@@ -59,12 +58,9 @@ export class OnePasswordProvider implements CredentialProvider {
    */
   async getItem(itemName: string, vault?: string): Promise<any> {
     try {
-      const vaultFlag = vault ? `--vault "${vault}"` : '';
-      const result = execSync(`op item get "${itemName}" ${vaultFlag} --format json`, {
-        encoding: 'utf-8'
-      });
-
-      return JSON.parse(result);
+      const vaultArgs = vault ? ['--vault', vault] : [];
+      const { stdout } = await runProcess('op', ['item', 'get', ...vaultArgs, '--format', 'json', '--', itemName]);
+      return JSON.parse(stdout);
     } catch (error) {
       console.error(`Failed to get 1Password item: ${itemName}`, error);
       return null;
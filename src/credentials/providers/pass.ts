@@ -0,0 +1,93 @@
+import { CredentialProvider } from '../types';
+import { commandExists, runProcess } from '../../process';
+
+// Keys a username is commonly stored under, in order of preference
+const USERNAME_KEYS = ['username', 'user', 'login', 'email'];
+
+/**
+ * Read a field from a pass entry
+ * The first line is the password; later "key: value" lines hold the other fields
+ */
+export function parsePassEntry(content: string, field = 'password'): string | null {
+  const [password, ...lines] = content.split(/\r?\n/);
+
+  if (field === 'password') {
+    return password || null;
+  }
+
+  const fields = new Map<string, string>();
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const key = line.substring(0, separator).trim().toLowerCase();
+    if (!fields.has(key)) {
+      fields.set(key, line.substring(separator + 1).trim());
+    }
+  }
+
+  const keys = field.toLowerCase() === 'username' ? USERNAME_KEYS : [field.toLowerCase()];
+  for (const key of keys) {
+    const value = fields.get(key);
+    if (value) {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * The standard Unix password manager, or gopass, which reads the same stores
+ */
+export class PassProvider implements CredentialProvider {
+  name = 'pass';
+  private command: string | null = null;
+
+  async isAvailable(): Promise<boolean> {
+    for (const command of ['pass', 'gopass']) {
+      if (await commandExists(command)) {
+        this.command = command;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async getCredential(reference: string): Promise<string | null> {
+    // Reference format: pass://path/to/entry or pass://path/to/entry#field
+    const match = reference.match(/^pass:\/\/([^#]+)(?:#(.+))?$/);
+    if (!match) {
+      console.error(`Invalid pass reference format: ${reference}`);
+      return null;
+    }
+
+    const [, entry, field] = match;
+    if (!this.command && !(await this.isAvailable())) {
+      return null;
+    }
+
+    // gopass hides the password when its output isn't a terminal unless forced,
+    // and "--" keeps an entry starting with "-" from being read as an option
+    const args = this.command === 'gopass' ? ['show', '-f', '--', entry] : ['show', '--', entry];
+    const { stdout } = await runProcess(this.command as string, args);
+
+    const value = parsePassEntry(stdout, field);
+    if (!value) {
+      console.error(`Field '${field || 'password'}' not found in pass entry '${entry}'`);
+    }
+    return value;
+  }
+
+  async getCredentials(references: Record<string, string>): Promise<Record<string, string>> {
+    const credentials: Record<string, string> = {};
+
+    for (const [key, ref] of Object.entries(references)) {
+      const value = await this.getCredential(ref);
+      if (value) {
+        credentials[key] = value;
+      }
+    }
+
+    return credentials;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * What a credential value is, for showing next to it in settings
+ */
+export interface CredentialDescription {
+  reference: boolean; // points at a secret manager or environment variable
+  label: string;
+  error?: string; // set for references that can't be resolved as written
+}
+
+const REFERENCE_FORMATS: Array<{ prefix: string; label: string; pattern: RegExp; example: string }> = [
+  { prefix: 'op://', label: '1Password', pattern: /^op:\/\/[^/]+\/[^/]+(\/[^/]+){1,2}$/, example: 'op://vault/item/field' },
+  { prefix: 'bw://', label: 'Bitwarden', pattern: /^bw:\/\/[^/]+\/.+$/, example: 'bw://item-name/field' },
+  { prefix: 'pass://', label: 'pass', pattern: /^pass:\/\/[^#]+(#.+)?$/, example: 'pass://path/to/entry#field' },
+  { prefix: 'env://', label: 'Environment variable', pattern: /^env:\/\/[A-Za-z_][A-Za-z0-9_]*$/, example: 'env://VARIABLE_NAME' },
+];
+
+/**
+ * Tell references from plain text, and check references are well formed
+ * Matches the prefixes CredentialManager.parseReference understands
+ */
+export function describeCredential(value: string): CredentialDescription {
+  if (!value) {
+    return { reference: false, label: '' };
+  }
+
+  const format = REFERENCE_FORMATS.find(f => value.startsWith(f.prefix));
+  if (!format) {
+    return { reference: false, label: 'Plain text' };
+  }
+
+  if (!format.pattern.test(value)) {
+    return { reference: true, label: `Invalid ${format.label} reference`, error: `Expected ${format.example}` };
+  }
+  return { reference: true, label: `${format.label} reference` };
+}
@@ -6,7 +6,7 @@ export interface CredentialProvider {
 }
 
 export interface CredentialReference {
-  provider: 'env' | '1password' | 'bitwarden' | 'plain';
+  provider: 'env' | '1password' | 'bitwarden' | 'pass' | 'plain';
   reference: string;
 }
 
@@ -0,0 +1,56 @@
+import { App, Modal } from 'obsidian';
+import { DOCTOR_STEPS, ProviderDiagnosis, STATUS_SYMBOLS, STEP_LABELS } from './providers/doctor';
+
+/**
+ * Pass/fail matrix from the provider health check, with details of each problem
+ */
+export class DoctorModal extends Modal {
+  constructor(app: App, private diagnoses: ProviderDiagnosis[]) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: 'Provider health check' });
+
+    if (this.diagnoses.length === 0) {
+      contentEl.createEl('p', { text: 'No providers are enabled.' });
+      return;
+    }
+
+    const table = contentEl.createEl('table', { cls: 'readlater-doctor' });
+    const header = table.createEl('tr');
+    header.createEl('th', { text: 'Provider' });
+    for (const step of DOCTOR_STEPS) {
+      header.createEl('th', { text: STEP_LABELS[step] });
+    }
+
+    for (const diagnosis of this.diagnoses) {
+      const row = table.createEl('tr');
+      row.createEl('td', { text: diagnosis.provider });
+      for (const step of DOCTOR_STEPS) {
+        const check = diagnosis.checks.find(c => c.step === step);
+        const status = check ? check.status : 'skip';
+        const cell = row.createEl('td', { text: STATUS_SYMBOLS[status], cls: `readlater-doctor-${status}` });
+        if (check?.detail) {
+          cell.setAttribute('title', check.detail);
+        }
+      }
+    }
+
+    for (const diagnosis of this.diagnoses) {
+      const problems = diagnosis.checks.filter(check => (check.status === 'fail' || check.status === 'warn') && check.detail);
+      if (problems.length === 0) continue;
+
+      contentEl.createEl('h3', { text: diagnosis.provider });
+      const list = contentEl.createEl('ul');
+      for (const check of problems) {
+        list.createEl('li', { text: `${STEP_LABELS[check.step]}: ${check.detail}`, cls: `readlater-doctor-${check.status}` });
+      }
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
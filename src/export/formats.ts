@@ -0,0 +1,201 @@
+import { ReadLaterArticle } from '../types';
+import { formatArticle } from '../template/article';
+
+export type ExportFormat = 'md' | 'json' | 'csv' | 'opml' | 'rss';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'csv', 'opml', 'rss'];
+
+export const FORMAT_LABELS: Record<ExportFormat, string> = {
+  md: 'Markdown',
+  json: 'JSON',
+  csv: 'CSV',
+  opml: 'OPML',
+  rss: 'RSS feed',
+};
+
+const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  md: 'md',
+  json: 'json',
+  csv: 'csv',
+  opml: 'opml',
+  rss: 'xml',
+};
+
+export interface ExportOptions {
+  template: string; // Markdown only
+  dateFormat: string;
+  title?: string; // feed and outline title
+  generatedAt?: Date;
+}
+
+const DEFAULT_TITLE = 'Read Later';
+
+const CSV_COLUMNS = ['title', 'url', 'source', 'author', 'publicationDate', 'addedDate', 'tags', 'excerpt', 'status'];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Path for an export next to `basePath`, with the format's extension
+ */
+export function exportPath(basePath: string, format: ExportFormat): string {
+  const slash = basePath.lastIndexOf('/');
+  const dot = basePath.lastIndexOf('.');
+  const stem = dot > slash ? basePath.slice(0, dot) : basePath;
+  return `${stem}.${FORMAT_EXTENSIONS[format]}`;
+}
+
+function isoDate(date: Date | string): string {
+  return new Date(date).toISOString();
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function csvField(value: string | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toJson(articles: ReadLaterArticle[]): string {
+  const rows = articles.map(article => ({
+    title: article.title,
+    url: article.url,
+    source: article.source,
+    author: article.author,
+    publicationDate: article.publicationDate,
+    addedDate: isoDate(article.addedDate),
+    tags: article.tags || [],
+    excerpt: article.excerpt,
+    status: article.status || 'unread',
+    content: article.content,
+  }));
+
+  return JSON.stringify(rows, null, 2) + '\n';
+}
+
+/**
+ * RFC 4180 CSV; tags are joined with semicolons and full text is left out
+ */
+function toCsv(articles: ReadLaterArticle[]): string {
+  const rows = articles.map(article => [
+    article.title,
+    article.url,
+    article.source,
+    article.author,
+    article.publicationDate,
+    isoDate(article.addedDate),
+    (article.tags || []).join('; '),
+    article.excerpt,
+    article.status || 'unread',
+  ].map(csvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * OPML 2.0 outline with one link per article, grouped by source
+ */
+function toOpml(articles: ReadLaterArticle[], title: string, generatedAt: Date): string {
+  const sources = new Map<string, ReadLaterArticle[]>();
+  for (const article of articles) {
+    sources.set(article.source, [...(sources.get(article.source) || []), article]);
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${generatedAt.toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+  ];
+
+  for (const [source, items] of sources) {
+    lines.push(`    <outline text="${escapeXml(source)}">`);
+    for (const article of items) {
+      const attributes = [
+        'type="link"',
+        `text="${escapeXml(article.title)}"`,
+        `url="${escapeXml(article.url)}"`,
+        `created="${new Date(article.addedDate).toUTCString()}"`,
+      ];
+      if (article.tags && article.tags.length > 0) {
+        attributes.push(`category="${escapeXml(article.tags.join(','))}"`);
+      }
+      lines.push(`      <outline ${attributes.join(' ')}/>`);
+    }
+    lines.push('    </outline>');
+  }
+
+  lines.push('  </body>', '</opml>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * RSS 2.0 feed, newest first; authors use Dublin Core since RSS expects an email address
+ */
+function toRss(articles: ReadLaterArticle[], title: string, generatedAt: Date): string {
+  const sorted = [...articles].sort((a, b) => new Date(b.addedDate).getTime() - new Date(a.addedDate).getTime());
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <description>${escapeXml(`${title}: saved articles from all providers`)}</description>`,
+    `    <lastBuildDate>${generatedAt.toUTCString()}</lastBuildDate>`,
+  ];
+
+  for (const article of sorted) {
+    lines.push('    <item>');
+    lines.push(`      <title>${escapeXml(article.title)}</title>`);
+    lines.push(`      <link>${escapeXml(article.url)}</link>`);
+    lines.push(`      <guid isPermaLink="true">${escapeXml(article.url)}</guid>`);
+    lines.push(`      <pubDate>${new Date(article.addedDate).toUTCString()}</pubDate>`);
+    if (article.author) {
+      lines.push(`      <dc:creator>${escapeXml(article.author)}</dc:creator>`);
+    }
+    if (article.excerpt) {
+      lines.push(`      <description>${escapeXml(article.excerpt)}</description>`);
+    }
+    for (const tag of article.tags || []) {
+      lines.push(`      <category>${escapeXml(tag)}</category>`);
+    }
+    lines.push('    </item>');
+  }
+
+  lines.push('  </channel>', '</rss>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize articles in the given format
+ */
+export function exportArticles(articles: ReadLaterArticle[], format: ExportFormat, options: ExportOptions): string {
+  const title = options.title || DEFAULT_TITLE;
+  const generatedAt = options.generatedAt || new Date();
+
+  switch (format) {
+    case 'json':
+      return toJson(articles);
+    case 'csv':
+      return toCsv(articles);
+    case 'opml':
+      return toOpml(articles, title, generatedAt);
+    case 'rss':
+      return toRss(articles, title, generatedAt);
+    case 'md':
+      return articles.map(article => formatArticle(article, options.template, { dateFormat: options.dateFormat })).join('\n');
+  }
+}
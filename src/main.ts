@@ -1,18 +1,54 @@
-import { Notice, Plugin, TFile } from 'obsidian';
+import { Notice, Plugin } from 'obsidian';
 import { ReadLaterSettingTab, DEFAULT_SETTINGS } from './settings';
-import { ReadLaterSettings, ReadLaterArticle, SyncResult } from './types';
+import { ReadLaterSettings, ReadLaterProvider, SyncResult } from './types';
 import { ProviderRegistry } from './providers/registry';
+import { ProviderPickerModal } from './provider-modal';
+import { SyncEngine, SyncSummary } from './sync/engine';
+import { SyncTrigger } from './sync/history';
+import { EXPORT_FORMATS, ExportFormat, FORMAT_LABELS, exportPath } from './export/formats';
+import { describeWriteBack } from './sync/read-state';
+import { describeFailure } from './providers/errors';
+import { VaultStorage } from './vault-storage';
+import { WriteBackPreviewModal } from './write-back-modal';
+import { DoctorModal } from './doctor-modal';
+import { ProviderDiagnosis, checkCredentials, diagnoseProvider } from './providers/doctor';
+import { CredentialManager } from './credentials/manager';
+import { CredentialUnavailableError } from './credentials/errors';
+import { CredentialStore, clearCredentials, sealSettings, unsealSettings } from './credentials/encryption';
+import { PassphraseModal } from './passphrase-modal';
 
 export default class ReadLaterPlugin extends Plugin {
   settings: ReadLaterSettings;
   providerRegistry: ProviderRegistry;
+  engine: SyncEngine;
+  credentialStore: CredentialStore;
+  credentialManager = new CredentialManager();
   syncInterval: number | null = null;
+  private lockStatusEl: HTMLElement | null = null;
+  // Auto-sync never opens prompts; it waits for the user to unlock
+  private promptToUnlock = true;
+  private bitwardenUnlock: Promise<boolean> | null = null;
+  // Syncs and provider checks share one browser, so only one runs at a time
+  private syncing = false;
+  // Providers with a sync command; Obsidian can't remove commands, so they are only ever added
+  private providerCommands = new Set<string>();
 
   async onload() {
     await this.loadSettings();
 
+    this.engine = new SyncEngine(this.settings, new VaultStorage(this.app.vault), {
+      resolveCredentials: credentials => this.withSecretManagerUnlocked(() => this.credentialManager.resolveReferences(credentials)),
+    });
+    await this.engine.loadIndex();
+
     this.providerRegistry = new ProviderRegistry(this.settings);
 
+    // Shown while encrypted credentials are locked; click to unlock
+    this.lockStatusEl = this.addStatusBarItem();
+    this.lockStatusEl.addClass('readlater-lock-status');
+    this.lockStatusEl.addEventListener('click', () => this.unlockCredentials());
+    this.updateLockStatus();
+
     // Add ribbon icon
     this.addRibbonIcon('download-cloud', 'Sync Read Later', async () => {
       await this.syncAllProviders();
@@ -31,12 +67,68 @@ export default class ReadLaterPlugin extends Plugin {
     this.addCommand({
       id: 'sync-readlater-provider',
       name: 'Sync specific provider',
+      callback: () => {
+        new ProviderPickerModal(this.app, this).open();
+      }
+    });
+
+    this.addProviderCommands();
+
+    // Add command to rebuild the article index from the output file
+    this.addCommand({
+      id: 'rebuild-readlater-index',
+      name: 'Rebuild article index',
       callback: async () => {
-        // TODO: Add provider selection modal
-        await this.syncAllProviders();
+        await this.rebuildArticleIndex();
+      }
+    });
+
+    // Add command to preview which read articles write-back would archive
+    this.addCommand({
+      id: 'preview-readlater-write-back',
+      name: 'Preview write-back of read articles',
+      callback: async () => {
+        await this.previewWriteBack();
+      }
+    });
+
+    // Add command to check each provider's login and selectors
+    this.addCommand({
+      id: 'check-readlater-providers',
+      name: 'Check provider health',
+      callback: async () => {
+        await this.checkProviders();
       }
     });
 
+    // Add commands to unlock and lock encrypted credentials
+    this.addCommand({
+      id: 'unlock-readlater-credentials',
+      name: 'Unlock credentials',
+      callback: async () => {
+        await this.unlockCredentials();
+      }
+    });
+
+    this.addCommand({
+      id: 'lock-readlater-credentials',
+      name: 'Lock credentials',
+      callback: () => {
+        this.lockCredentials();
+      }
+    });
+
+    // Add a command per export format
+    for (const format of EXPORT_FORMATS.filter(format => format !== 'md')) {
+      this.addCommand({
+        id: `export-readlater-${format}`,
+        name: `Export reading queue as ${FORMAT_LABELS[format]}`,
+        callback: async () => {
+          await this.exportQueue(format);
+        }
+      });
+    }
+
     // Add settings tab
     this.addSettingTab(new ReadLaterSettingTab(this.app, this));
 
@@ -55,166 +147,364 @@ export default class ReadLaterPlugin extends Plugin {
 
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    this.credentialStore = new CredentialStore(this.settings.encryptedCredentials);
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    await this.saveData(sealSettings(this.settings, this.credentialStore));
   }
 
-  updateSyncInterval() {
-    if (this.syncInterval) {
-      window.clearInterval(this.syncInterval);
-      this.syncInterval = null;
+  /**
+   * Ask for the master passphrase if credentials are locked; resolves false if the user cancels
+   */
+  async unlockCredentials(): Promise<boolean> {
+    if (!this.credentialStore.locked) {
+      return true;
     }
 
-    if (this.settings.syncInterval > 0) {
-      this.syncInterval = window.setInterval(
-        () => this.syncAllProviders(),
-        this.settings.syncInterval * 60 * 1000
-      );
+    const unlocked = await new PassphraseModal(this.app, {
+      title: 'Unlock credentials',
+      description: 'Enter the master passphrase for your Read Later Sync credentials. They stay unlocked until Obsidian closes or you lock them.',
+      action: 'Unlock',
+      submit: async passphrase => {
+        unsealSettings(this.settings, await this.credentialStore.unlock(passphrase));
+      },
+    }).ask();
+
+    if (unlocked) {
+      // Encrypts any plain-text credentials left in data.json
+      await this.saveSettings();
+      this.updateLockStatus();
     }
+    return unlocked;
   }
 
-  async syncAllProviders(): Promise<void> {
-    const notice = new Notice('Syncing read-later lists...', 0);
-    const results: SyncResult[] = [];
+  /**
+   * Resolve a credential reference such as op://vault/item/field; plain values come back as they are
+   */
+  resolveCredential(value: string): Promise<string> {
+    return this.withSecretManagerUnlocked(() =>
+      this.credentialManager.resolveCredential(this.credentialManager.parseReference(value))
+    );
+  }
 
+  /**
+   * Run a lookup, and if it fails on a locked Bitwarden vault, ask for the master password and try once more
+   */
+  private async withSecretManagerUnlocked<T>(resolve: () => Promise<T>): Promise<T> {
     try {
-      const providers = this.providerRegistry.getEnabledProviders();
-
-      if (providers.length === 0) {
-        notice.hide();
-        new Notice('No providers enabled. Check settings.');
-        return;
+      return await resolve();
+    } catch (error) {
+      const locked = error instanceof CredentialUnavailableError && error.provider === 'bitwarden' && error.reason === 'locked';
+      if (!locked || !this.promptToUnlock || !(await this.unlockBitwarden())) {
+        throw error;
       }
+      return resolve();
+    }
+  }
 
-      for (const provider of providers) {
-        try {
-          const authenticated = await provider.authenticate();
-
-          if (!authenticated) {
-            results.push({
-              provider: provider.displayName,
-              success: false,
-              articlesAdded: 0,
-              error: 'Authentication failed'
-            });
-            continue;
-          }
-
-          const articles = await provider.fetchArticles();
-          await this.saveArticles(articles);
-
-          results.push({
-            provider: provider.displayName,
-            success: true,
-            articlesAdded: articles.length,
-          });
-
-          // Update last sync time
-          const providerConfig = this.settings.providers[provider.name];
-          if (providerConfig) {
-            providerConfig.lastSync = new Date();
-            await this.saveSettings();
-          }
-
-        } catch (error) {
-          results.push({
-            provider: provider.displayName,
-            success: false,
-            articlesAdded: 0,
-            error: error.message
-          });
+  /**
+   * Ask for the Bitwarden master password; providers syncing at the same time share one prompt
+   */
+  private unlockBitwarden(): Promise<boolean> {
+    if (!this.bitwardenUnlock) {
+      this.bitwardenUnlock = new PassphraseModal(this.app, {
+        title: 'Unlock Bitwarden',
+        description: 'Your Bitwarden vault is locked. Enter your master password to unlock it until Obsidian closes. It is passed to the Bitwarden CLI and not stored.',
+        action: 'Unlock',
+        placeholder: 'Master password',
+        submit: masterPassword => this.credentialManager.unlockBitwarden(masterPassword),
+      }).ask().finally(() => this.bitwardenUnlock = null);
+    }
+    return this.bitwardenUnlock;
+  }
+
+  lockCredentials(): void {
+    if (!this.credentialStore.enabled) {
+      new Notice('Credentials are not encrypted. Set a master passphrase in settings first.');
+      return;
+    }
+
+    this.credentialStore.lock();
+    this.credentialManager.lock();
+    clearCredentials(this.settings);
+    this.updateLockStatus();
+    new Notice('Read Later Sync credentials locked');
+  }
+
+  /**
+   * Turn on encryption, or change the passphrase, and re-encrypt every credential with it
+   */
+  async setCredentialPassphrase(): Promise<boolean> {
+    const changing = this.credentialStore.enabled;
+    if (!(await this.unlockCredentials())) {
+      return false;
+    }
+
+    return new PassphraseModal(this.app, {
+      title: changing ? 'Change master passphrase' : 'Encrypt credentials',
+      description: 'Credentials will be encrypted with this passphrase. You will be asked for it once each time Obsidian starts, and it can\'t be recovered if you forget it.',
+      action: changing ? 'Change passphrase' : 'Encrypt',
+      confirm: true,
+      submit: async passphrase => {
+        await this.credentialStore.setPassphrase(passphrase);
+        await this.saveSettings();
+      },
+    }).ask();
+  }
+
+  /**
+   * Go back to storing credentials as plain text in data.json
+   */
+  async disableEncryption(): Promise<void> {
+    if (!(await this.unlockCredentials())) {
+      return;
+    }
+
+    this.credentialStore.disable();
+    await this.saveSettings();
+    this.updateLockStatus();
+  }
+
+  private updateLockStatus(): void {
+    if (!this.lockStatusEl) return;
+
+    if (!this.credentialStore.locked) {
+      this.lockStatusEl.setText('');
+      return;
+    }
+    this.lockStatusEl.setText(this.settings.syncInterval > 0
+      ? 'Read Later: locked, auto-sync paused'
+      : 'Read Later: locked');
+  }
+
+  async rebuildArticleIndex(): Promise<void> {
+    const count = await this.engine.rebuildIndex();
+
+    new Notice(count === null
+      ? 'No output file or article notes found. Article index cleared.'
+      : `Article index rebuilt: ${count} articles`);
+  }
+
+  /**
+   * Rebuild the registry after provider definitions change in settings
+   */
+  refreshProviderRegistry() {
+    // A running sync closes the browser of the registry it started with
+    if (!this.syncing) {
+      void this.providerRegistry.closeBrowser();
+    }
+    this.providerRegistry = new ProviderRegistry(this.settings);
+    this.addProviderCommands();
+  }
+
+  /**
+   * Add a command per provider so each can be bound to a hotkey, including custom providers added since
+   */
+  private addProviderCommands(): void {
+    for (const provider of this.providerRegistry.getAllProviders()) {
+      if (this.providerCommands.has(provider.name)) continue;
+
+      this.providerCommands.add(provider.name);
+      this.addCommand({
+        id: `sync-readlater-${provider.name}`,
+        name: `Sync ${provider.displayName}`,
+        callback: async () => {
+          await this.syncProvider(provider.name);
         }
-      }
+      });
+    }
+  }
 
-      notice.hide();
-      this.showSyncResults(results);
+  async previewWriteBack(): Promise<void> {
+    if (await this.engine.updateReadState()) {
+      await this.engine.saveIndex();
+    }
 
-    } catch (error) {
+    const previews = this.engine.previewWriteBack(this.providerRegistry.getAllProviders());
+    new WriteBackPreviewModal(this.app, previews).open();
+  }
+
+  /**
+   * Log in to each enabled provider and check its selectors still find articles, without saving anything
+   */
+  async checkProviders(): Promise<void> {
+    await this.runExclusive(() => this.diagnoseProviders());
+  }
+
+  private async diagnoseProviders(): Promise<void> {
+    if (!(await this.unlockCredentials())) {
+      return;
+    }
+
+    const registry = this.providerRegistry;
+    const providers = registry.getEnabledProviders();
+    const notice = new Notice('Checking providers...', 0);
+    const diagnoses: ProviderDiagnosis[] = [];
+
+    try {
+      for (const provider of providers) {
+        notice.setMessage(`Checking ${provider.displayName}...`);
+        const { check, resolved } = await checkCredentials(provider.credentials, value => this.resolveCredential(value));
+        provider.setCredentials(resolved);
+        diagnoses.push(await diagnoseProvider(provider, check));
+      }
+    } finally {
       notice.hide();
-      new Notice(`Sync failed: ${error.message}`);
-      console.error('Sync error:', error);
+      await registry.closeBrowser();
     }
+
+    new DoctorModal(this.app, diagnoses).open();
   }
 
-  private showSyncResults(results: SyncResult[]): void {
-    const totalArticles = results.reduce((sum, r) => sum + r.articlesAdded, 0);
-    const failures = results.filter(r => !r.success);
+  /**
+   * Write the reading queue next to the output file in another format, without syncing
+   */
+  async exportQueue(format: ExportFormat): Promise<void> {
+    // Pick up articles marked read since the last sync
+    if (await this.engine.updateReadState()) {
+      await this.engine.saveIndex();
+    }
 
-    let message = `Synced ${totalArticles} articles`;
+    const articles = await this.engine.readQueue();
+    if (articles.length === 0) {
+      new Notice('Nothing to export');
+      return;
+    }
+
+    const path = exportPath(this.settings.outputFile, format);
+    await this.engine.exportArticles(articles, format, path);
+    new Notice(`Exported ${articles.length} articles to ${path}`);
+  }
 
-    if (failures.length > 0) {
-      message += `\n${failures.length} provider(s) failed`;
+  updateSyncInterval() {
+    if (this.syncInterval) {
+      window.clearInterval(this.syncInterval);
+      this.syncInterval = null;
     }
 
-    new Notice(message, 5000);
+    if (this.settings.syncInterval > 0) {
+      this.syncInterval = window.setInterval(
+        () => this.syncAllProviders('interval'),
+        this.settings.syncInterval * 60 * 1000
+      );
+    }
 
-    // Log detailed results
-    console.log('Sync results:', results);
+    this.updateLockStatus();
   }
 
-  async saveArticles(articles: ReadLaterArticle[]): Promise<void> {
-    if (articles.length === 0) {
+  async syncAllProviders(trigger: SyncTrigger = 'manual'): Promise<void> {
+    await this.syncProviders(this.providerRegistry.getEnabledProviders(), trigger);
+  }
+
+  /**
+   * Sync a single provider, whether or not it is enabled for "sync all"
+   */
+  async syncProvider(name: string): Promise<void> {
+    const provider = this.providerRegistry.getProvider(name);
+
+    if (!provider) {
+      new Notice(`${name} is not configured. Check settings.`);
       return;
     }
 
-    const filePath = this.settings.outputFile;
-    let file = this.app.vault.getAbstractFileByPath(filePath);
+    await this.syncProviders([provider]);
+  }
+
+  private async syncProviders(
+    providers: ReadLaterProvider[],
+    trigger: SyncTrigger = 'manual'
+  ): Promise<SyncSummary | null> {
+    return this.runExclusive(() => this.runSync(providers, trigger), trigger === 'interval');
+  }
 
-    // Create file if it doesn't exist
-    if (!file) {
-      const folderPath = filePath.substring(0, filePath.lastIndexOf('/'));
-      if (folderPath) {
-        await this.app.vault.createFolder(folderPath).catch(() => {});
+  /**
+   * Run a sync or provider check, unless one is already running
+   * Auto-sync skips quietly; anything the user started gets a notice.
+   */
+  private async runExclusive<T>(run: () => Promise<T | null>, quiet = false): Promise<T | null> {
+    if (this.syncing) {
+      if (quiet) {
+        console.log('Read Later auto-sync skipped: a sync is already running');
+      } else {
+        new Notice('A read-later sync is already running');
       }
-      file = await this.app.vault.create(filePath, '');
+      return null;
     }
 
-    if (!(file instanceof TFile)) {
-      throw new Error(`${filePath} is not a file`);
+    this.syncing = true;
+    try {
+      return await run();
+    } finally {
+      this.syncing = false;
     }
+  }
 
-    const formattedArticles = articles.map(article =>
-      this.formatArticle(article)
-    ).join('\n');
+  private async runSync(providers: ReadLaterProvider[], trigger: SyncTrigger): Promise<SyncSummary | null> {
+    if (providers.length === 0) {
+      new Notice('No providers enabled. Check settings.');
+      return null;
+    }
 
-    if (this.settings.appendMode) {
-      const existingContent = await this.app.vault.read(file);
-      const newContent = existingContent
-        ? existingContent + '\n\n' + formattedArticles
-        : formattedArticles;
-      await this.app.vault.modify(file, newContent);
-    } else {
-      await this.app.vault.modify(file, formattedArticles);
+    if (this.credentialStore.locked) {
+      // Auto-sync waits for the user to unlock; any other sync asks for the passphrase now
+      if (trigger === 'interval') {
+        console.log('Read Later auto-sync skipped: credentials are locked');
+        return null;
+      }
+      if (!(await this.unlockCredentials())) {
+        return null;
+      }
     }
-  }
 
-  private formatArticle(article: ReadLaterArticle): string {
-    let template = this.settings.template;
+    this.promptToUnlock = trigger !== 'interval';
+    const registry = this.providerRegistry;
+    const notice = new Notice('Syncing read-later lists...', 0);
+    const unsubscribe = [
+      this.engine.on('progress', ({ message }) => notice.setMessage(message)),
+      this.engine.on('write-back', writeBack => {
+        new Notice(describeWriteBack(writeBack));
+        console.log('Write-back results:', writeBack);
+      }),
+    ];
 
-    // Simple template replacement
-    template = template.replace(/{{title}}/g, article.title || 'Untitled');
-    template = template.replace(/{{url}}/g, article.url);
-    template = template.replace(/{{source}}/g, article.source);
-    template = template.replace(/{{author}}/g, article.author || 'Unknown');
-    template = template.replace(/{{date}}/g, article.publicationDate || '');
+    try {
+      const summary = await this.engine.sync(providers, trigger);
 
-    // Handle conditional blocks
-    if (article.excerpt) {
-      template = template.replace(/{{#if excerpt}}([\s\S]*?){{\/if}}/g, '$1');
-      template = template.replace(/{{excerpt}}/g, article.excerpt);
-    } else {
-      template = template.replace(/{{#if excerpt}}[\s\S]*?{{\/if}}/g, '');
+      // The engine updates each provider's lastSync
+      if (summary.results.some(result => result.success)) {
+        await this.saveSettings();
+      }
+
+      notice.hide();
+      this.showSyncResults(summary.results);
+      return summary;
+
+    } catch (error) {
+      notice.hide();
+      new Notice(`Sync failed: ${error.message}`);
+      console.error('Sync error:', error);
+      return null;
+    } finally {
+      unsubscribe.forEach(off => off());
+      this.promptToUnlock = true;
+      await registry.closeBrowser();
     }
+  }
+
+  private showSyncResults(results: SyncResult[]): void {
+    const totalArticles = results.reduce((sum, r) => sum + r.articlesAdded, 0);
+    const failures = results.filter(r => !r.success);
+
+    let message = `Synced ${totalArticles} articles`;
 
-    if (article.tags && article.tags.length > 0) {
-      template = template.replace(/{{#if tags}}([\s\S]*?){{\/if}}/g, '$1');
-      template = template.replace(/{{tags}}/g, article.tags.join(', '));
-    } else {
-      template = template.replace(/{{#if tags}}[\s\S]*?{{\/if}}/g, '');
+    for (const failure of failures) {
+      message += `\n${failure.provider}: ${describeFailure(failure)}`;
     }
 
-    return template;
+    new Notice(message, 5000);
+
+    // Log detailed results
+    console.log('Sync results:', results);
   }
 }
@@ -0,0 +1,91 @@
+import { App, Modal, Setting } from 'obsidian';
+
+interface PassphrasePrompt {
+  title: string;
+  description: string;
+  action: string; // submit button text
+  confirm?: boolean; // ask twice, for a new passphrase
+  placeholder?: string;
+  submit: (passphrase: string) => Promise<void>;
+}
+
+/**
+ * Asks for the master passphrase that encrypts provider credentials
+ * If `submit` throws, its message is shown and the modal stays open for another try.
+ */
+export class PassphraseModal extends Modal {
+  private submitted = false;
+  private resolve: (submitted: boolean) => void = () => {};
+
+  constructor(app: App, private prompt: PassphrasePrompt) {
+    super(app);
+  }
+
+  /**
+   * Open the modal; resolves true once `submit` succeeds, false if it is closed first
+   */
+  ask(): Promise<boolean> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: this.prompt.title });
+    contentEl.createEl('p', { text: this.prompt.description });
+
+    const passphraseEl = contentEl.createEl('input', { type: 'password', placeholder: this.prompt.placeholder || 'Passphrase', cls: 'readlater-passphrase' });
+    const confirmEl = this.prompt.confirm
+      ? contentEl.createEl('input', { type: 'password', placeholder: 'Repeat passphrase', cls: 'readlater-passphrase' })
+      : null;
+    const errorEl = contentEl.createEl('div', { cls: 'readlater-settings-error' });
+
+    let busy = false;
+    const submit = async () => {
+      if (busy) return;
+
+      const passphrase = passphraseEl.value;
+      if (!passphrase) {
+        errorEl.setText('Enter a passphrase');
+        return;
+      }
+      if (confirmEl && confirmEl.value !== passphrase) {
+        errorEl.setText('The passphrases don\'t match');
+        return;
+      }
+
+      busy = true;
+      errorEl.setText('');
+      try {
+        await this.prompt.submit(passphrase);
+        this.submitted = true;
+        this.close();
+      } catch (error) {
+        errorEl.setText(error.message);
+        passphraseEl.select();
+      } finally {
+        busy = false;
+      }
+    };
+
+    for (const el of [passphraseEl, confirmEl]) {
+      el?.addEventListener('keydown', event => {
+        if (event.key === 'Enter') submit();
+      });
+    }
+
+    new Setting(contentEl).addButton(button => button
+      .setButtonText(this.prompt.action)
+      .setCta()
+      .onClick(submit));
+
+    passphraseEl.focus();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.resolve(this.submitted);
+  }
+}
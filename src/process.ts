@@ -0,0 +1,89 @@
+import { execFile } from 'child_process';
+
+// Long enough for a secret manager waiting on biometrics or a slow git push
+export const DEFAULT_PROCESS_TIMEOUT = 60 * 1000;
+
+export interface RunOptions {
+  cwd?: string;
+  env?: Record<string, string>; // added to this process's environment
+  input?: string; // written to stdin
+  timeoutMs?: number;
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * A command that couldn't start, exited non-zero or ran out of time
+ * The message carries what it printed to stderr, which is usually the useful part.
+ */
+export class ProcessError extends Error {
+  constructor(
+    message: string,
+    public command: string,
+    public exitCode: number | null,
+    public stdout: string,
+    public stderr: string,
+    public timedOut = false
+  ) {
+    super(message);
+    this.name = 'ProcessError';
+  }
+}
+
+/**
+ * Run a command with an argument list, without a shell
+ * Arguments reach the command exactly as given, so quotes and `$()` in
+ * references, paths or commit messages are never interpreted.
+ */
+export function runProcess(command: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROCESS_TIMEOUT;
+  const name = args.length > 0 ? `${command} ${args[0]}` : command;
+
+  return new Promise((resolve, reject) => {
+    const child = execFile(command, args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      timeout: timeoutMs,
+      maxBuffer: 16 * 1024 * 1024,
+      windowsHide: true,
+      encoding: 'utf8',
+    }, (error, stdout, stderr) => {
+      if (!error) {
+        resolve({ stdout, stderr });
+        return;
+      }
+
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT') {
+        reject(new ProcessError(`${command} not found; is it installed and on the PATH?`, command, null, stdout, stderr));
+      } else if (error.killed) {
+        reject(new ProcessError(`${name} timed out after ${Math.round(timeoutMs / 1000)}s`, command, null, stdout, stderr, true));
+      } else {
+        const exitCode = typeof code === 'number' ? code : null;
+        const detail = stderr.trim() || stdout.trim() || `exit code ${exitCode}`;
+        reject(new ProcessError(`${name} failed: ${detail}`, command, exitCode, stdout, stderr));
+      }
+    });
+
+    if (options.input !== undefined) {
+      child.stdin?.end(options.input);
+    } else {
+      child.stdin?.end();
+    }
+  });
+}
+
+/**
+ * Whether a command is installed, by running it with `--version`
+ */
+export async function commandExists(command: string): Promise<boolean> {
+  try {
+    await runProcess(command, ['--version'], { timeoutMs: 10 * 1000 });
+    return true;
+  } catch {
+    return false;
+  }
+}
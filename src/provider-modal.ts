@@ -0,0 +1,40 @@
+import { App, FuzzyMatch, FuzzySuggestModal } from 'obsidian';
+import ReadLaterPlugin from './main';
+import { ReadLaterProvider } from './types';
+
+export class ProviderPickerModal extends FuzzySuggestModal<ReadLaterProvider> {
+  plugin: ReadLaterPlugin;
+
+  constructor(app: App, plugin: ReadLaterPlugin) {
+    super(app);
+    this.plugin = plugin;
+    this.setPlaceholder('Choose a provider to sync');
+  }
+
+  getItems(): ReadLaterProvider[] {
+    return this.plugin.providerRegistry.getAllProviders();
+  }
+
+  getItemText(provider: ReadLaterProvider): string {
+    return provider.displayName;
+  }
+
+  renderSuggestion(match: FuzzyMatch<ReadLaterProvider>, el: HTMLElement): void {
+    const provider = match.item;
+    const config = this.plugin.settings.providers[provider.name];
+
+    el.createEl('div', { text: provider.displayName });
+
+    const status = config?.enabled ? 'Enabled' : 'Disabled';
+    // lastSync is a Date in memory but a string once reloaded from data.json
+    const lastSync = config?.lastSync
+      ? `last synced ${new Date(config.lastSync).toLocaleString()}`
+      : 'never synced';
+
+    el.createEl('small', { text: `${status} · ${lastSync}`, cls: 'readlater-provider-status' });
+  }
+
+  async onChooseItem(provider: ReadLaterProvider): Promise<void> {
+    await this.plugin.syncProvider(provider.name);
+  }
+}
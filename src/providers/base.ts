@@ -1,79 +1,477 @@
-import { ReadLaterProvider, ReadLaterArticle, ProviderConfig } from '../types';
-import { Browser, Page, chromium } from 'playwright';
+import { ReadLaterProvider, ReadLaterArticle, CredentialRequirements, ArchiveResult, FetchOptions } from '../types';
+import { Browser, BrowserContext, BrowserContextOptions, Cookie, Page, chromium } from 'playwright';
+import { extractMainContent } from '../content/extract';
+import { htmlToMarkdown } from '../content/html-to-markdown';
+import { PaginationStrategy, DEFAULT_PAGINATION_LIMITS, paginate } from './pagination';
+import { SessionStore } from './session-store';
+import { BrowserPool } from './browser-pool';
+import { normalizeUrl } from '../sync/article-index';
+import { ProviderError } from './errors';
+
+export type SessionCookie = Pick<Cookie, 'name' | 'value' | 'domain' | 'path' | 'secure'>;
+
+/**
+ * Turn a session token into cookies for the given domain
+ * Accepts either a bare value for the provider's session cookie, or a
+ * cookie string copied from the browser ("name=value; other=value")
+ */
+export function parseSessionToken(token: string, domain: string, defaultCookieName?: string): SessionCookie[] {
+  const trimmed = token.trim();
+
+  if (!trimmed.includes('=')) {
+    if (!defaultCookieName) {
+      throw new Error('Session token must be a cookie string such as "name=value; other=value"');
+    }
+    return [{ name: defaultCookieName, value: trimmed, domain, path: '/', secure: true }];
+  }
+
+  return trimmed
+    .split(';')
+    .map(pair => pair.trim())
+    .filter(pair => pair.includes('='))
+    .map(pair => {
+      const separator = pair.indexOf('=');
+      return {
+        name: pair.substring(0, separator).trim(),
+        value: pair.substring(separator + 1).trim(),
+        domain,
+        path: '/',
+        secure: true,
+      };
+    });
+}
+
+/**
+ * Where the remove/unsave control for each item is on the saved-list page
+ */
+export interface ArchiveSelectors {
+  itemSelector: string; // one saved item
+  buttonSelector: string; // remove/unsave control inside the item
+  linkSelector?: string; // the article link inside the item, defaults to the first <a>
+  confirmSelector?: string; // confirmation button, for sites that ask before removing
+}
+
+/**
+ * Where each saved item and its fields are on the saved-list page
+ * Field selectors are matched inside the item; link defaults to the first <a>
+ */
+export interface ItemSelectors {
+  item: string;
+  title: string;
+  link?: string;
+  excerpt?: string;
+  author?: string;
+  date?: string;
+}
+
+export type SelectorField = 'title' | 'link' | 'excerpt' | 'author' | 'date';
+
+/**
+ * What the saved-list page shows: how many items matched and how many of
+ * them contain each field, so broken selectors can be told from an empty list
+ */
+export interface SavedListInspection {
+  url: string;
+  onSavedList: boolean; // false if the site redirected elsewhere, e.g. to its login page
+  items: number;
+  fields: Partial<Record<SelectorField, number>>; // only fields the provider declares
+}
+
+// How long to wait for a removed item to disappear
+const ARCHIVE_TIMEOUT = 5000;
+
+// Captcha widgets and one-time code fields that block a scripted login
+const CHALLENGE_SELECTORS = [
+  'iframe[src*="recaptcha"]',
+  'iframe[src*="hcaptcha"]',
+  'iframe[src*="challenges.cloudflare.com"]',
+  '[class*="captcha" i]',
+  'input[autocomplete="one-time-code"]',
+  'input[name*="otp" i]',
+];
 
 export abstract class BrowserProvider extends ReadLaterProvider {
   protected browser: Browser | null = null;
+  protected context: BrowserContext | null = null;
   protected page: Page | null = null;
+  protected sessionStore: SessionStore | null = null;
+  protected browserPool: BrowserPool | null = null;
 
   abstract loginUrl: string;
   abstract readLaterUrl: string;
 
+  abstract selectors: ItemSelectors;
+
+  // Providers whose saved list spans multiple pages override this
+  pagination: PaginationStrategy = { type: 'none' };
+
+  // Cookie a bare session token is stored in; without one, tokens must be full cookie strings
+  sessionCookieName?: string;
+
+  // Providers that can remove items from the saved list set this
+  archive?: ArchiveSelectors;
+
+  // Site-specific captcha or two-factor prompts, on top of the common ones
+  challengeSelectors: string[] = [];
+
+  /**
+   * Domain session cookies are set on, derived from the saved-list URL
+   * e.g. https://www.wired.com/saved-stories -> .wired.com
+   */
+  get cookieDomain(): string {
+    return '.' + new URL(this.readLaterUrl).hostname.replace(/^www\./, '');
+  }
+
+  /**
+   * Persist the browser session between syncs so logins are only repeated when it expires
+   */
+  setSessionStore(store: SessionStore | null): void {
+    this.sessionStore = store;
+  }
+
+  /**
+   * Open contexts in a shared browser instead of launching one per sync
+   */
+  setBrowserPool(pool: BrowserPool | null): void {
+    this.browserPool = pool;
+  }
+
+  /**
+   * Log in, reusing a stored session or session token where possible
+   * Throws a ProviderError saying why when the site won't let us in
+   */
   async authenticate(): Promise<boolean> {
-    try {
+    // Reuse the stored session if it is still valid
+    const storedState = this.sessionStore?.load(this.name);
+    if (storedState) {
+      this.context = await this.newContext({ storageState: storedState });
+      this.page = await this.newPage(this.context);
+
+      if (await this.isAuthenticated()) {
+        return true;
+      }
+
+      // Session expired; start over with a clean context
+      this.sessionStore?.clear(this.name);
+      await this.context.close();
+    }
+
+    // Session token: inject the cookie before navigating and skip the login form
+    const { sessionToken, username, password } = this.config.credentials;
+    if (sessionToken) {
+      this.context = await this.newContext();
+      await this.context.addCookies(parseSessionToken(sessionToken, this.cookieDomain, this.sessionCookieName));
+      this.page = await this.newPage(this.context);
+
+      if (await this.isAuthenticated()) {
+        await this.saveSession();
+        return true;
+      }
+
+      console.error(`Session token for ${this.displayName} was rejected`);
+      await this.context.close();
+
+      if (!username || !password) {
+        throw new ProviderError('auth', 'Session token was rejected; copy a fresh one from the browser');
+      }
+    }
+
+    this.context = await this.newContext();
+    this.page = await this.newPage(this.context);
+
+    await this.page.goto(this.loginUrl);
+    await this.performLogin();
+
+    if (!(await this.isAuthenticated())) {
+      if (await this.hasLoginChallenge()) {
+        throw new ProviderError('challenge', `${this.displayName} asked for a captcha or verification code; use a session token instead`);
+      }
+      throw new ProviderError('auth', 'Login failed; check the username and password');
+    }
+
+    await this.saveSession();
+    return true;
+  }
+
+  /**
+   * A fresh context from the shared pool, or from a browser of our own without one
+   */
+  private async newContext(options?: BrowserContextOptions): Promise<BrowserContext> {
+    if (this.browserPool) {
+      return this.browserPool.newContext(options);
+    }
+    if (!this.browser) {
       this.browser = await chromium.launch({ headless: true });
-      this.page = await this.browser.newPage();
+    }
+    return this.browser.newContext(options);
+  }
+
+  private async newPage(context: BrowserContext): Promise<Page> {
+    const page = await context.newPage();
+    page.setDefaultNavigationTimeout(this.timeouts.request);
+    return page;
+  }
 
-      await this.page.goto(this.loginUrl);
-      await this.performLogin();
+  /**
+   * Whether the page after a failed login shows a captcha or asks for a verification code
+   */
+  protected async hasLoginChallenge(): Promise<boolean> {
+    if (!this.page) return false;
 
-      return await this.isAuthenticated();
+    for (const selector of [...CHALLENGE_SELECTORS, ...this.challengeSelectors]) {
+      if (await this.page.$(selector).catch(() => null)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  protected async saveSession(): Promise<void> {
+    if (!this.sessionStore || !this.context) return;
+
+    try {
+      this.sessionStore.save(this.name, await this.context.storageState());
     } catch (error) {
-      console.error(`Authentication failed for ${this.displayName}:`, error);
-      return false;
+      console.error(`Failed to save session for ${this.displayName}:`, error);
     }
   }
 
   abstract performLogin(): Promise<void>;
   abstract isAuthenticated(): Promise<boolean>;
-  abstract extractArticles(): Promise<ReadLaterArticle[]>;
 
-  async fetchArticles(): Promise<ReadLaterArticle[]> {
+  /**
+   * Base for resolving relative article links, the saved-list page's origin by default
+   */
+  protected get linkBaseUrl(): string {
+    return new URL(this.readLaterUrl).origin;
+  }
+
+  /**
+   * Read the saved items on the current page using `selectors`
+   */
+  async extractArticles(): Promise<ReadLaterArticle[]> {
+    if (!this.page) return [];
+
+    const articles = await this.page.$$eval(this.selectors.item, (elements, selectors) => {
+      const text = (el: Element, selector?: string) =>
+        selector ? el.querySelector(selector)?.textContent?.trim() : undefined;
+
+      return elements.map(el => {
+        const linkEl = el.querySelector(selectors.link || 'a');
+
+        return {
+          title: text(el, selectors.title) || 'Untitled',
+          url: linkEl?.getAttribute('href') || '',
+          excerpt: text(el, selectors.excerpt),
+          author: text(el, selectors.author),
+          publicationDate: text(el, selectors.date),
+        };
+      });
+    }, this.selectors);
+
+    return articles.map(article => ({
+      ...article,
+      url: article.url ? new URL(article.url, this.linkBaseUrl).toString() : '',
+      source: this.displayName,
+      addedDate: new Date(),
+    }));
+  }
+
+  /**
+   * Count the saved items on the page and the fields found in them
+   * With navigate=false, looks at wherever a failed login left the page
+   */
+  async inspectSavedList(navigate = true): Promise<SavedListInspection | null> {
+    if (!this.page || this.page.isClosed()) return null;
+
+    if (navigate) {
+      await this.page.goto(this.readLaterUrl);
+    }
+
+    const fields: Partial<Record<SelectorField, string>> = { link: this.selectors.link || 'a' };
+    for (const field of ['title', 'excerpt', 'author', 'date'] as SelectorField[]) {
+      if (this.selectors[field]) {
+        fields[field] = this.selectors[field];
+      }
+    }
+
+    const counts = await this.page.$$eval(this.selectors.item, (elements, fields) => {
+      const matched: Record<string, number> = {};
+      for (const [field, selector] of Object.entries(fields)) {
+        matched[field] = elements.filter(el => !!el.querySelector(selector as string)).length;
+      }
+      return { items: elements.length, fields: matched };
+    }, fields);
+
+    const url = this.page.url();
+    return {
+      url,
+      onSavedList: new URL(url).pathname === new URL(this.readLaterUrl).pathname,
+      items: counts.items,
+      fields: counts.fields,
+    };
+  }
+
+  async fetchArticles(options: FetchOptions = {}): Promise<ReadLaterArticle[]> {
     if (!this.page) {
       throw new Error('Not authenticated');
     }
 
-    await this.page.goto(this.readLaterUrl);
-    const articles = await this.extractArticles();
+    try {
+      await this.page.goto(this.readLaterUrl);
+      const articles = await paginate(this.page, this.pagination, {
+        maxItems: this.config.maxItems || DEFAULT_PAGINATION_LIMITS.maxItems,
+        maxPages: this.config.maxPages || DEFAULT_PAGINATION_LIMITS.maxPages,
+      }, () => this.extractArticles());
+
+      if (this.config.fetchFullText) {
+        const { isKnown } = options;
+        await this.fetchFullText(isKnown ? articles.filter(article => !isKnown(article.url)) : articles);
+      }
 
-    await this.cleanup();
-    return articles;
+      // Sites refresh cookies as we browse, so store the latest state
+      await this.saveSession();
+      return articles;
+    } finally {
+      await this.cleanup();
+    }
   }
 
-  async cleanup(): Promise<void> {
-    if (this.page) {
-      await this.page.close();
-      this.page = null;
+  /**
+   * Visit each article with the logged-in session and store its main content as Markdown
+   * Failures are logged per article so one bad page doesn't lose the whole list
+   */
+  async fetchFullText(articles: ReadLaterArticle[]): Promise<void> {
+    if (!this.page) return;
+
+    for (const article of articles) {
+      if (!article.url) continue;
+
+      try {
+        await this.page.goto(article.url, { waitUntil: 'domcontentloaded', timeout: this.timeouts.request });
+        const html = await this.page.evaluate(extractMainContent);
+        article.content = htmlToMarkdown(html, article.url);
+      } catch (error) {
+        console.error(`Failed to fetch full text for ${article.url}:`, error);
+      }
     }
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+  }
+
+  supportsArchive(): boolean {
+    return !!this.archive;
+  }
+
+  /**
+   * Remove articles from the saved list by clicking each item's remove control,
+   * paging through the list the same way fetchArticles does
+   */
+  async archiveArticles(urls: string[]): Promise<ArchiveResult[]> {
+    if (!this.archive) {
+      return super.archiveArticles(urls);
+    }
+    if (!this.page) {
+      throw new Error('Not authenticated');
     }
+
+    const page = this.page;
+    const archive = this.archive;
+    const remaining = new Map(urls.map(url => [normalizeUrl(url), url]));
+    const results: ArchiveResult[] = [];
+
+    await page.goto(this.readLaterUrl);
+    await paginate(page, this.pagination, {
+      maxItems: this.config.maxItems || DEFAULT_PAGINATION_LIMITS.maxItems,
+      maxPages: this.config.maxPages || DEFAULT_PAGINATION_LIMITS.maxPages,
+    }, async () => {
+      for (const item of await page.$$(archive.itemSelector)) {
+        const link = await item.$(archive.linkSelector || 'a');
+        const href = link ? await link.getAttribute('href') : null;
+        if (!href) continue;
+
+        const key = normalizeUrl(new URL(href, page.url()).toString());
+        const url = remaining.get(key);
+        if (!url) continue;
+        remaining.delete(key);
+
+        try {
+          const button = await item.$(archive.buttonSelector);
+          if (!button) {
+            throw new Error('Remove button not found');
+          }
+
+          await button.click();
+          if (archive.confirmSelector) {
+            await page.click(archive.confirmSelector, { timeout: ARCHIVE_TIMEOUT });
+          }
+          await item.waitForElementState('hidden', { timeout: ARCHIVE_TIMEOUT }).catch(() => {});
+
+          results.push({ url, success: true });
+        } catch (error) {
+          results.push({ url, success: false, error: error.message });
+        }
+      }
+
+      // Nothing to collect; paginate is only used to reach every item
+      return [];
+    });
+
+    for (const url of remaining.values()) {
+      results.push({ url, success: false, error: 'Not found in saved list' });
+    }
+
+    return results;
+  }
+
+  /**
+   * Close the page, context and any browser we launched ourselves
+   * Safe to call more than once; a close that fails doesn't stop the rest
+   */
+  async cleanup(): Promise<void> {
+    const { page, context, browser } = this;
+    this.page = null;
+    this.context = null;
+    this.browser = null;
+
+    await page?.close().catch(() => {});
+    await context?.close().catch(() => {});
+    await browser?.close().catch(() => {});
   }
 
   supportsHeadless(): boolean {
     return true;
   }
 
-  requiresCredentials(): string[] {
-    return ['username', 'password'];
+  requiresCredentials(): CredentialRequirements {
+    return [['username', 'password'], ['sessionToken']];
   }
 }
 
 export abstract class APIProvider extends ReadLaterProvider {
   abstract apiBaseUrl: string;
 
+  /**
+   * Base URL for API calls; self-hosted services take it from the provider's serverUrl
+   */
+  get baseUrl(): string {
+    return (this.config.serverUrl || this.apiBaseUrl).replace(/\/+$/, '');
+  }
+
+  protected get maxItems(): number {
+    return this.config.maxItems || DEFAULT_PAGINATION_LIMITS.maxItems;
+  }
+
   async authenticate(): Promise<boolean> {
     // Most API providers use API keys or tokens
     return !!this.config.credentials.apiKey;
   }
 
-  abstract fetchArticles(): Promise<ReadLaterArticle[]>;
+  abstract fetchArticles(options?: FetchOptions): Promise<ReadLaterArticle[]>;
 
   supportsHeadless(): boolean {
     return true;
   }
 
-  requiresCredentials(): string[] {
-    return ['apiKey'];
+  requiresCredentials(): CredentialRequirements {
+    return [['apiKey']];
   }
 }
@@ -0,0 +1,53 @@
+import { Browser, BrowserContext, BrowserContextOptions, chromium } from 'playwright';
+
+/**
+ * One Chromium instance shared by every browser provider in a sync
+ * Each provider gets its own context, so cookies and sessions stay isolated.
+ * The browser is launched on first use and stays open until close().
+ * `prepare` runs on each new context before it is handed out, e.g. to record or replay pages.
+ */
+export class BrowserPool {
+  private browser: Promise<Browser> | null = null;
+  private contexts = new Set<BrowserContext>();
+
+  constructor(
+    private launch: () => Promise<Browser> = () => chromium.launch({ headless: true }),
+    private prepare: (context: BrowserContext) => Promise<void> | void = () => {}
+  ) {}
+
+  async newContext(options?: BrowserContextOptions): Promise<BrowserContext> {
+    if (!this.browser) {
+      // Providers starting at the same time wait on the same launch
+      this.browser = this.launch().catch(error => {
+        this.browser = null;
+        throw error;
+      });
+    }
+
+    const context = await (await this.browser).newContext(options);
+    this.contexts.add(context);
+    context.on('close', () => this.contexts.delete(context));
+    await this.prepare(context);
+    return context;
+  }
+
+  /**
+   * Contexts handed out and not closed yet
+   */
+  get openContexts(): number {
+    return this.contexts.size;
+  }
+
+  /**
+   * Close the browser and any contexts still open; the next newContext() launches a new one
+   */
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    this.contexts.clear();
+
+    if (browser) {
+      await browser.then(b => b.close()).catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { BrowserProvider, ArchiveSelectors, ItemSelectors } from './base';
+import { PaginationStrategy } from './pagination';
+import { ProviderConfig } from '../types';
+
+/**
+ * One step of a scripted login; `value` may reference credentials
+ * as {{username}}, {{password}} or {{apiKey}}
+ */
+export type LoginStep =
+  | { action: 'fill'; selector: string; value: string }
+  | { action: 'click'; selector: string }
+  | { action: 'press'; selector: string; key: string }
+  | { action: 'waitForSelector'; selector: string; timeout?: number }
+  | { action: 'waitForNavigation'; timeout?: number }
+  | { action: 'wait'; ms: number };
+
+/**
+ * A site described entirely by URLs and CSS selectors, so new sites can be
+ * added from configuration without writing a provider class
+ */
+export interface CustomProviderDefinition {
+  id: string;
+  displayName: string;
+  loginUrl: string;
+  readLaterUrl: string;
+  baseUrl?: string; // for resolving relative links, defaults to the saved-list URL's origin
+  loginSteps: LoginStep[];
+  itemSelector: string;
+  loggedInSelector?: string; // proves the saved list loaded, defaults to itemSelector
+  fields: {
+    title: string;
+    link?: string; // defaults to the first <a> in the item
+    excerpt?: string;
+    author?: string;
+    date?: string;
+  };
+  pagination?: PaginationStrategy;
+  sessionCookieName?: string;
+  archive?: ArchiveSelectors; // enables write-back of read articles
+}
+
+// Ids whose sync command would clash with one of the plugin's own ("sync-readlater-provider")
+const RESERVED_IDS = ['provider'];
+
+// The fields each login action needs, and their types
+const LOGIN_ACTION_FIELDS: Record<LoginStep['action'], Array<[string, 'string' | 'number']>> = {
+  fill: [['selector', 'string'], ['value', 'string']],
+  click: [['selector', 'string']],
+  press: [['selector', 'string'], ['key', 'string']],
+  waitForSelector: [['selector', 'string']],
+  waitForNavigation: [],
+  wait: [['ms', 'number']],
+};
+
+function isValidUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a custom provider definition, returning a list of problems (empty if valid)
+ */
+export function validateCustomProvider(definition: Partial<CustomProviderDefinition>): string[] {
+  const errors: string[] = [];
+  const label = definition.id || definition.displayName || 'custom provider';
+
+  if (!definition.id || !/^[a-z0-9_-]+$/.test(definition.id)) {
+    errors.push(`${label}: "id" must be lowercase letters, numbers, "-" or "_"`);
+  } else if (RESERVED_IDS.includes(definition.id)) {
+    errors.push(`${label}: "id" "${definition.id}" is reserved`);
+  }
+  if (!definition.displayName) {
+    errors.push(`${label}: "displayName" is required`);
+  }
+  if (!isValidUrl(definition.loginUrl)) {
+    errors.push(`${label}: "loginUrl" must be an absolute URL`);
+  }
+  if (!isValidUrl(definition.readLaterUrl)) {
+    errors.push(`${label}: "readLaterUrl" must be an absolute URL`);
+  }
+  if (definition.baseUrl !== undefined && !isValidUrl(definition.baseUrl)) {
+    errors.push(`${label}: "baseUrl" must be an absolute URL`);
+  }
+  if (!definition.itemSelector) {
+    errors.push(`${label}: "itemSelector" is required`);
+  }
+  if (!definition.fields || !definition.fields.title) {
+    errors.push(`${label}: "fields.title" is required`);
+  }
+
+  if (definition.archive && (!definition.archive.itemSelector || !definition.archive.buttonSelector)) {
+    errors.push(`${label}: "archive" needs "itemSelector" and "buttonSelector"`);
+  }
+
+  if (!Array.isArray(definition.loginSteps)) {
+    errors.push(`${label}: "loginSteps" must be an array`);
+  } else {
+    definition.loginSteps.forEach((step, i) => {
+      if (!step || !Object.prototype.hasOwnProperty.call(LOGIN_ACTION_FIELDS, step.action)) {
+        errors.push(`${label}: loginSteps[${i}] has unknown action "${step?.action}"`);
+        return;
+      }
+
+      for (const [field, type] of LOGIN_ACTION_FIELDS[step.action]) {
+        const value = (step as Record<string, unknown>)[field];
+        const valid = type === 'number' ? typeof value === 'number' && value >= 0 : typeof value === 'string' && value !== '';
+        if (!valid) {
+          errors.push(`${label}: loginSteps[${i}] (${step.action}) needs a ${type === 'number' ? 'numeric ' : ''}"${field}"`);
+        }
+      }
+    });
+  }
+
+  return errors;
+}
+
+export class DeclarativeProvider extends BrowserProvider {
+  name: string;
+  displayName: string;
+  loginUrl: string;
+  readLaterUrl: string;
+  selectors: ItemSelectors;
+
+  constructor(private definition: CustomProviderDefinition, config: ProviderConfig) {
+    super(config);
+    this.name = definition.id;
+    this.displayName = definition.displayName;
+    this.loginUrl = definition.loginUrl;
+    this.readLaterUrl = definition.readLaterUrl;
+    this.sessionCookieName = definition.sessionCookieName;
+    this.selectors = { item: definition.itemSelector, ...definition.fields };
+
+    if (definition.pagination) {
+      this.pagination = definition.pagination;
+    }
+    if (definition.archive) {
+      this.archive = definition.archive;
+    }
+  }
+
+  private fillCredentials(value: string): string {
+    const credentials = this.config.credentials;
+    return value.replace(/{{(username|password|apiKey)}}/g, (_match, key: 'username' | 'password' | 'apiKey') =>
+      credentials[key] || ''
+    );
+  }
+
+  async performLogin(): Promise<void> {
+    if (!this.page) throw new Error('Page not initialized');
+
+    for (const step of this.definition.loginSteps) {
+      switch (step.action) {
+        case 'fill':
+          await this.page.waitForSelector(step.selector, { timeout: this.timeouts.element });
+          await this.page.fill(step.selector, this.fillCredentials(step.value));
+          break;
+        case 'click':
+          await this.page.click(step.selector);
+          break;
+        case 'press':
+          await this.page.press(step.selector, step.key);
+          break;
+        case 'waitForSelector':
+          await this.page.waitForSelector(step.selector, { timeout: step.timeout || this.timeouts.element });
+          break;
+        case 'waitForNavigation':
+          await this.page.waitForNavigation({ timeout: step.timeout || this.timeouts.login }).catch(() => {});
+          break;
+        case 'wait':
+          await this.page.waitForTimeout(step.ms);
+          break;
+      }
+    }
+  }
+
+  async isAuthenticated(): Promise<boolean> {
+    if (!this.page) return false;
+
+    try {
+      await this.page.goto(this.readLaterUrl);
+      await this.page.waitForSelector(this.definition.loggedInSelector || this.definition.itemSelector, { timeout: this.timeouts.loggedIn });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  protected get linkBaseUrl(): string {
+    return this.definition.baseUrl || super.linkBaseUrl;
+  }
+}
+
+/**
+ * Build a provider class for a definition so it can be registered like the built-in providers
+ */
+export function createCustomProviderClass(
+  definition: CustomProviderDefinition
+): new (config: ProviderConfig) => DeclarativeProvider {
+  return class extends DeclarativeProvider {
+    constructor(config: ProviderConfig) {
+      super(definition, config);
+    }
+  };
+}
@@ -0,0 +1,261 @@
+import { ProviderCredentials, ReadLaterArticle, ReadLaterProvider } from '../types';
+import { BrowserProvider, SavedListInspection, SelectorField } from './base';
+import { ERROR_KIND_LABELS, classifyError } from './errors';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export type DoctorStep = 'credentials' | 'login' | 'items' | 'title' | 'link' | 'author' | 'urls';
+
+export const DOCTOR_STEPS: DoctorStep[] = ['credentials', 'login', 'items', 'title', 'link', 'author', 'urls'];
+
+export const STEP_LABELS: Record<DoctorStep, string> = {
+  credentials: 'Credentials',
+  login: 'Login',
+  items: 'Items',
+  title: 'Title',
+  link: 'Link',
+  author: 'Author',
+  urls: 'URLs',
+};
+
+export const STATUS_SYMBOLS: Record<CheckStatus, string> = {
+  pass: '✓',
+  warn: '!',
+  fail: '✗',
+  skip: '–',
+};
+
+export interface DoctorCheck {
+  step: DoctorStep;
+  status: CheckStatus;
+  detail?: string;
+}
+
+export interface ProviderDiagnosis {
+  provider: string;
+  checks: DoctorCheck[];
+}
+
+// Fields a saved item can't do without; a missing author only warns
+const REQUIRED_FIELDS: SelectorField[] = ['title', 'link'];
+
+/**
+ * Resolve each credential, collecting failures rather than stopping at the first
+ */
+export async function checkCredentials(
+  credentials: ProviderCredentials,
+  resolve: (value: string) => Promise<string>
+): Promise<{ check: DoctorCheck; resolved: ProviderCredentials }> {
+  const resolved: ProviderCredentials = {};
+  const failures: string[] = [];
+
+  for (const [key, value] of Object.entries(credentials)) {
+    if (typeof value !== 'string' || !value) continue;
+
+    try {
+      resolved[key as keyof ProviderCredentials] = await resolve(value);
+    } catch (error) {
+      failures.push(`${key}: ${error.message}`);
+    }
+  }
+
+  return {
+    check: failures.length > 0
+      ? { step: 'credentials', status: 'fail', detail: failures.join('; ') }
+      : { step: 'credentials', status: 'pass' },
+    resolved,
+  };
+}
+
+function isValidArticleUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function checkUrls(articles: ReadLaterArticle[]): DoctorCheck {
+  if (articles.length === 0) {
+    return { step: 'urls', status: 'skip' };
+  }
+
+  const invalid = articles.filter(article => !isValidArticleUrl(article.url));
+  if (invalid.length > 0) {
+    return {
+      step: 'urls',
+      status: 'fail',
+      detail: `${invalid.length} of ${articles.length} URLs are invalid, e.g. "${invalid[0].url}"`,
+    };
+  }
+  return { step: 'urls', status: 'pass', detail: `${articles.length} valid` };
+}
+
+/**
+ * Selector checks for a browser provider's saved list
+ * Items on the page but none matching is reported as a likely markup change, not an empty list
+ */
+function checkSelectors(provider: BrowserProvider, inspection: SavedListInspection): DoctorCheck[] {
+  if (inspection.items === 0) {
+    return [
+      {
+        step: 'items',
+        status: 'fail',
+        detail: `Page loaded but no items matched "${provider.selectors.item}"; the site's markup has probably changed (or the saved list is empty)`,
+      },
+      { step: 'title', status: 'skip' },
+      { step: 'link', status: 'skip' },
+      { step: 'author', status: 'skip' },
+    ];
+  }
+
+  const checks: DoctorCheck[] = [{ step: 'items', status: 'pass', detail: `${inspection.items} on the first page` }];
+
+  for (const field of ['title', 'link', 'author'] as SelectorField[]) {
+    const matched = inspection.fields[field];
+    const step = field as DoctorStep;
+
+    if (matched === undefined) {
+      checks.push({ step, status: 'skip', detail: 'No selector' });
+    } else if (matched === 0) {
+      const selector = field === 'link' ? provider.selectors.link || 'a' : provider.selectors[field];
+      checks.push({
+        step,
+        status: REQUIRED_FIELDS.includes(field) ? 'fail' : 'warn',
+        detail: `"${selector}" matched none of ${inspection.items} items`,
+      });
+    } else if (matched < inspection.items) {
+      checks.push({ step, status: 'warn', detail: `Found in ${matched} of ${inspection.items} items` });
+    } else {
+      checks.push({ step, status: 'pass' });
+    }
+  }
+
+  return checks;
+}
+
+function skipRemaining(checks: DoctorCheck[]): DoctorCheck[] {
+  const done = new Set(checks.map(check => check.step));
+  return [
+    ...checks,
+    ...DOCTOR_STEPS.filter(step => !done.has(step)).map(step => ({ step, status: 'skip' as CheckStatus })),
+  ];
+}
+
+/**
+ * Check that a provider can log in and that its selectors still find articles
+ * `credentials` is the result of checkCredentials when references were resolved first
+ */
+export async function diagnoseProvider(provider: ReadLaterProvider, credentials?: DoctorCheck): Promise<ProviderDiagnosis> {
+  const diagnosis = (checks: DoctorCheck[]) => ({ provider: provider.displayName, checks: skipRemaining(checks) });
+  const checks: DoctorCheck[] = [];
+
+  if (credentials?.status === 'fail') {
+    return diagnosis([credentials]);
+  }
+  if (!provider.hasRequiredCredentials()) {
+    const accepted = provider.requiresCredentials().map(set => set.join('+')).join(' or ');
+    return diagnosis([{ step: 'credentials', status: 'fail', detail: `Missing (needs ${accepted})` }]);
+  }
+  checks.push(credentials || { step: 'credentials', status: 'pass' });
+
+  try {
+    let loginError: string | null = null;
+    try {
+      if (!(await provider.authenticate())) {
+        loginError = 'Authentication failed';
+      }
+    } catch (error) {
+      const classified = classifyError(error);
+      loginError = `${ERROR_KIND_LABELS[classified.kind]}: ${classified.message}`;
+    }
+
+    if (!(provider instanceof BrowserProvider)) {
+      if (loginError) {
+        return diagnosis([...checks, { step: 'login', status: 'fail', detail: loginError }]);
+      }
+      checks.push({ step: 'login', status: 'pass' });
+
+      const articles = await provider.fetchArticles();
+      checks.push(articles.length > 0
+        ? { step: 'items', status: 'pass', detail: `${articles.length} fetched` }
+        : { step: 'items', status: 'warn', detail: 'No items returned; is the saved list empty?' });
+      checks.push(
+        { step: 'title', status: 'skip', detail: 'API provider' },
+        { step: 'link', status: 'skip', detail: 'API provider' },
+        { step: 'author', status: 'skip', detail: 'API provider' },
+        checkUrls(articles)
+      );
+      return diagnosis(checks);
+    }
+
+    let inspection: SavedListInspection | null;
+    if (loginError) {
+      // Logins are confirmed by finding saved items, so a site redesign looks like a failed login.
+      // If the saved list loaded without redirecting to a login page, blame the selectors instead.
+      inspection = await provider.inspectSavedList(false).catch(() => null);
+      if (!inspection?.onSavedList || inspection.items > 0) {
+        return diagnosis([...checks, { step: 'login', status: 'fail', detail: loginError }]);
+      }
+      checks.push({ step: 'login', status: 'warn', detail: 'Not confirmed: the saved list loaded but showed no items' });
+    } else {
+      checks.push({ step: 'login', status: 'pass' });
+      inspection = await provider.inspectSavedList();
+    }
+
+    if (!inspection) {
+      return diagnosis([...checks, { step: 'items', status: 'fail', detail: 'Saved list page is not open' }]);
+    }
+
+    checks.push(...checkSelectors(provider, inspection));
+    checks.push(checkUrls(inspection.items > 0 ? await provider.extractArticles() : []));
+    return diagnosis(checks);
+  } catch (error) {
+    const classified = classifyError(error);
+    const detail = `${ERROR_KIND_LABELS[classified.kind]}: ${classified.message}`;
+    return diagnosis([...checks, { step: 'items', status: 'fail', detail }]);
+  } finally {
+    await provider.cleanup().catch(() => {});
+  }
+}
+
+function pad(value: string, width: number): string {
+  return value + ' '.repeat(Math.max(0, width - value.length));
+}
+
+/**
+ * Pass/fail matrix with one row per provider, followed by details of every problem
+ */
+export function renderDoctorReport(diagnoses: ProviderDiagnosis[]): string {
+  const providerWidth = Math.max(8, ...diagnoses.map(d => d.provider.length)) + 2;
+  const widths = DOCTOR_STEPS.map(step => STEP_LABELS[step].length + 2);
+
+  const lines = [
+    pad('Provider', providerWidth) + DOCTOR_STEPS.map((step, i) => pad(STEP_LABELS[step], widths[i])).join('').trimRight(),
+  ];
+
+  for (const diagnosis of diagnoses) {
+    const cells = DOCTOR_STEPS.map((step, i) => {
+      const check = diagnosis.checks.find(c => c.step === step);
+      return pad(STATUS_SYMBOLS[check ? check.status : 'skip'], widths[i]);
+    });
+    lines.push(pad(diagnosis.provider, providerWidth) + cells.join('').trimRight());
+  }
+
+  for (const diagnosis of diagnoses) {
+    const problems = diagnosis.checks.filter(check => (check.status === 'fail' || check.status === 'warn') && check.detail);
+    if (problems.length === 0) continue;
+
+    lines.push('', diagnosis.provider);
+    for (const check of problems) {
+      lines.push(`  ${STATUS_SYMBOLS[check.status]} ${STEP_LABELS[check.step]}: ${check.detail}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function isHealthy(diagnosis: ProviderDiagnosis): boolean {
+  return !diagnosis.checks.some(check => check.status === 'fail');
+}
@@ -0,0 +1,119 @@
+import { HttpError } from './http';
+import type { SyncResult } from '../types';
+
+/**
+ * Why a provider sync failed
+ *   - auth: credentials or session token were rejected
+ *   - challenge: the site asked for a captcha or two-factor code
+ *   - selector: an expected page element never appeared, usually a site redesign
+ *   - network: connection failure, timeout or server error
+ *   - rate-limit: the site asked us to slow down
+ *   - unknown: anything else
+ */
+export type ProviderErrorKind = 'auth' | 'challenge' | 'selector' | 'network' | 'rate-limit' | 'unknown';
+
+export const ERROR_KIND_LABELS: Record<ProviderErrorKind, string> = {
+  auth: 'Bad credentials',
+  challenge: 'Captcha or 2FA required',
+  selector: 'Page element not found',
+  network: 'Network error',
+  'rate-limit': 'Rate limited',
+  unknown: 'Error',
+};
+
+// Only these are worth retrying; the rest fail the same way every time
+const TRANSIENT_KINDS: ProviderErrorKind[] = ['network', 'rate-limit'];
+
+const NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'EPIPE', 'ENETUNREACH', 'EHOSTUNREACH'];
+
+// Longest we'll wait between attempts, whatever the site's Retry-After says
+const MAX_BACKOFF = 5 * 60 * 1000;
+
+export class ProviderError extends Error {
+  constructor(public kind: ProviderErrorKind, message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | string[] | undefined, now = Date.now()): number | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function classifyHttpError(error: HttpError): ProviderError {
+  if (error.status === 401 || error.status === 403) {
+    return new ProviderError('auth', error.message);
+  }
+  if (error.status === 429) {
+    return new ProviderError('rate-limit', error.message, parseRetryAfter(error.headers['retry-after']));
+  }
+  if (error.status === 408 || error.status >= 500) {
+    return new ProviderError('network', error.message);
+  }
+  return new ProviderError('unknown', error.message);
+}
+
+/**
+ * Sort an error thrown while authenticating or fetching into a ProviderError
+ */
+export function classifyError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+  if (error instanceof HttpError) {
+    return classifyHttpError(error);
+  }
+
+  const { name, message, code } = (error || {}) as { name?: string; message?: string; code?: string };
+  const text = message || String(error);
+
+  // Playwright: element waits and clicks mention the locator, navigations don't
+  if (name === 'TimeoutError') {
+    return new ProviderError(/waiting for (locator|selector)|waitForSelector/.test(text) ? 'selector' : 'network', text);
+  }
+
+  if ((code && NETWORK_CODES.includes(code)) || /net::ERR_|timed out|socket hang up/i.test(text)) {
+    return new ProviderError('network', text);
+  }
+
+  return new ProviderError('unknown', text);
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): the base delay doubled for
+ * each earlier retry, or longer if the site asked for it
+ */
+export function backoffDelay(baseMs: number, attempt: number, retryAfterMs?: number): number {
+  const delay = Math.max(baseMs * Math.pow(2, attempt - 1), retryAfterMs || 0);
+  return Math.min(delay, MAX_BACKOFF);
+}
+
+/**
+ * A failed result's error with its kind and how many attempts were made,
+ * e.g. "Network error after 3 attempts: Request to example.com timed out"
+ */
+export function describeFailure(result: Pick<SyncResult, 'error' | 'errorKind' | 'attempts'>): string {
+  const label = result.errorKind && result.errorKind !== 'unknown' ? ERROR_KIND_LABELS[result.errorKind] : '';
+  const attempts = result.attempts && result.attempts > 1 ? ` after ${result.attempts} attempts` : '';
+  const prefix = label ? `${label}${attempts}` : attempts.trim();
+
+  return prefix ? `${prefix}: ${result.error || ''}` : result.error || '';
+}
@@ -0,0 +1,167 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { BrowserContext, Page, Route } from 'playwright';
+import { BrowserProvider } from './base';
+import { BrowserPool } from './browser-pool';
+
+/**
+ * A page captured from a live site, stored as HTML next to the manifest
+ */
+export interface FixturePage {
+  url: string;
+  file: string;
+}
+
+/**
+ * Index of a provider's recorded pages, saved as manifest.json in its fixture directory
+ */
+export interface FixtureManifest {
+  provider: string;
+  recordedAt: string;
+  pages: FixturePage[];
+}
+
+export const MANIFEST_FILE = 'manifest.json';
+
+// How long to let a page's scripts finish rendering before capturing it
+const SETTLE_TIMEOUT = 5000;
+
+/**
+ * The part of a URL fixtures are matched on; fragments never reach the server
+ */
+export function fixtureKey(url: string): string {
+  const { origin, pathname, search } = new URL(url);
+  return origin + pathname + search;
+}
+
+function fixtureFileName(url: string, index: number): string {
+  const { hostname, pathname, search } = new URL(url);
+  const slug = (hostname + pathname + search).replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+  return `${String(index + 1).padStart(2, '0')}-${slug}.html`;
+}
+
+/**
+ * Remove what a replay must not run and a fixture must not keep: scripts, which
+ * would try to reach the network and often embed account state, and the values
+ * of hidden form fields such as CSRF tokens
+ */
+export function scrubHtml(html: string): string {
+  return html
+    .replace(/<script\b[\s\S]*?<\/script>/gi, '')
+    .replace(/<input\b[^>]*>/gi, tag =>
+      /\btype=["']?hidden\b/i.test(tag) ? tag.replace(/\svalue=("[^"]*"|'[^']*'|[^\s>]*)/i, '') : tag
+    );
+}
+
+/**
+ * Read a recorded fixture directory into a map of URL key to HTML
+ */
+export function loadFixtures(dir: string): Map<string, string> {
+  const manifestPath = join(dir, MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    throw new Error(`No ${MANIFEST_FILE} in ${dir}; record one with "readlater-sync record-fixtures"`);
+  }
+
+  const manifest: FixtureManifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+  return new Map(manifest.pages.map(page => [fixtureKey(page.url), readFileSync(join(dir, page.file), 'utf-8')]));
+}
+
+async function serveFixture(route: Route, pages: Map<string, string>): Promise<void> {
+  const request = route.request();
+  const html = request.method() === 'GET' ? pages.get(fixtureKey(request.url())) : undefined;
+
+  if (html === undefined) {
+    await route.abort('internetdisconnected');
+    return;
+  }
+  await route.fulfill({ status: 200, contentType: 'text/html; charset=utf-8', body: html });
+}
+
+/**
+ * Serve recorded pages to a browser context in place of the network
+ * Every other request is aborted, so a replay never goes online and a provider
+ * that navigates somewhere unrecorded fails the way it would offline
+ */
+export async function replayFixtures(context: BrowserContext, dir: string): Promise<void> {
+  const pages = loadFixtures(dir);
+  await context.route('**/*', route => serveFixture(route, pages));
+}
+
+/**
+ * Captures each page loaded in the contexts it is attached to
+ * Pages are saved as rendered, after the site's scripts have run, and then
+ * scrubbed, so they replay offline without any JavaScript
+ */
+export class FixtureRecorder {
+  private pages = new Map<string, FixturePage>();
+  private html = new Map<string, string>();
+  private pending: Array<Promise<void>> = [];
+
+  constructor(private dir: string, private provider: string) {}
+
+  attach(context: BrowserContext): void {
+    context.on('page', page => {
+      page.on('load', () => {
+        this.pending.push(this.capture(page));
+      });
+    });
+  }
+
+  private async capture(page: Page): Promise<void> {
+    try {
+      await page.waitForLoadState('networkidle', { timeout: SETTLE_TIMEOUT }).catch(() => {});
+
+      const url = page.url();
+      if (!/^https?:/.test(url)) return;
+
+      const html = scrubHtml(await page.content());
+      const key = fixtureKey(url);
+      if (!this.pages.has(key)) {
+        this.pages.set(key, { url: key, file: fixtureFileName(url, this.pages.size) });
+      }
+      this.html.set(key, html);
+    } catch {
+      // The page navigated away or closed before it could be captured
+    }
+  }
+
+  /**
+   * Wait for captures in progress, then write the pages and manifest
+   */
+  async save(): Promise<FixtureManifest> {
+    await Promise.all(this.pending);
+
+    const manifest: FixtureManifest = {
+      provider: this.provider,
+      recordedAt: new Date().toISOString(),
+      pages: Array.from(this.pages.values()),
+    };
+
+    mkdirSync(this.dir, { recursive: true });
+    for (const page of manifest.pages) {
+      writeFileSync(join(this.dir, page.file), this.html.get(page.url) || '');
+    }
+    writeFileSync(join(this.dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n');
+    return manifest;
+  }
+}
+
+/**
+ * Log in to the live site and record the pages the provider visits on the way
+ * to its saved list. The login form is only recorded when no stored session
+ * or session token lets the provider skip it.
+ */
+export async function recordFixtures(provider: BrowserProvider, dir: string): Promise<FixtureManifest> {
+  const recorder = new FixtureRecorder(dir, provider.name);
+  const pool = new BrowserPool(undefined, context => recorder.attach(context));
+  provider.setBrowserPool(pool);
+
+  try {
+    await provider.authenticate();
+    await provider.inspectSavedList();
+    return await recorder.save();
+  } finally {
+    await provider.cleanup().catch(() => {});
+    await pool.close();
+  }
+}
@@ -0,0 +1,116 @@
+import { request as httpRequestRaw, IncomingHttpHeaders } from 'http';
+import { request as httpsRequestRaw } from 'https';
+
+export interface HttpRequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  query?: Record<string, string | number | boolean | undefined>;
+  json?: unknown;
+  form?: Record<string, string>;
+  timeout?: number;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public body: string, public headers: IncomingHttpHeaders = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const DEFAULT_TIMEOUT = 30000;
+
+function resolveMethod(options: HttpRequestOptions): string {
+  return options.method || (options.json !== undefined || options.form ? 'POST' : 'GET');
+}
+
+function buildUrl(url: string, query?: HttpRequestOptions['query']): URL {
+  const parsed = new URL(url);
+
+  for (const [key, value] of Object.entries(query || {})) {
+    if (value !== undefined) {
+      parsed.searchParams.set(key, String(value));
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Make an HTTP request with Node's http/https modules
+ *
+ * API providers use this rather than fetch: it behaves the same in the CLI
+ * and in Obsidian (where the renderer's fetch is subject to CORS), and
+ * works against plain-http self-hosted servers and local test servers.
+ */
+export function httpRequest(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+  const target = buildUrl(url, options.query);
+  const headers: Record<string, string> = { Accept: 'application/json', ...options.headers };
+
+  let body: string | undefined;
+  if (options.json !== undefined) {
+    body = JSON.stringify(options.json);
+    headers['Content-Type'] = headers['Content-Type'] || 'application/json; charset=UTF-8';
+  } else if (options.form) {
+    body = new URLSearchParams(options.form).toString();
+    headers['Content-Type'] = 'application/x-www-form-urlencoded';
+  }
+
+  if (body !== undefined) {
+    headers['Content-Length'] = String(Buffer.byteLength(body));
+  }
+
+  const send = target.protocol === 'http:' ? httpRequestRaw : httpsRequestRaw;
+
+  return new Promise((resolve, reject) => {
+    const req = send(target, {
+      method: resolveMethod(options),
+      headers,
+      timeout: options.timeout || DEFAULT_TIMEOUT,
+    }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve({
+        status: res.statusCode || 0,
+        headers: res.headers,
+        body: Buffer.concat(chunks).toString('utf-8'),
+      }));
+      res.on('error', reject);
+    });
+
+    req.on('timeout', () => req.destroy(new Error(`Request to ${target.host} timed out`)));
+    req.on('error', reject);
+
+    if (body !== undefined) {
+      req.write(body);
+    }
+    req.end();
+  });
+}
+
+/**
+ * Make a request and parse the JSON response, throwing HttpError on non-2xx status
+ */
+export async function requestJson<T>(url: string, options: HttpRequestOptions = {}): Promise<T> {
+  const response = await httpRequest(url, options);
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new HttpError(
+      response.status,
+      `${resolveMethod(options)} ${new URL(url).pathname} failed with status ${response.status}`,
+      response.body,
+      response.headers
+    );
+  }
+
+  try {
+    return JSON.parse(response.body) as T;
+  } catch {
+    throw new HttpError(response.status, `Invalid JSON response from ${new URL(url).pathname}`, response.body);
+  }
+}
@@ -1,23 +1,37 @@
-import { BrowserProvider } from './base';
-import { ReadLaterArticle } from '../types';
+import { BrowserProvider, ItemSelectors } from './base';
+import { CredentialRequirements } from '../types';
+import { PaginationStrategy } from './pagination';
 
 export class MediumProvider extends BrowserProvider {
   name = 'medium';
   displayName = 'Medium';
   loginUrl = 'https://medium.com/m/signin';
   readLaterUrl = 'https://medium.com/m/lists/reading-list';
+  selectors: ItemSelectors = {
+    item: 'article',
+    title: 'h2, h3',
+    link: 'a[data-post-id]',
+    excerpt: 'h3 + div, .subtitle',
+    author: '[data-testid="authorName"], .author a',
+  };
+  pagination: PaginationStrategy = {
+    type: 'infinite-scroll',
+    itemSelector: 'article',
+  };
+
+  // Medium's login session lives in the "sid" cookie
+  sessionCookieName = 'sid';
+
+  // No archive selectors: removing from a Medium list goes through a per-item
+  // menu whose markup is generated, so write-back isn't supported
 
   async performLogin(): Promise<void> {
-    if (!this.page) throw new Error('Page not initialized');
-
-    // Medium uses email-based sign-in (magic link)
-    await this.page.waitForSelector('input[type="email"]', { timeout: 10000 });
-    await this.page.fill('input[type="email"]', this.config.credentials.username || '');
-    await this.page.click('button[type="submit"]');
+    // Medium only signs in via emailed magic links, which can't be automated
+    throw new Error('Medium requires a session token: copy the "sid" cookie from a logged-in browser');
+  }
 
-    // Note: Medium typically sends a magic link via email
-    // For automated access, users may need to use session tokens
-    await this.page.waitForTimeout(2000);
+  requiresCredentials(): CredentialRequirements {
+    return [['sessionToken']];
   }
 
   async isAuthenticated(): Promise<boolean> {
@@ -25,37 +39,10 @@ export class MediumProvider extends BrowserProvider {
 
     try {
       await this.page.goto(this.readLaterUrl);
-      await this.page.waitForSelector('article', { timeout: 5000 });
+      await this.page.waitForSelector(this.selectors.item, { timeout: this.timeouts.loggedIn });
       return true;
     } catch {
       return false;
     }
   }
-
-  async extractArticles(): Promise<ReadLaterArticle[]> {
-    if (!this.page) return [];
-
-    const articles = await this.page.$$eval('article', (elements) => {
-      return elements.map(el => {
-        const linkEl = el.querySelector('a[data-post-id]');
-        const titleEl = el.querySelector('h2, h3');
-        const excerptEl = el.querySelector('h3 + div, .subtitle');
-        const authorEl = el.querySelector('[data-testid="authorName"], .author a');
-
-        return {
-          title: titleEl?.textContent?.trim() || 'Untitled',
-          url: linkEl?.getAttribute('href') || '',
-          excerpt: excerptEl?.textContent?.trim(),
-          author: authorEl?.textContent?.trim(),
-        };
-      });
-    });
-
-    return articles.map(article => ({
-      ...article,
-      url: article.url.startsWith('http') ? article.url : `https://medium.com${article.url}`,
-      source: this.displayName,
-      addedDate: new Date(),
-    }));
-  }
 }
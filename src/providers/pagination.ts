@@ -0,0 +1,163 @@
+import { Page } from 'playwright';
+import { ReadLaterArticle } from '../types';
+
+/**
+ * How a provider's saved-list page exposes items beyond the first screen
+ *   - none: everything is on one page
+ *   - next-link: follow a "next page" link, extracting each page in turn
+ *   - load-more: click a "load more" button until it disappears
+ *   - infinite-scroll: scroll to the bottom until no new items appear
+ */
+export type PaginationStrategy =
+  | { type: 'none' }
+  | { type: 'next-link'; nextSelector: string }
+  | { type: 'load-more'; buttonSelector: string; itemSelector: string }
+  | { type: 'infinite-scroll'; itemSelector: string };
+
+export interface PaginationLimits {
+  maxItems: number;
+  maxPages: number;
+}
+
+export const DEFAULT_PAGINATION_LIMITS: PaginationLimits = {
+  maxItems: 500,
+  maxPages: 20,
+};
+
+// How long to wait for new items after a click or scroll
+const SETTLE_TIMEOUT = 3000;
+
+async function countItems(page: Page, itemSelector: string): Promise<number> {
+  return page.$$eval(itemSelector, elements => elements.length);
+}
+
+/**
+ * Wait until more than `previous` items are on the page, or give up after SETTLE_TIMEOUT
+ */
+async function waitForMoreItems(page: Page, itemSelector: string, previous: number): Promise<number> {
+  try {
+    await page.waitForFunction(
+      ({ selector, count }) => document.querySelectorAll(selector).length > count,
+      { selector: itemSelector, count: previous },
+      { timeout: SETTLE_TIMEOUT }
+    );
+  } catch {
+    // No new items appeared
+  }
+  return countItems(page, itemSelector);
+}
+
+async function loadAllByButton(
+  page: Page,
+  strategy: { buttonSelector: string; itemSelector: string },
+  limits: PaginationLimits
+): Promise<void> {
+  let count = await countItems(page, strategy.itemSelector);
+
+  for (let pages = 1; pages < limits.maxPages && count < limits.maxItems; pages++) {
+    const button = await page.$(strategy.buttonSelector);
+    if (!button || !(await button.isVisible())) {
+      break;
+    }
+
+    await button.click();
+    const newCount = await waitForMoreItems(page, strategy.itemSelector, count);
+    if (newCount <= count) {
+      break;
+    }
+    count = newCount;
+  }
+}
+
+async function loadAllByScrolling(
+  page: Page,
+  strategy: { itemSelector: string },
+  limits: PaginationLimits
+): Promise<void> {
+  let count = await countItems(page, strategy.itemSelector);
+
+  for (let pages = 1; pages < limits.maxPages && count < limits.maxItems; pages++) {
+    await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+    const newCount = await waitForMoreItems(page, strategy.itemSelector, count);
+    if (newCount <= count) {
+      break;
+    }
+    count = newCount;
+  }
+}
+
+async function extractAcrossPages(
+  page: Page,
+  strategy: { nextSelector: string },
+  limits: PaginationLimits,
+  extract: () => Promise<ReadLaterArticle[]>
+): Promise<ReadLaterArticle[]> {
+  const articles: ReadLaterArticle[] = [];
+  const visited = new Set<string>([page.url()]);
+
+  for (let pages = 0; pages < limits.maxPages && articles.length < limits.maxItems; pages++) {
+    articles.push(...await extract());
+
+    const next = await page.$(strategy.nextSelector);
+    const href = next ? await next.getAttribute('href') : null;
+    if (!next || !href) {
+      break;
+    }
+
+    const nextUrl = new URL(href, page.url()).toString();
+    if (visited.has(nextUrl)) {
+      break;
+    }
+    visited.add(nextUrl);
+
+    await page.goto(nextUrl);
+  }
+
+  return articles;
+}
+
+/**
+ * Drop repeated URLs (items can show up on more than one page) and apply the item cap
+ */
+function dedupeAndCap(articles: ReadLaterArticle[], maxItems: number): ReadLaterArticle[] {
+  const seen = new Set<string>();
+  const unique = articles.filter(article => {
+    if (seen.has(article.url)) {
+      return false;
+    }
+    seen.add(article.url);
+    return true;
+  });
+
+  return unique.slice(0, maxItems);
+}
+
+/**
+ * Extract articles from the current page, paging through the saved list with the given strategy
+ */
+export async function paginate(
+  page: Page,
+  strategy: PaginationStrategy,
+  limits: PaginationLimits,
+  extract: () => Promise<ReadLaterArticle[]>
+): Promise<ReadLaterArticle[]> {
+  let articles: ReadLaterArticle[];
+
+  switch (strategy.type) {
+    case 'next-link':
+      articles = await extractAcrossPages(page, strategy, limits, extract);
+      break;
+    case 'load-more':
+      await loadAllByButton(page, strategy, limits);
+      articles = await extract();
+      break;
+    case 'infinite-scroll':
+      await loadAllByScrolling(page, strategy, limits);
+      articles = await extract();
+      break;
+    default:
+      articles = await extract();
+  }
+
+  return dedupeAndCap(articles, limits.maxItems);
+}
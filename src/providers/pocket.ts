@@ -0,0 +1,179 @@
+import { APIProvider } from './base';
+import { requestJson } from './http';
+import { normalizeUrl } from '../sync/article-index';
+import { ReadLaterArticle, CredentialRequirements, ArchiveResult } from '../types';
+
+const POCKET_API = 'https://getpocket.com/v3';
+
+// Pocket rejects requests without this header with a 403
+const POCKET_HEADERS = { 'X-Accept': 'application/json' };
+
+const PAGE_SIZE = 100;
+
+interface PocketItem {
+  item_id: string;
+  given_url?: string;
+  resolved_url?: string;
+  given_title?: string;
+  resolved_title?: string;
+  excerpt?: string;
+  time_added?: string;
+  sort_id?: number;
+  tags?: Record<string, { tag: string }>;
+  authors?: Record<string, { name: string }>;
+}
+
+interface PocketSendResponse {
+  status: number;
+  action_results: Array<boolean | object>;
+}
+
+interface PocketGetResponse {
+  // Pocket returns an empty array instead of an object when there are no items
+  list: Record<string, PocketItem> | [];
+}
+
+function newestFirst(a: PocketItem, b: PocketItem): number {
+  if (a.sort_id !== undefined && b.sort_id !== undefined) {
+    return a.sort_id - b.sort_id;
+  }
+  return Number(b.time_added || 0) - Number(a.time_added || 0);
+}
+
+/**
+ * Step 1 of Pocket's OAuth flow: get a request token for the user to authorize
+ */
+export async function getPocketRequestToken(consumerKey: string, redirectUri: string): Promise<string> {
+  const response = await requestJson<{ code: string }>(`${POCKET_API}/oauth/request`, {
+    headers: POCKET_HEADERS,
+    json: { consumer_key: consumerKey, redirect_uri: redirectUri },
+  });
+  return response.code;
+}
+
+/**
+ * Step 2: the page where the user approves access for the request token
+ */
+export function getPocketAuthorizeUrl(requestToken: string, redirectUri: string): string {
+  const params = new URLSearchParams({ request_token: requestToken, redirect_uri: redirectUri });
+  return `https://getpocket.com/auth/authorize?${params.toString()}`;
+}
+
+/**
+ * Step 3: exchange the authorized request token for a long-lived access token
+ */
+export async function getPocketAccessToken(consumerKey: string, requestToken: string): Promise<string> {
+  const response = await requestJson<{ access_token: string }>(`${POCKET_API}/oauth/authorize`, {
+    headers: POCKET_HEADERS,
+    json: { consumer_key: consumerKey, code: requestToken },
+  });
+  return response.access_token;
+}
+
+/**
+ * Pocket (getpocket.com)
+ * Credentials: apiKey = consumer key, sessionToken = OAuth access token
+ */
+export class PocketProvider extends APIProvider {
+  name = 'pocket';
+  displayName = 'Pocket';
+  apiBaseUrl = POCKET_API;
+
+  async authenticate(): Promise<boolean> {
+    return this.hasRequiredCredentials();
+  }
+
+  requiresCredentials(): CredentialRequirements {
+    return [['apiKey', 'sessionToken']];
+  }
+
+  async fetchArticles(): Promise<ReadLaterArticle[]> {
+    return (await this.fetchItems()).map(item => this.toArticle(item));
+  }
+
+  supportsArchive(): boolean {
+    return true;
+  }
+
+  async archiveArticles(urls: string[]): Promise<ArchiveResult[]> {
+    // Pocket archives by item ID, so look the URLs up in the unread list
+    const ids = new Map<string, string>();
+    for (const item of await this.fetchItems()) {
+      for (const url of [item.given_url, item.resolved_url]) {
+        if (url) ids.set(normalizeUrl(url), item.item_id);
+      }
+    }
+
+    const found = urls.filter(url => ids.has(normalizeUrl(url)));
+    const results: ArchiveResult[] = urls
+      .filter(url => !ids.has(normalizeUrl(url)))
+      .map(url => ({ url, success: false, error: 'Not found in saved list' }));
+
+    if (found.length === 0) {
+      return results;
+    }
+
+    const response = await requestJson<PocketSendResponse>(`${this.baseUrl}/send`, {
+      headers: POCKET_HEADERS,
+      json: {
+        consumer_key: this.config.credentials.apiKey,
+        access_token: this.config.credentials.sessionToken,
+        actions: found.map(url => ({ action: 'archive', item_id: ids.get(normalizeUrl(url)) })),
+      },
+      timeout: this.timeouts.request,
+    });
+
+    found.forEach((url, i) => {
+      const success = response.action_results?.[i] === true;
+      results.push(success ? { url, success } : { url, success, error: 'Pocket rejected the archive action' });
+    });
+
+    return results;
+  }
+
+  private async fetchItems(): Promise<PocketItem[]> {
+    const items: PocketItem[] = [];
+
+    for (let offset = 0; items.length < this.maxItems; offset += PAGE_SIZE) {
+      const response = await requestJson<PocketGetResponse>(`${this.baseUrl}/get`, {
+        headers: POCKET_HEADERS,
+        json: {
+          consumer_key: this.config.credentials.apiKey,
+          access_token: this.config.credentials.sessionToken,
+          state: 'unread',
+          detailType: 'complete',
+          sort: 'newest',
+          count: PAGE_SIZE,
+          offset,
+        },
+        timeout: this.timeouts.request,
+      });
+
+      // The list is keyed by item ID, and integer-like keys iterate in ascending
+      // order, so restore the requested newest-first order from sort_id
+      const page = Object.values(response.list || {}).sort(newestFirst);
+      items.push(...page);
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return items.slice(0, this.maxItems);
+  }
+
+  private toArticle(item: PocketItem): ReadLaterArticle {
+    const authors = Object.values(item.authors || {}).map(author => author.name).filter(Boolean);
+    const tags = Object.keys(item.tags || {});
+
+    return {
+      title: item.resolved_title || item.given_title || 'Untitled',
+      url: item.resolved_url || item.given_url || '',
+      excerpt: item.excerpt || undefined,
+      author: authors.length > 0 ? authors.join(', ') : undefined,
+      source: this.displayName,
+      addedDate: item.time_added ? new Date(Number(item.time_added) * 1000) : new Date(),
+      tags: tags.length > 0 ? tags : undefined,
+    };
+  }
+}
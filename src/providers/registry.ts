@@ -1,12 +1,24 @@
-import { ReadLaterProvider, ReadLaterSettings } from '../types';
+import { ReadLaterProvider, ReadLaterSettings, ProviderConfig } from '../types';
 import { WiredProvider } from './wired';
 import { GuardianProvider } from './guardian';
 import { HBRProvider } from './hbr';
 import { MediumProvider } from './medium';
 import { IrishTimesProvider } from './irishtimes';
+import { PocketProvider } from './pocket';
+import { InstapaperProvider } from './instapaper';
+import { WallabagProvider } from './wallabag';
+import { BrowserProvider } from './base';
+import { SessionStore } from './session-store';
+import { BrowserPool } from './browser-pool';
+import { createCustomProviderClass, validateCustomProvider } from './custom';
+
+type ProviderConstructor = new (config: ProviderConfig) => ReadLaterProvider;
 
 export class ProviderRegistry {
-  private providers: Map<string, new (config: any) => ReadLaterProvider>;
+  private providers: Map<string, ProviderConstructor>;
+
+  // Browser providers created here share one Chromium instance
+  private browserPool = new BrowserPool();
 
   constructor(private settings: ReadLaterSettings) {
     this.providers = new Map();
@@ -19,19 +31,57 @@ export class ProviderRegistry {
     this.register('hbr', HBRProvider);
     this.register('medium', MediumProvider);
     this.register('irishtimes', IrishTimesProvider);
+    this.register('pocket', PocketProvider);
+    this.register('instapaper', InstapaperProvider);
+    this.register('wallabag', WallabagProvider);
+
+    this.registerCustomProviders();
+  }
+
+  /**
+   * Register the declarative providers from settings, skipping invalid ones
+   */
+  private registerCustomProviders(): void {
+    for (const definition of this.settings.customProviders || []) {
+      const errors = validateCustomProvider(definition);
+
+      if (this.providers.has(definition.id)) {
+        errors.push(`${definition.id}: conflicts with an existing provider`);
+      }
+
+      if (errors.length > 0) {
+        console.error(`Skipping custom provider:\n  ${errors.join('\n  ')}`);
+        continue;
+      }
+
+      this.register(definition.id, createCustomProviderClass(definition));
+    }
   }
 
-  private register(name: string, providerClass: new (config: any) => ReadLaterProvider): void {
+  private register(name: string, providerClass: ProviderConstructor): void {
     this.providers.set(name, providerClass);
   }
 
+  private createProvider(ProviderClass: ProviderConstructor, config: ProviderConfig): ReadLaterProvider {
+    const provider = new ProviderClass(config);
+
+    if (provider instanceof BrowserProvider) {
+      provider.setBrowserPool(this.browserPool);
+      if (this.settings.persistSessions) {
+        provider.setSessionStore(new SessionStore(this.settings.sessionDir));
+      }
+    }
+
+    return provider;
+  }
+
   getEnabledProviders(): ReadLaterProvider[] {
     const enabled: ReadLaterProvider[] = [];
 
     for (const [name, ProviderClass] of this.providers.entries()) {
       const config = this.settings.providers[name];
       if (config && config.enabled) {
-        enabled.push(new ProviderClass(config));
+        enabled.push(this.createProvider(ProviderClass, config));
       }
     }
 
@@ -46,10 +96,27 @@ export class ProviderRegistry {
       return null;
     }
 
-    return new ProviderClass(config);
+    return this.createProvider(ProviderClass, config);
+  }
+
+  /**
+   * Instantiate every registered provider, including unconfigured ones
+   * Useful for listing providers; unconfigured ones get an empty disabled config
+   */
+  getAllProviders(): ReadLaterProvider[] {
+    return Array.from(this.providers.entries()).map(([name, ProviderClass]) =>
+      this.createProvider(ProviderClass, this.settings.providers[name] || { enabled: false, credentials: {} })
+    );
   }
 
   getAllProviderNames(): string[] {
     return Array.from(this.providers.keys());
   }
+
+  /**
+   * Close the shared browser once a sync is over; the next sync launches a new one
+   */
+  async closeBrowser(): Promise<void> {
+    await this.browserPool.close();
+  }
 }
@@ -0,0 +1,81 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync, readdirSync, chmodSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { BrowserContext } from 'playwright';
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export const DEFAULT_SESSION_DIR = join(homedir(), '.obsidian-readlater', 'auth-state');
+
+/**
+ * Stores Playwright storage state (cookies and localStorage) per provider,
+ * so later syncs can skip the login form while the session is still valid
+ *
+ * Session files grant access to the user's accounts, so the directory is
+ * created owner-only (0700) and each file is written owner-read/write (0600).
+ */
+export class SessionStore {
+  private dir: string;
+
+  constructor(dir?: string) {
+    this.dir = dir ? dir.replace(/^~(?=$|[/\\])/, homedir()) : DEFAULT_SESSION_DIR;
+  }
+
+  private getPath(providerName: string): string {
+    return join(this.dir, `${providerName.replace(/[^a-z0-9_-]/gi, '_')}.json`);
+  }
+
+  /**
+   * Load the stored state for a provider, or null if there is none or it is unreadable
+   */
+  load(providerName: string): StorageState | null {
+    const path = this.getPath(providerName);
+
+    if (!existsSync(path)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      console.error(`Failed to read saved session for ${providerName}:`, error);
+      return null;
+    }
+  }
+
+  save(providerName: string, state: StorageState): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    }
+
+    const path = this.getPath(providerName);
+    writeFileSync(path, JSON.stringify(state), { encoding: 'utf-8', mode: 0o600 });
+
+    // mode only applies when the file is created, so tighten existing files too
+    chmodSync(path, 0o600);
+  }
+
+  clear(providerName: string): void {
+    const path = this.getPath(providerName);
+
+    if (existsSync(path)) {
+      unlinkSync(path);
+    }
+  }
+
+  /**
+   * Remove every stored session; returns the number of sessions removed
+   */
+  clearAll(): number {
+    if (!existsSync(this.dir)) {
+      return 0;
+    }
+
+    const files = readdirSync(this.dir).filter(file => file.endsWith('.json'));
+    for (const file of files) {
+      unlinkSync(join(this.dir, file));
+    }
+
+    return files.length;
+  }
+}
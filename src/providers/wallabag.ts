@@ -0,0 +1,177 @@
+import { APIProvider } from './base';
+import { HttpError, requestJson } from './http';
+import { ProviderError, classifyError } from './errors';
+import { htmlToMarkdown, decodeEntities } from '../content/html-to-markdown';
+import { ReadLaterArticle, CredentialRequirements, ArchiveResult } from '../types';
+
+const PAGE_SIZE = 100;
+const EXCERPT_LENGTH = 200;
+
+interface WallabagEntry {
+  id: number;
+  title?: string;
+  url: string;
+  content?: string;
+  preview_picture?: string;
+  published_by?: string[] | null;
+  published_at?: string | null;
+  created_at: string;
+  tags?: Array<{ label: string }>;
+}
+
+interface WallabagEntriesResponse {
+  page: number;
+  pages: number;
+  _embedded: { items: WallabagEntry[] };
+}
+
+interface WallabagExistsResponse {
+  // Entry ID with return_id=1, or false/null when the URL isn't saved
+  exists: number | boolean | null;
+}
+
+interface WallabagTokenResponse {
+  access_token: string;
+}
+
+/**
+ * Plain-text excerpt from an entry's HTML content
+ */
+function excerptFromHtml(html: string): string | undefined {
+  const text = decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+  if (!text) {
+    return undefined;
+  }
+
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…` : text;
+}
+
+/**
+ * Wallabag (self-hosted or wallabag.it)
+ * Credentials: apiKey/apiSecret = API client ID/secret, username/password = Wallabag login
+ */
+export class WallabagProvider extends APIProvider {
+  name = 'wallabag';
+  displayName = 'Wallabag';
+  apiBaseUrl = 'https://app.wallabag.it';
+
+  private accessToken: string | null = null;
+
+  requiresCredentials(): CredentialRequirements {
+    return [['apiKey', 'apiSecret', 'username', 'password']];
+  }
+
+  async authenticate(): Promise<boolean> {
+    if (!this.hasRequiredCredentials()) {
+      return false;
+    }
+
+    const { apiKey, apiSecret, username, password } = this.config.credentials;
+
+    try {
+      const response = await requestJson<WallabagTokenResponse>(`${this.baseUrl}/oauth/v2/token`, {
+        form: {
+          grant_type: 'password',
+          client_id: apiKey || '',
+          client_secret: apiSecret || '',
+          username: username || '',
+          password: password || '',
+        },
+        timeout: this.timeouts.request,
+      });
+
+      this.accessToken = response.access_token;
+      return !!this.accessToken;
+    } catch (error) {
+      // The OAuth password grant answers bad credentials with 400 invalid_grant
+      if (error instanceof HttpError && error.status === 400) {
+        throw new ProviderError('auth', 'Wallabag rejected the client credentials or password');
+      }
+      throw classifyError(error);
+    }
+  }
+
+  async fetchArticles(): Promise<ReadLaterArticle[]> {
+    if (!this.accessToken) {
+      throw new Error('Not authenticated');
+    }
+
+    const articles: ReadLaterArticle[] = [];
+
+    for (let page = 1; articles.length < this.maxItems; page++) {
+      const response = await requestJson<WallabagEntriesResponse>(`${this.baseUrl}/api/entries.json`, {
+        headers: { Authorization: `Bearer ${this.accessToken}` },
+        query: { archive: 0, sort: 'created', order: 'desc', perPage: PAGE_SIZE, page },
+        timeout: this.timeouts.request,
+      });
+
+      const items = response._embedded?.items || [];
+      articles.push(...items.map(entry => this.toArticle(entry)));
+
+      if (items.length === 0 || page >= response.pages) {
+        break;
+      }
+    }
+
+    return articles.slice(0, this.maxItems);
+  }
+
+  supportsArchive(): boolean {
+    return true;
+  }
+
+  async archiveArticles(urls: string[]): Promise<ArchiveResult[]> {
+    if (!this.accessToken) {
+      throw new Error('Not authenticated');
+    }
+
+    const headers = { Authorization: `Bearer ${this.accessToken}` };
+    const results: ArchiveResult[] = [];
+
+    for (const url of urls) {
+      try {
+        const { exists } = await requestJson<WallabagExistsResponse>(`${this.baseUrl}/api/entries/exists.json`, {
+          headers,
+          query: { url, return_id: 1 },
+          timeout: this.timeouts.request,
+        });
+
+        if (typeof exists !== 'number') {
+          results.push({ url, success: false, error: 'Not found in saved list' });
+          continue;
+        }
+
+        await requestJson(`${this.baseUrl}/api/entries/${exists}.json`, {
+          method: 'PATCH',
+          headers,
+          form: { archive: '1' },
+          timeout: this.timeouts.request,
+        });
+        results.push({ url, success: true });
+      } catch (error) {
+        results.push({ url, success: false, error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  private toArticle(entry: WallabagEntry): ReadLaterArticle {
+    const tags = (entry.tags || []).map(tag => tag.label);
+    const authors = (entry.published_by || []).filter(Boolean);
+
+    return {
+      title: entry.title || 'Untitled',
+      url: entry.url,
+      excerpt: entry.content ? excerptFromHtml(entry.content) : undefined,
+      author: authors.length > 0 ? authors.join(', ') : undefined,
+      publicationDate: entry.published_at || undefined,
+      source: this.displayName,
+      addedDate: new Date(entry.created_at),
+      tags: tags.length > 0 ? tags : undefined,
+      // Wallabag stores the extracted article, so full text needs no extra page visits
+      content: this.config.fetchFullText && entry.content ? htmlToMarkdown(entry.content, entry.url) : undefined,
+    };
+  }
+}
@@ -1,29 +1,44 @@
-import { BrowserProvider } from './base';
-import { ReadLaterArticle } from '../types';
+import { BrowserProvider, ItemSelectors, ArchiveSelectors } from './base';
+import { PaginationStrategy } from './pagination';
 
 export class WiredProvider extends BrowserProvider {
   name = 'wired';
   displayName = 'Wired.com';
   loginUrl = 'https://www.wired.com/account/sign-in';
   readLaterUrl = 'https://www.wired.com/saved-stories';
+  selectors: ItemSelectors = {
+    item: '.saved-story',
+    title: 'h3, h2, .title',
+    excerpt: '.excerpt, .dek',
+    author: '.author, [data-testid="author"]',
+  };
+  pagination: PaginationStrategy = {
+    type: 'load-more',
+    buttonSelector: 'button[data-testid="load-more"], .load-more button',
+    itemSelector: '.saved-story',
+  };
+  archive: ArchiveSelectors = {
+    itemSelector: '.saved-story',
+    buttonSelector: 'button[aria-label*="Remove"], button[data-testid="save-button"]',
+  };
 
   async performLogin(): Promise<void> {
     if (!this.page) throw new Error('Page not initialized');
 
     // Wait for login form
-    await this.page.waitForSelector('input[type="email"]', { timeout: 10000 });
+    await this.page.waitForSelector('input[type="email"]', { timeout: this.timeouts.element });
 
     // Enter credentials
     await this.page.fill('input[type="email"]', this.config.credentials.username || '');
     await this.page.click('button[type="submit"]');
 
     // Wait for password field
-    await this.page.waitForSelector('input[type="password"]', { timeout: 10000 });
+    await this.page.waitForSelector('input[type="password"]', { timeout: this.timeouts.element });
     await this.page.fill('input[type="password"]', this.config.credentials.password || '');
     await this.page.click('button[type="submit"]');
 
     // Wait for redirect after login
-    await this.page.waitForNavigation({ timeout: 15000 }).catch(() => {});
+    await this.page.waitForNavigation({ timeout: this.timeouts.login }).catch(() => {});
   }
 
   async isAuthenticated(): Promise<boolean> {
@@ -32,36 +47,10 @@ export class WiredProvider extends BrowserProvider {
     try {
       // Check if we can access saved stories
       await this.page.goto(this.readLaterUrl);
-      await this.page.waitForSelector('.saved-story', { timeout: 5000 });
+      await this.page.waitForSelector(this.selectors.item, { timeout: this.timeouts.loggedIn });
       return true;
     } catch {
       return false;
     }
   }
-
-  async extractArticles(): Promise<ReadLaterArticle[]> {
-    if (!this.page) return [];
-
-    const articles = await this.page.$$eval('.saved-story', (elements) => {
-      return elements.map(el => {
-        const titleEl = el.querySelector('h3, h2, .title');
-        const linkEl = el.querySelector('a');
-        const excerptEl = el.querySelector('.excerpt, .dek');
-        const authorEl = el.querySelector('.author, [data-testid="author"]');
-
-        return {
-          title: titleEl?.textContent?.trim() || 'Untitled',
-          url: linkEl?.getAttribute('href') || '',
-          excerpt: excerptEl?.textContent?.trim(),
-          author: authorEl?.textContent?.trim(),
-        };
-      });
-    });
-
-    return articles.map(article => ({
-      ...article,
-      source: this.displayName,
-      addedDate: new Date(),
-    }));
-  }
 }
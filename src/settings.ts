@@ -1,27 +1,36 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, ButtonComponent, Notice, PluginSettingTab, Setting } from 'obsidian';
 import ReadLaterPlugin from './main';
+import { SessionStore } from './providers/session-store';
+import { ProviderRegistry } from './providers/registry';
+import { CustomProviderDefinition, validateCustomProvider } from './providers/custom';
+import { DEFAULT_TEMPLATE, SAMPLE_ARTICLE, formatArticle } from './template/article';
+import { formatDuration } from './sync/history';
+import { describeCredential } from './credentials/references';
+
+// Runs listed under Sync History
+const HISTORY_RUNS_SHOWN = 10;
 
 export const DEFAULT_SETTINGS: ReadLaterSettings = {
+  outputMode: 'file',
   outputFile: 'ReadLater/Clippings.md',
+  notesFolder: 'ReadLater/Articles',
+  indexFile: 'ReadLater/.readlater-index.json',
+  feedFile: '',
+  historyFile: 'ReadLater/.readlater-history.json',
+  syncLogNote: '',
   providers: {},
+  customProviders: [],
   syncInterval: 0,
+  retries: 2,
+  retryDelay: 5,
+  concurrency: 3,
   headlessMode: false,
+  persistSessions: true,
+  sessionDir: '',
+  writeBackDryRun: false,
   appendMode: true,
   dateFormat: 'YYYY-MM-DD',
-  template: `## {{title}}
-- **Source:** {{source}}
-- **URL:** {{url}}
-- **Author:** {{author}}
-- **Date:** {{date}}
-{{#if excerpt}}
-- **Excerpt:** {{excerpt}}
-{{/if}}
-{{#if tags}}
-- **Tags:** {{tags}}
-{{/if}}
-
----
-`
+  template: DEFAULT_TEMPLATE
 };
 
 export class ReadLaterSettingTab extends PluginSettingTab {
@@ -38,6 +47,33 @@ export class ReadLaterSettingTab extends PluginSettingTab {
 
     containerEl.createEl('h2', { text: 'Read Later Sync Settings' });
 
+    // Output mode
+    new Setting(containerEl)
+      .setName('Output mode')
+      .setDesc('Save all articles to a single file, or each article as its own note with frontmatter')
+      .addDropdown(dropdown => dropdown
+        .addOption('file', 'Single file')
+        .addOption('notes', 'One note per article')
+        .setValue(this.plugin.settings.outputMode)
+        .onChange(async (value) => {
+          this.plugin.settings.outputMode = value as OutputMode;
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    if (this.plugin.settings.outputMode === 'notes') {
+      new Setting(containerEl)
+        .setName('Notes folder')
+        .setDesc('Folder where article notes will be created')
+        .addText(text => text
+          .setPlaceholder('ReadLater/Articles')
+          .setValue(this.plugin.settings.notesFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.notesFolder = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
     // Output file setting
     new Setting(containerEl)
       .setName('Output file')
@@ -50,10 +86,22 @@ export class ReadLaterSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    // RSS feed
+    new Setting(containerEl)
+      .setName('RSS feed file')
+      .setDesc('Write an RSS feed of the articles fetched by each sync to this file, to subscribe from other readers (empty = off)')
+      .addText(text => text
+        .setPlaceholder('ReadLater/Reading Queue.xml')
+        .setValue(this.plugin.settings.feedFile)
+        .onChange(async (value) => {
+          this.plugin.settings.feedFile = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
     // Append mode
     new Setting(containerEl)
       .setName('Append mode')
-      .setDesc('Append new articles to existing file (vs replacing)')
+      .setDesc('Add new articles to the synced list instead of rewriting it. Your notes outside the list and under each article are kept either way')
       .addToggle(toggle => toggle
         .setValue(this.plugin.settings.appendMode)
         .onChange(async (value) => {
@@ -61,6 +109,8 @@ export class ReadLaterSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    this.addTemplateSettings();
+
     // Sync interval
     new Setting(containerEl)
       .setName('Auto-sync interval')
@@ -77,6 +127,48 @@ export class ReadLaterSettingTab extends PluginSettingTab {
           }
         }));
 
+    new Setting(containerEl)
+      .setName('Retries')
+      .setDesc('Extra attempts when a provider fails with a network error or rate limit (0 = no retries)')
+      .addText(text => text
+        .setPlaceholder('2')
+        .setValue(String(this.plugin.settings.retries))
+        .onChange(async (value) => {
+          const numValue = parseInt(value);
+          if (!isNaN(numValue) && numValue >= 0) {
+            this.plugin.settings.retries = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Retry delay')
+      .setDesc('Seconds to wait before the first retry; doubled for each retry after that')
+      .addText(text => text
+        .setPlaceholder('5')
+        .setValue(String(this.plugin.settings.retryDelay))
+        .onChange(async (value) => {
+          const numValue = parseFloat(value);
+          if (!isNaN(numValue) && numValue >= 0) {
+            this.plugin.settings.retryDelay = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Parallel syncs')
+      .setDesc('How many providers to sync at the same time. Browser providers share one browser, each with its own session')
+      .addText(text => text
+        .setPlaceholder('3')
+        .setValue(String(this.plugin.settings.concurrency))
+        .onChange(async (value) => {
+          const numValue = parseInt(value);
+          if (!isNaN(numValue) && numValue >= 1) {
+            this.plugin.settings.concurrency = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
     // Headless mode
     new Setting(containerEl)
       .setName('Headless mode')
@@ -88,6 +180,41 @@ export class ReadLaterSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    // Session persistence
+    new Setting(containerEl)
+      .setName('Remember logins')
+      .setDesc('Keep browser sessions between syncs so sites only ask you to log in when the session expires. Sessions are stored outside the vault, readable only by your user.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.persistSessions)
+        .onChange(async (value) => {
+          this.plugin.settings.persistSessions = value;
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('Clear saved sessions')
+        .onClick(() => {
+          const count = new SessionStore(this.plugin.settings.sessionDir).clearAll();
+          new Notice(`Cleared ${count} saved session(s)`);
+        }));
+
+    // Write-back
+    new Setting(containerEl)
+      .setName('Write-back dry run')
+      .setDesc('For providers with "Archive read articles" on, only report which articles would be archived instead of archiving them. Mark articles read by ticking their checkbox, or with "status: read" in notes mode.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.writeBackDryRun)
+        .onChange(async (value) => {
+          this.plugin.settings.writeBackDryRun = value;
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('Preview')
+        .onClick(async () => {
+          await this.plugin.previewWriteBack();
+        }));
+
+    this.addEncryptionSettings();
+
     // Provider settings
     containerEl.createEl('h3', { text: 'News Site Providers' });
 
@@ -96,17 +223,285 @@ export class ReadLaterSettingTab extends PluginSettingTab {
     this.addProviderSettings('hbr', 'Harvard Business Review');
     this.addProviderSettings('medium', 'Medium');
     this.addProviderSettings('irishtimes', 'Irish Times');
+
+    for (const definition of this.plugin.settings.customProviders) {
+      this.addProviderSettings(definition.id, definition.displayName);
+    }
+
+    containerEl.createEl('h3', { text: 'Read-Later Services' });
+
+    this.addApiProviderSettings('pocket', 'Pocket', [
+      { key: 'apiKey', name: 'Consumer key', placeholder: 'consumer key' },
+      { key: 'sessionToken', name: 'Access token', desc: 'Run "readlater-sync --authorize-pocket <consumer key>" to get one', placeholder: 'access token', secret: true },
+    ]);
+    this.addApiProviderSettings('instapaper', 'Instapaper', [
+      { key: 'apiKey', name: 'OAuth consumer key', placeholder: 'consumer key' },
+      { key: 'apiSecret', name: 'OAuth consumer secret', placeholder: 'consumer secret', secret: true },
+      { key: 'username', name: 'Username/Email', placeholder: 'username or email' },
+      { key: 'password', name: 'Password', placeholder: 'password', secret: true },
+    ]);
+    this.addApiProviderSettings('wallabag', 'Wallabag', [
+      { key: 'serverUrl', name: 'Server URL', desc: 'Your Wallabag instance; leave empty for wallabag.it', placeholder: 'https://wallabag.example.com' },
+      { key: 'apiKey', name: 'Client ID', desc: 'Create an API client under "API clients management"', placeholder: 'client id' },
+      { key: 'apiSecret', name: 'Client secret', placeholder: 'client secret', secret: true },
+      { key: 'username', name: 'Username', placeholder: 'username' },
+      { key: 'password', name: 'Password', placeholder: 'password', secret: true },
+    ]);
+
+    this.addCustomProviderSettings();
+    this.addHistorySettings();
   }
 
-  private addProviderSettings(providerId: string, displayName: string): void {
+  /**
+   * Master passphrase for encrypting credentials in data.json, and the lock state
+   */
+  private addEncryptionSettings(): void {
+    const { containerEl } = this;
+    const store = this.plugin.credentialStore;
+
+    containerEl.createEl('h3', { text: 'Credential Encryption' });
+
+    if (!store.enabled) {
+      new Setting(containerEl)
+        .setName('Encrypt credentials')
+        .setDesc('Credentials are stored as plain text in this plugin\'s data.json, which Obsidian Sync and Git copy to other devices. Set a master passphrase to encrypt them; you will be asked for it once each time Obsidian starts.')
+        .addButton(button => button
+          .setButtonText('Set passphrase')
+          .setCta()
+          .onClick(async () => {
+            if (await this.plugin.setCredentialPassphrase()) {
+              new Notice('Credentials encrypted');
+              this.display();
+            }
+          }));
+      return;
+    }
+
+    if (store.locked) {
+      new Setting(containerEl)
+        .setName('Credentials are locked')
+        .setDesc('Unlock with the master passphrase to sync or to edit credentials. Auto-sync is paused until then.')
+        .addButton(button => button
+          .setButtonText('Unlock')
+          .setCta()
+          .onClick(async () => {
+            if (await this.plugin.unlockCredentials()) {
+              this.display();
+            }
+          }));
+      return;
+    }
+
+    new Setting(containerEl)
+      .setName('Credentials are encrypted')
+      .setDesc('Unlocked for this session. Lock them to pause syncing until the passphrase is entered again.')
+      .addButton(button => button
+        .setButtonText('Lock')
+        .onClick(() => {
+          this.plugin.lockCredentials();
+          this.display();
+        }))
+      .addButton(button => button
+        .setButtonText('Change passphrase')
+        .onClick(async () => {
+          if (await this.plugin.setCredentialPassphrase()) {
+            new Notice('Passphrase changed');
+          }
+        }))
+      .addButton(button => button
+        .setButtonText('Turn off')
+        .setWarning()
+        .onClick(async () => {
+          await this.plugin.disableEncryption();
+          if (!this.plugin.credentialStore.enabled) {
+            new Notice('Credentials are stored as plain text again');
+          }
+          this.display();
+        }));
+  }
+
+  /**
+   * Sync Log note path and the most recent runs from the history file
+   */
+  private addHistorySettings(): void {
+    const { containerEl } = this;
+    containerEl.createEl('h3', { text: 'Sync History' });
+
+    new Setting(containerEl)
+      .setName('Sync Log note')
+      .setDesc('Keep a note with a table of every sync run, rewritten after each run (empty = off)')
+      .addText(text => text
+        .setPlaceholder('ReadLater/Sync Log.md')
+        .setValue(this.plugin.settings.syncLogNote)
+        .onChange(async (value) => {
+          this.plugin.settings.syncLogNote = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    const historyEl = containerEl.createEl('div', { cls: 'readlater-history' });
+
+    this.plugin.engine.readHistory().then(history => {
+      const runs = history.recent(HISTORY_RUNS_SHOWN);
+      if (runs.length === 0) {
+        historyEl.createEl('p', { text: 'No syncs recorded yet.' });
+        return;
+      }
+
+      for (const { provider, since } of history.emptyProviders()) {
+        historyEl.createEl('p', {
+          text: `${provider} has returned no articles since ${since.toLocaleString()}`,
+          cls: 'readlater-settings-error',
+        });
+      }
+
+      const table = historyEl.createEl('table');
+      const header = table.createEl('tr');
+      for (const label of ['Time', 'Trigger', 'Duration', 'New', 'Seen', 'Providers']) {
+        header.createEl('th', { text: label });
+      }
+
+      for (const run of runs) {
+        const errors = run.results
+          .filter(result => !result.success)
+          .map(result => `${result.provider}: ${result.error}`)
+          .concat(run.error ? [run.error] : []);
+        const row = table.createEl('tr');
+        row.createEl('td', { text: new Date(run.startedAt).toLocaleString() });
+        row.createEl('td', { text: run.trigger });
+        row.createEl('td', { text: formatDuration(run.durationMs) });
+        row.createEl('td', { text: String(run.newArticles) });
+        row.createEl('td', { text: String(run.seenArticles) });
+        row.createEl('td', {
+          text: errors.length > 0 ? errors.join('; ') : `${run.results.length} ok`,
+          cls: errors.length > 0 ? 'readlater-settings-error' : undefined,
+        });
+      }
+    }).catch(error => {
+      historyEl.createEl('p', { text: `Could not read sync history: ${error.message}`, cls: 'readlater-settings-error' });
+    });
+  }
+
+  /**
+   * Template and date format editors with a live preview rendered from a sample article
+   */
+  private addTemplateSettings(): void {
     const { containerEl } = this;
 
+    containerEl.createEl('h3', { text: 'Article Template' });
+
+    const templateSetting = new Setting(containerEl)
+      .setName('Template')
+      .setDesc('How each article is written. Supports {{field | filter}}, {{#if}}/{{else}} and {{#each tags}}; see the README for fields and filters.');
+
+    const errorEl = containerEl.createEl('div', { cls: 'readlater-settings-error' });
+    containerEl.createEl('div', { text: 'Preview', cls: 'readlater-template-preview-label' });
+    const previewEl = containerEl.createEl('pre', { cls: 'readlater-template-preview' });
+
+    let draft = this.plugin.settings.template;
+
+    const updatePreview = () => {
+      try {
+        previewEl.setText(formatArticle(SAMPLE_ARTICLE, draft, { dateFormat: this.plugin.settings.dateFormat }));
+        errorEl.setText('');
+        return true;
+      } catch (error) {
+        errorEl.setText(error.message);
+        return false;
+      }
+    };
+
+    templateSetting.addTextArea(text => {
+      text.inputEl.rows = 12;
+      text.inputEl.addClass('readlater-template');
+      text
+        .setValue(this.plugin.settings.template)
+        .onChange(async (value) => {
+          draft = value;
+          // Only save templates that compile, so a half-typed edit can't break syncing
+          if (updatePreview()) {
+            this.plugin.settings.template = value;
+            await this.plugin.saveSettings();
+          }
+        });
+    });
+
+    new Setting(containerEl)
+      .setName('Date format')
+      .setDesc('Default format for dates such as {{addedDate}}, using YYYY, MM, DD, HH, mm, MMM, ddd tokens')
+      .addText(text => text
+        .setPlaceholder('YYYY-MM-DD')
+        .setValue(this.plugin.settings.dateFormat)
+        .onChange(async (value) => {
+          this.plugin.settings.dateFormat = value || DEFAULT_SETTINGS.dateFormat;
+          await this.plugin.saveSettings();
+          updatePreview();
+        }));
+
+    updatePreview();
+  }
+
+  private addCustomProviderSettings(): void {
+    const { containerEl } = this;
+
+    containerEl.createEl('h3', { text: 'Custom Providers' });
+
+    const setting = new Setting(containerEl)
+      .setName('Custom provider definitions')
+      .setDesc('JSON array describing additional sites by login steps and CSS selectors. See the README for the format. Reopen settings to configure credentials for new providers.');
+
+    const errorEl = containerEl.createEl('div', { cls: 'readlater-settings-error' });
+    const builtInNames = new ProviderRegistry({ ...this.plugin.settings, customProviders: [] }).getAllProviderNames();
+
+    setting.addTextArea(text => {
+      text.inputEl.rows = 12;
+      text.inputEl.addClass('readlater-custom-providers');
+      text
+        .setPlaceholder('[]')
+        .setValue(JSON.stringify(this.plugin.settings.customProviders, null, 2))
+        .onChange(async (value) => {
+          let definitions: CustomProviderDefinition[];
+          try {
+            definitions = value.trim() ? JSON.parse(value) : [];
+          } catch (error) {
+            errorEl.setText(`Invalid JSON: ${error.message}`);
+            return;
+          }
+
+          if (!Array.isArray(definitions)) {
+            errorEl.setText('Custom providers must be a JSON array');
+            return;
+          }
+
+          const errors = definitions.flatMap(definition => validateCustomProvider(definition));
+          for (const definition of definitions) {
+            if (builtInNames.includes(definition.id)) {
+              errors.push(`${definition.id}: conflicts with a built-in provider`);
+            }
+          }
+
+          if (errors.length > 0) {
+            errorEl.setText(errors.join('\n'));
+            return;
+          }
+
+          errorEl.setText('');
+          this.plugin.settings.customProviders = definitions;
+          await this.plugin.saveSettings();
+          this.plugin.refreshProviderRegistry();
+        });
+    });
+  }
+
+  /**
+   * Add the enable toggle for a provider and return its current config
+   */
+  private addProviderToggle(providerId: string, displayName: string): ProviderConfig {
     const providerConfig = this.plugin.settings.providers[providerId] || {
       enabled: false,
       credentials: {}
     };
 
-    new Setting(containerEl)
+    new Setting(this.containerEl)
       .setName(displayName)
       .setDesc(`Enable syncing from ${displayName}`)
       .addToggle(toggle => toggle
@@ -123,31 +518,205 @@ export class ReadLaterSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    return providerConfig;
+  }
+
+  private addProviderSettings(providerId: string, displayName: string): void {
+    const { containerEl } = this;
+    const providerConfig = this.addProviderToggle(providerId, displayName);
+
     if (providerConfig.enabled) {
+      if (this.plugin.credentialStore.locked) {
+        this.addLockedCredentialsNotice(displayName);
+      } else {
+        this.addCredentialSettings(providerId, displayName);
+      }
+
       new Setting(containerEl)
-        .setName(`${displayName} - Username/Email`)
-        .addText(text => text
-          .setPlaceholder('username or email')
-          .setValue(providerConfig.credentials.username || '')
+        .setName(`${displayName} - Fetch full text`)
+        .setDesc('Visit each article and save its content as Markdown (slower)')
+        .addToggle(toggle => toggle
+          .setValue(providerConfig.fetchFullText || false)
           .onChange(async (value) => {
-            this.plugin.settings.providers[providerId].credentials.username = value;
+            this.plugin.settings.providers[providerId].fetchFullText = value;
             await this.plugin.saveSettings();
           }));
 
+      this.addWriteBackSetting(providerId, displayName);
+    }
+  }
+
+  /**
+   * Stand-in for a provider's credential fields while they are locked
+   */
+  private addLockedCredentialsNotice(displayName: string): void {
+    new Setting(this.containerEl)
+      .setName(`${displayName} - Credentials`)
+      .setDesc('Locked. Unlock credentials above to view or change them.');
+  }
+
+  private addCredentialSettings(providerId: string, displayName: string): void {
+    const { containerEl } = this;
+
+    this.addCredentialField(
+      new Setting(containerEl).setName(`${displayName} - Username/Email`),
+      providerId, 'username', 'username or email'
+    );
+
+    this.addCredentialField(
+      new Setting(containerEl).setName(`${displayName} - Password`),
+      providerId, 'password', 'password', true
+    );
+
+    this.addCredentialField(
       new Setting(containerEl)
-        .setName(`${displayName} - Password`)
-        .addText(text => {
-          text.inputEl.type = 'password';
-          text
-            .setPlaceholder('password')
-            .setValue(providerConfig.credentials.password || '')
-            .onChange(async (value) => {
-              this.plugin.settings.providers[providerId].credentials.password = value;
-              await this.plugin.saveSettings();
-            });
+        .setName(`${displayName} - Session token`)
+        .setDesc('Alternative to username/password for sites that sign in with magic links: paste the session cookie value or a "name=value; other=value" cookie string'),
+      providerId, 'sessionToken', 'session cookie', true
+    );
+  }
+
+  /**
+   * Text field for one credential, labelled as plain text or a reference to a secret manager,
+   * with a button that checks a reference resolves without showing the secret
+   */
+  private addCredentialField(
+    setting: Setting,
+    providerId: string,
+    key: keyof ProviderCredentials,
+    placeholder: string,
+    secret = false
+  ): void {
+    const kindEl = setting.nameEl.createEl('span', { cls: 'readlater-credential-kind' });
+    const current = () => this.plugin.settings.providers[providerId].credentials[key] || '';
+    let testButton: ButtonComponent | null = null;
+
+    const showKind = (value: string) => {
+      const description = describeCredential(value);
+      kindEl.setText(description.label);
+      kindEl.setAttribute('title', description.error || '');
+      kindEl.toggleClass('is-reference', description.reference && !description.error);
+      kindEl.toggleClass('is-invalid', !!description.error);
+      testButton?.setDisabled(!description.reference || !!description.error);
+    };
+
+    setting.addText(text => {
+      if (secret) {
+        text.inputEl.type = 'password';
+      }
+      text
+        .setPlaceholder(placeholder)
+        .setValue(current())
+        .onChange(async (value) => {
+          this.plugin.settings.providers[providerId].credentials[key] = value;
+          showKind(value);
+          await this.plugin.saveSettings();
+        });
+    });
+
+    setting.addButton(button => {
+      testButton = button;
+      button
+        .setButtonText('Test resolve')
+        .setTooltip('Check the reference resolves, without showing its value')
+        .onClick(async () => {
+          button.setDisabled(true);
+          try {
+            await this.plugin.resolveCredential(current());
+            kindEl.setText(`${describeCredential(current()).label} ✓`);
+            new Notice(`The ${key} reference resolves`);
+          } catch (error) {
+            kindEl.setText(`${describeCredential(current()).label} ✗`);
+            new Notice(`Could not resolve ${key}: ${error.message}`);
+          } finally {
+            button.setDisabled(false);
+          }
         });
+    });
+
+    showKind(current());
+  }
+
+  /**
+   * Opt-in toggle for archiving read articles upstream, shown only where the provider supports it
+   */
+  private addWriteBackSetting(providerId: string, displayName: string): void {
+    const provider = this.plugin.providerRegistry.getAllProviders().find(p => p.name === providerId);
+    if (!provider?.supportsArchive()) {
+      return;
+    }
+
+    new Setting(this.containerEl)
+      .setName(`${displayName} - Archive read articles`)
+      .setDesc(`Remove articles you've marked read in Obsidian from your ${displayName} saved list when syncing`)
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.providers[providerId].writeBack || false)
+        .onChange(async (value) => {
+          this.plugin.settings.providers[providerId].writeBack = value;
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  /**
+   * Settings for API providers, which each need a different set of credentials
+   */
+  private addApiProviderSettings(providerId: string, displayName: string, fields: ApiProviderField[]): void {
+    const { containerEl } = this;
+    const providerConfig = this.addProviderToggle(providerId, displayName);
+
+    if (!providerConfig.enabled) {
+      return;
+    }
+
+    const locked = this.plugin.credentialStore.locked;
+    if (locked) {
+      this.addLockedCredentialsNotice(displayName);
+    }
+
+    for (const field of fields) {
+      if (locked && field.key !== 'serverUrl') continue;
+
+      const setting = new Setting(containerEl).setName(`${displayName} - ${field.name}`);
+      if (field.desc) {
+        setting.setDesc(field.desc);
+      }
+
+      if (field.key !== 'serverUrl') {
+        this.addCredentialField(setting, providerId, field.key, field.placeholder || '', field.secret);
+        continue;
+      }
+
+      setting.addText(text => text
+        .setPlaceholder(field.placeholder || '')
+        .setValue(this.plugin.settings.providers[providerId].serverUrl || '')
+        .onChange(async (value) => {
+          this.plugin.settings.providers[providerId].serverUrl = value.trim() || undefined;
+          await this.plugin.saveSettings();
+        }));
+    }
+
+    if (providerId === 'wallabag') {
+      new Setting(containerEl)
+        .setName(`${displayName} - Include full text`)
+        .setDesc('Save the article content Wallabag has already extracted')
+        .addToggle(toggle => toggle
+          .setValue(providerConfig.fetchFullText || false)
+          .onChange(async (value) => {
+            this.plugin.settings.providers[providerId].fetchFullText = value;
+            await this.plugin.saveSettings();
+          }));
     }
+
+    this.addWriteBackSetting(providerId, displayName);
   }
 }
 
-import type { ReadLaterSettings } from './types';
+interface ApiProviderField {
+  key: keyof ProviderCredentials | 'serverUrl';
+  name: string;
+  desc?: string;
+  placeholder?: string;
+  secret?: boolean;
+}
+
+import type { OutputMode, ProviderConfig, ProviderCredentials, ReadLaterSettings } from './types';
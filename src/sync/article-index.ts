@@ -0,0 +1,261 @@
+import { ArticleStatus, ReadLaterArticle } from '../types';
+
+export interface ArticleIndexEntry {
+  url: string;
+  title: string;
+  source: string;
+  addedDate: string;
+  status?: ArticleStatus; // missing means unread
+  // Kept so the feed and exports can list the whole queue
+  author?: string;
+  publicationDate?: string;
+  excerpt?: string;
+  tags?: string[];
+}
+
+interface ArticleIndexData {
+  version: number;
+  entries: Record<string, ArticleIndexEntry>;
+  lastSync?: Record<string, string>; // provider name -> ISO date
+}
+
+const INDEX_VERSION = 1;
+
+// Source of articles recovered from a file that doesn't say where they came from
+export const UNKNOWN_SOURCE = 'Unknown';
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = [/^utm_/, /^fbclid$/, /^gclid$/, /^mc_(cid|eid)$/, /^ref$/, /^source$/];
+
+/**
+ * Normalize a URL so the same article saved from different places
+ * (tracking params, trailing slashes, www prefix) maps to one key
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim().toLowerCase();
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const path = parsed.pathname.replace(/\/+$/, '');
+
+  const params: string[] = [];
+  parsed.searchParams.forEach((value, key) => {
+    if (!TRACKING_PARAMS.some(pattern => pattern.test(key))) {
+      params.push(`${key}=${value}`);
+    }
+  });
+  params.sort();
+
+  const query = params.length > 0 ? `?${params.join('&')}` : '';
+  return `${host}${path}${query}`;
+}
+
+/**
+ * The article an index entry records, without its full text
+ */
+export function entryToArticle(entry: ArticleIndexEntry): ReadLaterArticle {
+  return {
+    title: entry.title,
+    url: entry.url,
+    source: entry.source,
+    addedDate: new Date(entry.addedDate),
+    author: entry.author,
+    publicationDate: entry.publicationDate,
+    excerpt: entry.excerpt,
+    tags: entry.tags,
+    status: entry.status || 'unread',
+  };
+}
+
+/**
+ * The details of an article that are refreshed each time it is fetched
+ */
+function articleDetails(article: ReadLaterArticle): Partial<ArticleIndexEntry> {
+  const details: Partial<ArticleIndexEntry> = { title: article.title };
+  if (article.author) details.author = article.author;
+  if (article.publicationDate) details.publicationDate = article.publicationDate;
+  if (article.excerpt) details.excerpt = article.excerpt;
+  if (article.tags && article.tags.length > 0) details.tags = article.tags;
+  return details;
+}
+
+/**
+ * Persistent record of articles already written to the vault,
+ * keyed on normalized URL
+ */
+export class ArticleIndex {
+  private entries: Map<string, ArticleIndexEntry>;
+  private lastSync: Record<string, string> = {};
+
+  constructor(entries: ArticleIndexEntry[] = []) {
+    this.entries = new Map();
+    for (const entry of entries) {
+      this.entries.set(normalizeUrl(entry.url), entry);
+    }
+  }
+
+  /**
+   * Load an index from its serialized form; missing or corrupt data yields an empty index
+   */
+  static fromJSON(json: string | null): ArticleIndex {
+    if (!json) {
+      return new ArticleIndex();
+    }
+
+    try {
+      const data: ArticleIndexData = JSON.parse(json);
+      const index = new ArticleIndex(Object.values(data.entries || {}));
+      index.lastSync = { ...data.lastSync };
+      return index;
+    } catch (error) {
+      console.error('Failed to parse article index, starting fresh:', error);
+      return new ArticleIndex();
+    }
+  }
+
+  toJSON(): string {
+    const data: ArticleIndexData = {
+      version: INDEX_VERSION,
+      entries: {},
+      lastSync: this.lastSync
+    };
+
+    for (const [key, entry] of this.entries) {
+      data.entries[key] = entry;
+    }
+
+    return JSON.stringify(data, null, 2);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(url: string): boolean {
+    return this.entries.has(normalizeUrl(url));
+  }
+
+  /**
+   * Record an article; returns false if it was already indexed
+   * An indexed article gets its details refreshed, keeping its added date and status,
+   * and a source if a rebuild couldn't tell where it came from.
+   */
+  add(article: ReadLaterArticle): boolean {
+    if (!article.url) {
+      return false;
+    }
+
+    const existing = this.entries.get(normalizeUrl(article.url));
+    if (existing) {
+      Object.assign(existing, articleDetails(article));
+      if (existing.source === UNKNOWN_SOURCE) {
+        existing.source = article.source;
+      }
+      return false;
+    }
+
+    this.entries.set(normalizeUrl(article.url), {
+      url: article.url,
+      title: article.title,
+      source: article.source,
+      addedDate: new Date(article.addedDate).toISOString(),
+      ...articleDetails(article),
+    });
+    return true;
+  }
+
+  get(url: string): ArticleIndexEntry | undefined {
+    return this.entries.get(normalizeUrl(url));
+  }
+
+  all(): ArticleIndexEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Return only the articles not yet indexed, recording them as it goes
+   * so duplicates within the same batch are dropped too
+   */
+  filterNew(articles: ReadLaterArticle[]): ReadLaterArticle[] {
+    return articles.filter(article => this.add(article));
+  }
+
+  getSource(url: string): string | undefined {
+    return this.entries.get(normalizeUrl(url))?.source;
+  }
+
+  getStatus(url: string): ArticleStatus {
+    return this.entries.get(normalizeUrl(url))?.status || 'unread';
+  }
+
+  /**
+   * Update an indexed article's read state; returns false if the article isn't indexed
+   */
+  setStatus(url: string, status: ArticleStatus): boolean {
+    const entry = this.entries.get(normalizeUrl(url));
+    if (!entry) {
+      return false;
+    }
+
+    if (status === 'unread') {
+      delete entry.status;
+    } else {
+      entry.status = status;
+    }
+    return true;
+  }
+
+  /**
+   * Indexed articles with the given status, optionally only those from one source
+   */
+  withStatus(status: ArticleStatus, source?: string): ArticleIndexEntry[] {
+    return Array.from(this.entries.values()).filter(entry =>
+      (entry.status || 'unread') === status && (source === undefined || entry.source === source)
+    );
+  }
+
+  getLastSync(provider: string): Date | undefined {
+    const date = this.lastSync[provider];
+    return date ? new Date(date) : undefined;
+  }
+
+  setLastSync(provider: string, date: Date): void {
+    this.lastSync[provider] = date.toISOString();
+  }
+
+  /**
+   * Forget every indexed article; last sync times are kept
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Replace every indexed article with these; returns the number of entries indexed
+   */
+  rebuild(articles: ReadLaterArticle[]): number {
+    this.clear();
+    this.filterNew(articles);
+    return this.size;
+  }
+
+  /**
+   * Rebuild the index from an output file without managed markers by collecting every URL in it
+   * Returns the number of entries indexed
+   */
+  rebuildFromContent(content: string, source = UNKNOWN_SOURCE): number {
+    const urlPattern = /https?:\/\/[^\s<>()[\]"'`]+/g;
+    const now = new Date();
+
+    return this.rebuild((content.match(urlPattern) || []).map(match => ({
+      title: '',
+      url: match.replace(/[.,;:!?*_]+$/, ''),
+      source,
+      addedDate: now,
+    })));
+  }
+}
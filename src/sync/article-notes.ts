@@ -0,0 +1,248 @@
+import { ReadLaterArticle } from '../types';
+import { UNKNOWN_SOURCE, normalizeUrl } from './article-index';
+
+export interface ExistingNote {
+  path: string;
+  content: string;
+}
+
+export interface NoteWrite {
+  path: string;
+  content: string;
+  created: boolean;
+}
+
+// Frontmatter keys owned by the sync; everything else in a note's frontmatter is left alone
+const MANAGED_KEYS = ['url', 'source', 'author', 'publicationDate', 'addedDate', 'tags', 'status'];
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+const DEFAULT_STATUS = 'unread';
+
+/**
+ * Turn a title into a filename that is safe on every platform
+ */
+export function slugify(title: string, maxLength = 80): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, maxLength)
+    .replace(/-+$/, '');
+
+  return slug || 'untitled';
+}
+
+function yamlString(value: string): string {
+  // JSON strings are valid double-quoted YAML scalars
+  return JSON.stringify(value);
+}
+
+function formatDate(date: Date | string): string {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? String(date) : parsed.toISOString();
+}
+
+/**
+ * Split a note into its frontmatter block (without delimiters) and body
+ */
+export function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { frontmatter: null, body: content };
+  }
+
+  return { frontmatter: match[1], body: content.substring(match[0].length) };
+}
+
+/**
+ * Group frontmatter lines by top-level key, keeping nested/list lines with their key
+ */
+function parseFrontmatterEntries(frontmatter: string): Array<{ key: string | null; lines: string[] }> {
+  const entries: Array<{ key: string | null; lines: string[] }> = [];
+
+  for (const line of frontmatter.split(/\r?\n/)) {
+    const keyMatch = line.match(/^([A-Za-z0-9_-]+):/);
+    if (keyMatch || entries.length === 0) {
+      entries.push({ key: keyMatch ? keyMatch[1] : null, lines: [line] });
+    } else {
+      entries[entries.length - 1].lines.push(line);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Read a scalar value from a frontmatter block
+ */
+export function getFrontmatterValue(frontmatter: string, key: string): string | null {
+  const entry = parseFrontmatterEntries(frontmatter).find(e => e.key === key);
+  if (!entry) {
+    return null;
+  }
+
+  const raw = entry.lines[0].substring(key.length + 1).trim();
+  if (raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+
+  return raw.replace(/^'(.*)'$/, '$1');
+}
+
+/**
+ * The text of the first heading among rendered lines, which the templates use for the title
+ */
+export function headingTitle(lines: string[]): string {
+  const heading = lines.find(line => /^#{1,6}\s/.test(line));
+  return heading ? heading.replace(/^#{1,6}\s+/, '').trim() : '';
+}
+
+/**
+ * The article a note was written for, from its frontmatter and first heading; null without a url
+ */
+export function readArticleNote(note: ExistingNote): ReadLaterArticle | null {
+  const { frontmatter, body } = splitFrontmatter(note.content);
+  const url = frontmatter !== null ? getFrontmatterValue(frontmatter, 'url') : null;
+  if (frontmatter === null || !url) {
+    return null;
+  }
+
+  const addedDate = getFrontmatterValue(frontmatter, 'addedDate');
+  return {
+    title: headingTitle(body.split(/\r?\n/)),
+    url,
+    source: getFrontmatterValue(frontmatter, 'source') || UNKNOWN_SOURCE,
+    author: getFrontmatterValue(frontmatter, 'author') || undefined,
+    publicationDate: getFrontmatterValue(frontmatter, 'publicationDate') || undefined,
+    addedDate: addedDate ? new Date(addedDate) : new Date(),
+  };
+}
+
+/**
+ * Build the frontmatter lines for an article
+ */
+export function buildFrontmatter(article: ReadLaterArticle, status = DEFAULT_STATUS): string {
+  const lines = [
+    `url: ${yamlString(article.url)}`,
+    `source: ${yamlString(article.source)}`,
+  ];
+
+  if (article.author) {
+    lines.push(`author: ${yamlString(article.author)}`);
+  }
+  if (article.publicationDate) {
+    lines.push(`publicationDate: ${yamlString(article.publicationDate)}`);
+  }
+
+  lines.push(`addedDate: ${formatDate(article.addedDate)}`);
+
+  if (article.tags && article.tags.length > 0) {
+    lines.push('tags:');
+    for (const tag of article.tags) {
+      lines.push(`  - ${yamlString(tag)}`);
+    }
+  }
+
+  lines.push(`status: ${status}`);
+  return lines.join('\n');
+}
+
+/**
+ * Render a new note for an article
+ */
+export function renderArticleNote(article: ReadLaterArticle, body: string): string {
+  return `---\n${buildFrontmatter(article)}\n---\n${body}`;
+}
+
+/**
+ * Refresh the managed frontmatter of an existing note, keeping the body,
+ * any keys the user added, the original added date and the user's reading status
+ */
+export function updateArticleNote(content: string, article: ReadLaterArticle): string {
+  const { frontmatter, body } = splitFrontmatter(content);
+  if (frontmatter === null) {
+    return renderArticleNote(article, body);
+  }
+
+  const status = getFrontmatterValue(frontmatter, 'status') || DEFAULT_STATUS;
+  const addedDate = getFrontmatterValue(frontmatter, 'addedDate');
+  if (addedDate) {
+    article = { ...article, addedDate: new Date(addedDate) };
+  }
+
+  const preserved = parseFrontmatterEntries(frontmatter)
+    .filter(entry => !entry.key || !MANAGED_KEYS.includes(entry.key))
+    .map(entry => entry.lines.join('\n'))
+    .filter(lines => lines.trim() !== '');
+
+  const merged = [buildFrontmatter(article, status), ...preserved].join('\n');
+  return `---\n${merged}\n---\n${body}`;
+}
+
+function joinPath(folder: string, name: string): string {
+  const trimmed = folder.replace(/\/+$/, '');
+  return trimmed ? `${trimmed}/${name}` : name;
+}
+
+/**
+ * Work out which notes to create or update for a batch of articles
+ * Existing notes are matched on the `url` frontmatter key, so renamed
+ * notes and retitled articles still resolve to the same note
+ */
+export function planArticleNotes(
+  articles: ReadLaterArticle[],
+  existingNotes: ExistingNote[],
+  folder: string,
+  renderBody: (article: ReadLaterArticle) => string
+): NoteWrite[] {
+  const notesByUrl = new Map<string, ExistingNote>();
+  const takenPaths = new Set<string>();
+
+  for (const note of existingNotes) {
+    takenPaths.add(note.path.toLowerCase());
+
+    const { frontmatter } = splitFrontmatter(note.content);
+    const url = frontmatter !== null ? getFrontmatterValue(frontmatter, 'url') : null;
+    if (url) {
+      notesByUrl.set(normalizeUrl(url), note);
+    }
+  }
+
+  const writes: NoteWrite[] = [];
+  const seen = new Set<string>();
+
+  for (const article of articles) {
+    const key = normalizeUrl(article.url);
+    if (!article.url || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const existing = notesByUrl.get(key);
+    if (existing) {
+      const content = updateArticleNote(existing.content, article);
+      if (content !== existing.content) {
+        writes.push({ path: existing.path, content, created: false });
+      }
+      continue;
+    }
+
+    const slug = slugify(article.title);
+    let path = joinPath(folder, `${slug}.md`);
+    for (let n = 2; takenPaths.has(path.toLowerCase()); n++) {
+      path = joinPath(folder, `${slug}-${n}.md`);
+    }
+    takenPaths.add(path.toLowerCase());
+
+    writes.push({ path, content: renderArticleNote(article, renderBody(article)), created: true });
+  }
+
+  return writes;
+}
@@ -0,0 +1,485 @@
+import { ProviderCredentials, ReadLaterArticle, ReadLaterProvider, ReadLaterSettings, SyncResult } from '../types';
+import { formatArticle } from '../template/article';
+import { ExportFormat, exportArticles } from '../export/formats';
+import { ArticleIndex, ArticleIndexEntry, entryToArticle } from './article-index';
+import { ExistingNote, planArticleNotes, readArticleNote } from './article-notes';
+import { readManagedArticles, updateManagedContent } from './managed-block';
+import {
+  ReadState,
+  WriteBackPreview,
+  WriteBackResult,
+  applyReadState,
+  readStateFromContent,
+  readStateFromNotes,
+  writeBackReadArticles,
+} from './read-state';
+import { SyncStorage } from './storage';
+import { SyncHistory, SyncRun, SyncTrigger, formatDuration, renderSyncLog } from './history';
+import { ERROR_KIND_LABELS, ProviderError, backoffDelay, classifyError } from '../providers/errors';
+
+export interface SyncSummary {
+  results: SyncResult[];
+  articles: ReadLaterArticle[]; // everything fetched, with read state
+  newArticles: ReadLaterArticle[];
+  writtenPaths: string[]; // output file or notes and the feed, not the index or history
+  run: SyncRun;
+}
+
+export interface SyncEvents {
+  start: { providers: string[] };
+  progress: { provider: string; message: string };
+  'write-back': WriteBackResult;
+  result: SyncResult;
+  complete: SyncSummary;
+}
+
+interface ProviderOutcome {
+  result: SyncResult;
+  fetched: ReadLaterArticle[];
+  added: ReadLaterArticle[];
+  indexChanged: boolean;
+}
+
+type Listener<K extends keyof SyncEvents> = (payload: SyncEvents[K]) => void;
+
+export interface SyncEngineOptions {
+  // When false, nothing is read from or written to storage; callers use the returned articles
+  persist?: boolean;
+  // When false, the index and feed are kept up to date but the output file and notes are left alone
+  writeOutput?: boolean;
+  // Waits between retries; tests pass one that resolves immediately
+  sleep?: (ms: number) => Promise<void>;
+  // Resolves credential references (op://, env:// ...) before each provider logs in
+  resolveCredentials?: (credentials: ProviderCredentials) => Promise<ProviderCredentials>;
+}
+
+/**
+ * Run `task` over `items` with at most `limit` running at once, keeping results in item order
+ */
+async function mapConcurrently<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * The sync pipeline shared by the plugin and the CLI: read state, write-back,
+ * fetching, duplicate detection and writing the output
+ */
+export class SyncEngine {
+  index = new ArticleIndex();
+
+  private listeners: { [K in keyof SyncEvents]?: Array<Listener<K>> } = {};
+  private persist: boolean;
+  private writeOutput: boolean;
+  private sleep: (ms: number) => Promise<void>;
+  private resolveCredentials?: (credentials: ProviderCredentials) => Promise<ProviderCredentials>;
+
+  constructor(
+    private settings: ReadLaterSettings,
+    private storage: SyncStorage,
+    options: SyncEngineOptions = {}
+  ) {
+    this.persist = options.persist !== false;
+    this.writeOutput = options.writeOutput !== false;
+    this.sleep = options.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.resolveCredentials = options.resolveCredentials;
+  }
+
+  /**
+   * Subscribe to an event; returns a function that unsubscribes
+   */
+  on<K extends keyof SyncEvents>(event: K, listener: Listener<K>): () => void {
+    const listeners = (this.listeners[event] || []) as Array<Listener<K>>;
+    listeners.push(listener);
+    this.listeners[event] = listeners as typeof this.listeners[K];
+
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) listeners.splice(index, 1);
+    };
+  }
+
+  private emit<K extends keyof SyncEvents>(event: K, payload: SyncEvents[K]): void {
+    for (const listener of (this.listeners[event] || []) as Array<Listener<K>>) {
+      listener(payload);
+    }
+  }
+
+  async loadIndex(): Promise<void> {
+    this.index = ArticleIndex.fromJSON(this.persist ? await this.storage.read(this.settings.indexFile) : null);
+  }
+
+  async saveIndex(): Promise<void> {
+    if (this.persist) {
+      await this.storage.write(this.settings.indexFile, this.index.toJSON());
+    }
+  }
+
+  /**
+   * Rebuild the index from the output file's entries, or the article notes in notes mode
+   * Returns the number of articles indexed, or null when there is no output to rebuild from
+   */
+  async rebuildIndex(): Promise<number | null> {
+    let count: number | null = null;
+
+    if (this.settings.outputMode === 'notes') {
+      const articles = (await this.readNotes()).map(readArticleNote).filter((article): article is ReadLaterArticle => !!article);
+      count = articles.length > 0 ? this.index.rebuild(articles) : null;
+    } else {
+      const content = await this.storage.read(this.settings.outputFile);
+      if (content !== null) {
+        // Files written before the managed markers only have their URLs to go on
+        const articles = readManagedArticles(content);
+        count = articles ? this.index.rebuild(articles) : this.index.rebuildFromContent(content);
+      }
+    }
+
+    if (count === null) {
+      this.index.clear();
+    } else {
+      applyReadState(this.index, await this.readState());
+    }
+    await this.saveIndex();
+    return count;
+  }
+
+  private async readNotes(): Promise<ExistingNote[]> {
+    const notes: ExistingNote[] = [];
+    for (const path of await this.storage.list(this.settings.notesFolder)) {
+      notes.push({ path, content: await this.storage.read(path) || '' });
+    }
+    return notes;
+  }
+
+  /**
+   * Read state of articles in the output file or article notes, if they exist yet
+   */
+  async readState(): Promise<ReadState> {
+    if (!this.persist) {
+      return { read: [], unread: [] };
+    }
+
+    if (this.settings.outputMode === 'notes') {
+      return readStateFromNotes(await this.readNotes());
+    }
+
+    const content = await this.storage.read(this.settings.outputFile);
+    return content ? readStateFromContent(content) : { read: [], unread: [] };
+  }
+
+  /**
+   * The reading queue as it stands in the vault: the articles in the output file or notes,
+   * with the details the index keeps; before either exists, every indexed article not archived
+   */
+  async readQueue(): Promise<ReadLaterArticle[]> {
+    const urls = await this.readQueueUrls();
+    const entries = urls
+      ? urls.map(url => this.index.get(url)).filter((entry): entry is ArticleIndexEntry => !!entry)
+      : this.index.all().filter(entry => entry.status !== 'archived');
+    return entries.map(entryToArticle);
+  }
+
+  private async readQueueUrls(): Promise<string[] | null> {
+    if (!this.persist) {
+      return null;
+    }
+
+    if (this.settings.outputMode === 'notes') {
+      const urls = (await this.readNotes()).map(note => readArticleNote(note)?.url).filter((url): url is string => !!url);
+      return urls.length > 0 ? urls : null;
+    }
+
+    const content = await this.storage.read(this.settings.outputFile);
+    return content ? readManagedArticles(content)?.map(article => article.url) ?? null : null;
+  }
+
+  /**
+   * Record articles marked read in the vault; returns true if the index changed
+   */
+  async updateReadState(): Promise<boolean> {
+    return applyReadState(this.index, await this.readState()) > 0;
+  }
+
+  /**
+   * What write-back would archive for each provider, without touching any site
+   */
+  previewWriteBack(providers: ReadLaterProvider[]): WriteBackPreview[] {
+    return providers.map(provider => ({
+      provider: provider.displayName,
+      enabled: !!this.settings.providers[provider.name]?.writeBack,
+      supported: provider.supportsArchive(),
+      pending: this.index.withStatus('read', provider.displayName),
+    }));
+  }
+
+  async sync(providers: ReadLaterProvider[], trigger: SyncTrigger = 'manual'): Promise<SyncSummary> {
+    const startedAt = new Date();
+    this.emit('start', { providers: providers.map(provider => provider.displayName) });
+
+    // Pick up articles marked read since the last sync
+    let indexChanged = await this.updateReadState();
+
+    const outcomes = await mapConcurrently(providers, this.settings.concurrency, async provider => {
+      const outcome = await this.syncProvider(provider);
+      this.emit('result', outcome.result);
+      return outcome;
+    });
+
+    // Combine in provider order, whichever finished first
+    const results: SyncResult[] = [];
+    const articles: ReadLaterArticle[] = [];
+    const newArticles: ReadLaterArticle[] = [];
+    for (const outcome of outcomes) {
+      results.push(outcome.result);
+      articles.push(...outcome.fetched);
+      newArticles.push(...outcome.added);
+      indexChanged = indexChanged || outcome.indexChanged;
+    }
+
+    // Keep read checkboxes ticked when the list is rewritten
+    for (const article of articles) {
+      article.status = this.index.getStatus(article.url);
+    }
+
+    const recordRun = (error?: string) => this.recordRun({
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      trigger,
+      results,
+      newArticles: newArticles.length,
+      seenArticles: articles.length - newArticles.length,
+      error,
+    });
+
+    const writtenPaths: string[] = [];
+    try {
+      if (this.persist && this.writeOutput) {
+        const synced = results.filter(result => result.success).map(result => result.provider);
+        writtenPaths.push(...await this.writeArticles(articles, newArticles, synced));
+      }
+
+      // The feed lists the whole queue, not just what this run fetched; it is kept as it was if every provider failed
+      if (this.persist && this.settings.feedFile && results.some(result => result.success)) {
+        await this.exportArticles(await this.readQueue(), 'rss', this.settings.feedFile);
+        writtenPaths.push(this.settings.feedFile);
+      }
+
+      if (writtenPaths.length > 0 || indexChanged) {
+        await this.saveIndex();
+      }
+    } catch (error) {
+      // The index already counts this run's articles as seen; go back to the saved one so the next sync writes them
+      await this.loadIndex();
+      await recordRun(error.message);
+      throw error;
+    }
+
+    const summary: SyncSummary = { results, articles, newArticles, writtenPaths, run: await recordRun() };
+    this.emit('complete', summary);
+    return summary;
+  }
+
+  async readHistory(): Promise<SyncHistory> {
+    return SyncHistory.fromJSON(this.persist ? await this.storage.read(this.settings.historyFile) : null);
+  }
+
+  /**
+   * Add a run to the history file and refresh the Sync Log note
+   */
+  private async recordRun(run: SyncRun): Promise<SyncRun> {
+    if (!this.persist || !this.settings.historyFile) {
+      return run;
+    }
+
+    const history = await this.readHistory();
+    history.add(run);
+    await this.storage.write(this.settings.historyFile, history.toJSON());
+
+    if (this.settings.syncLogNote) {
+      await this.storage.write(this.settings.syncLogNote, renderSyncLog(history));
+    }
+    return run;
+  }
+
+  /**
+   * Write articles to a file in one of the export formats
+   */
+  async exportArticles(articles: ReadLaterArticle[], format: ExportFormat, path: string): Promise<void> {
+    await this.storage.write(path, exportArticles(articles, format, {
+      template: this.settings.template,
+      dateFormat: this.settings.dateFormat,
+    }));
+  }
+
+  /**
+   * Sync one provider, retrying transient errors; the provider is always cleaned up afterwards
+   */
+  private async syncProvider(provider: ReadLaterProvider): Promise<ProviderOutcome> {
+    try {
+      return await this.syncProviderWithRetries(provider);
+    } finally {
+      await provider.cleanup().catch(() => {});
+    }
+  }
+
+  private async syncProviderWithRetries(provider: ReadLaterProvider): Promise<ProviderOutcome> {
+    const startedAt = Date.now();
+    const progress = (message: string) => this.emit('progress', { provider: provider.displayName, message });
+    const maxAttempts = 1 + Math.max(0, this.settings.retries);
+    const state = { indexChanged: false, credentialsResolved: false };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { fetched, added } = await this.attemptProvider(provider, state, progress);
+        return {
+          result: {
+            provider: provider.displayName,
+            success: true,
+            articlesAdded: added.length,
+            articlesFetched: fetched.length,
+            durationMs: Date.now() - startedAt,
+            ...(attempt > 1 ? { attempts: attempt } : {}),
+          },
+          fetched,
+          added,
+          indexChanged: true,
+        };
+      } catch (thrown) {
+        await provider.cleanup().catch(() => {});
+
+        const error = classifyError(thrown);
+        if (!error.transient || attempt >= maxAttempts) {
+          return {
+            result: {
+              provider: provider.displayName,
+              success: false,
+              articlesAdded: 0,
+              articlesFetched: 0,
+              durationMs: Date.now() - startedAt,
+              error: error.message,
+              errorKind: error.kind,
+              ...(attempt > 1 ? { attempts: attempt } : {}),
+            },
+            fetched: [],
+            added: [],
+            indexChanged: state.indexChanged,
+          };
+        }
+
+        const delay = backoffDelay(this.settings.retryDelay * 1000, attempt, error.retryAfterMs);
+        progress(`${ERROR_KIND_LABELS[error.kind]} from ${provider.displayName}; retrying in ${formatDuration(delay)} (attempt ${attempt + 1} of ${maxAttempts})`);
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * One attempt at authenticating, writing back and fetching; throws on failure
+   */
+  private async attemptProvider(
+    provider: ReadLaterProvider,
+    state: { indexChanged: boolean; credentialsResolved: boolean },
+    progress: (message: string) => void
+  ): Promise<{ fetched: ReadLaterArticle[]; added: ReadLaterArticle[] }> {
+    const providerConfig = this.settings.providers[provider.name];
+
+    // Once per sync, not on every retry
+    if (this.resolveCredentials && !state.credentialsResolved) {
+      try {
+        provider.setCredentials(await this.resolveCredentials(provider.credentials));
+      } catch (error) {
+        throw new ProviderError('auth', `Could not resolve credential ${error.message}`);
+      }
+      state.credentialsResolved = true;
+    }
+
+    if (!provider.hasRequiredCredentials()) {
+      const accepted = provider.requiresCredentials().map(set => set.join('+')).join(' or ');
+      throw new ProviderError('auth', `Missing credentials (needs ${accepted})`);
+    }
+
+    progress(`Authenticating with ${provider.displayName}...`);
+    if (!(await provider.authenticate())) {
+      throw new ProviderError('auth', 'Authentication failed');
+    }
+
+    // Archive articles read in the vault before fetching, while the session is open
+    if (providerConfig?.writeBack && provider.supportsArchive()) {
+      const writeBack = await writeBackReadArticles(provider, this.index, this.settings.writeBackDryRun);
+      if (writeBack.pending.length > 0) {
+        this.emit('write-back', writeBack);
+        state.indexChanged = state.indexChanged || !writeBack.dryRun;
+      }
+    } else if (providerConfig?.writeBack) {
+      progress(`${provider.displayName} does not support write-back; skipping`);
+    }
+
+    progress(`Fetching articles from ${provider.displayName}...`);
+    const fetched = await provider.fetchArticles({ isKnown: url => this.index.has(url) });
+    const added = this.index.filterNew(fetched);
+    progress(`Fetched ${fetched.length} articles from ${provider.displayName} (${added.length} new)`);
+
+    const now = new Date();
+    this.index.setLastSync(provider.name, now);
+    if (providerConfig) {
+      providerConfig.lastSync = now;
+    }
+
+    return { fetched, added };
+  }
+
+  /**
+   * Write the output file or article notes; returns the paths written
+   * `synced` names the providers that synced; replace mode leaves other providers' entries alone.
+   */
+  private async writeArticles(articles: ReadLaterArticle[], newArticles: ReadLaterArticle[], synced: string[]): Promise<string[]> {
+    const render = (article: ReadLaterArticle) =>
+      formatArticle(article, this.settings.template, { dateFormat: this.settings.dateFormat });
+
+    if (this.settings.outputMode === 'notes') {
+      if (articles.length === 0) {
+        return [];
+      }
+
+      const folder = this.settings.notesFolder.replace(/\/+$/, '');
+      const existingNotes = [];
+      for (const path of await this.storage.list(folder)) {
+        existingNotes.push({ path, content: await this.storage.read(path) || '' });
+      }
+
+      const writes = planArticleNotes(articles, existingNotes, folder, render);
+      for (const write of writes) {
+        await this.storage.write(write.path, write.content);
+      }
+      return writes.map(write => write.path);
+    }
+
+    // Append mode only needs the new articles; replace mode rewrites the full list
+    const toWrite = this.settings.appendMode ? newArticles : articles;
+    if (this.settings.appendMode ? toWrite.length === 0 : synced.length === 0) {
+      return [];
+    }
+
+    // Only the managed region is rewritten, so notes outside it and under each entry survive
+    const path = this.settings.outputFile;
+    const existing = await this.storage.read(path);
+    // A provider whose list is now empty still has its old entries removed, but no empty list is created
+    if (existing === null && toWrite.length === 0) {
+      return [];
+    }
+    const scope = { sources: synced, sourceOf: (url: string) => this.index.getSource(url) };
+    await this.storage.write(path, updateManagedContent(existing, toWrite, render, this.settings.appendMode ? 'append' : 'replace', scope));
+    return [path];
+  }
+}
@@ -0,0 +1,350 @@
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { ReadLaterArticle, SyncResult } from '../types';
+import { CompiledTemplate, compileTemplate } from '../template/engine';
+import { SafeString } from '../template/filters';
+import { ProcessError, RunResult, runProcess } from '../process';
+
+export const DEFAULT_COMMIT_MESSAGE = 'chore: sync read-later articles ({{count}} articles)';
+
+// Fields available to commit message templates
+export const COMMIT_MESSAGE_FIELDS = ['count', 'providers', 'summary', 'articles', 'date'];
+
+/**
+ * The "git" section of the CLI config
+ */
+export interface GitSyncOptions {
+  remote?: string; // defaults to origin, or the only remote
+  branch?: string; // commit to this branch instead of the current one
+  commitMessage?: string; // template; see COMMIT_MESSAGE_FIELDS
+  sign?: boolean | string; // true signs with the default key, a string with that key; unset follows git config
+  pushRetries?: number; // attempts after a push is rejected because the remote moved on
+}
+
+/**
+ * One thing Git sync did, or failed to do, for the CLI summary
+ */
+export interface GitStep {
+  action: 'branch' | 'pull' | 'commit' | 'push';
+  success: boolean;
+  detail: string;
+  conflicts?: string[];
+}
+
+const DEFAULT_PUSH_RETRIES = 2;
+
+// Signs that a push failed because the remote has commits we don't
+const REJECTED_PATTERN = /\[rejected\]|non-fast-forward|fetch first/;
+
+/**
+ * Compile a commit message template, throwing a TemplateError if it is invalid
+ */
+export function compileCommitMessage(template: string): CompiledTemplate {
+  return compileTemplate(template, { fields: COMMIT_MESSAGE_FIELDS });
+}
+
+/**
+ * Render the commit message for a sync
+ * Commit messages aren't Markdown, so nothing is escaped.
+ */
+export function renderCommitMessage(
+  template: string,
+  results: SyncResult[],
+  newArticles: ReadLaterArticle[],
+  date = new Date()
+): string {
+  const providers = results
+    .filter(result => result.articlesAdded > 0)
+    .map(result => ({ name: new SafeString(result.provider), count: result.articlesAdded }));
+
+  const message = compileCommitMessage(template).render({
+    count: newArticles.length,
+    providers,
+    summary: new SafeString(providers.map(provider => `${provider.name} ${provider.count}`).join(', ')),
+    articles: newArticles.map(article => ({
+      title: new SafeString(article.title || 'Untitled'),
+      url: new SafeString(article.url),
+      source: new SafeString(article.source),
+    })),
+    date,
+  }, { dateFormat: 'YYYY-MM-DD' });
+
+  return message.trim() || renderCommitMessage(DEFAULT_COMMIT_MESSAGE, results, newArticles, date);
+}
+
+/**
+ * Pulls before a sync writes to the vault, then commits and pushes what it wrote
+ * Nothing is left half-done: a pull that conflicts is aborted, leaving the vault
+ * as it was, and every step is recorded in `steps` for the summary.
+ */
+export class GitSync {
+  readonly steps: GitStep[] = [];
+  private remote: string | null = null;
+  private originalBranch: string | null = null;
+
+  constructor(private vaultPath: string, private options: GitSyncOptions = {}) {}
+
+  /**
+   * Switch to the configured branch and rebase onto the remote
+   * Returns false if the vault shouldn't be written to; `steps` says why.
+   */
+  async prepare(): Promise<boolean> {
+    if (await this.operationInProgress()) {
+      this.record('pull', false, 'A merge or rebase is already in progress in the vault; finish or abort it first');
+      return false;
+    }
+
+    try {
+      this.remote = await this.findRemote();
+      if (this.remote) {
+        await this.git(['fetch', '--quiet', this.remote]);
+      }
+    } catch (error) {
+      this.record('pull', false, `Could not fetch from ${this.options.remote || 'the remote'}: ${error.message}`);
+      return false;
+    }
+
+    if (this.options.branch && !(await this.switchBranch(this.options.branch))) {
+      return false;
+    }
+
+    if (!this.remote) {
+      this.record('pull', true, 'No remote configured; committing locally only');
+      return true;
+    }
+
+    const branch = await this.currentBranch();
+    if (branch === 'HEAD') {
+      this.record('pull', false, 'The vault is not on a branch (detached HEAD); check one out or set "branch" in the git config');
+      return false;
+    }
+
+    const upstream = `${this.remote}/${branch}`;
+    if (!(await this.refExists(`refs/remotes/${upstream}`))) {
+      this.record('pull', true, `${upstream} doesn't exist yet; it will be created on push`);
+      return true;
+    }
+
+    const incoming = Number((await this.git(['rev-list', '--count', `HEAD..${upstream}`])).stdout.trim());
+    if (incoming === 0) {
+      this.record('pull', true, `Up to date with ${upstream}`);
+      return true;
+    }
+
+    const failure = await this.rebase(upstream);
+    if (failure) {
+      this.record('pull', false, `Pulling ${upstream} ${failure.message}; rebase aborted, vault left as it was`, failure.conflicts);
+      return false;
+    }
+
+    this.record('pull', true, `Pulled ${incoming} commit${incoming === 1 ? '' : 's'} from ${upstream} (rebased)`);
+    return true;
+  }
+
+  /**
+   * Commit the given vault-relative files and push, rebasing and retrying if the remote moved on
+   */
+  async publish(files: string[], message: string): Promise<boolean> {
+    const existing = files.filter(file => existsSync(join(this.vaultPath, file)));
+
+    if (existing.length === 0) {
+      this.record('commit', true, 'Nothing to commit');
+      return true;
+    }
+
+    // Scope everything to the sync's own files, so anything the user staged stays out of the commit
+    try {
+      await this.git(['add', '--', ...existing]);
+
+      // Nothing staged, nothing to commit
+      try {
+        await this.git(['diff', '--cached', '--quiet', '--', ...existing]);
+        this.record('commit', true, 'Nothing to commit');
+        return true;
+      } catch {
+        // Changes exist, proceed with commit
+      }
+
+      await this.git(['commit', '--quiet', '-m', message, ...this.signArgs(), '--', ...existing]);
+    } catch (error) {
+      this.record('commit', false, `Commit failed: ${error.message}`);
+      return false;
+    }
+
+    const hash = (await this.git(['rev-parse', '--short', 'HEAD'])).stdout.trim();
+    const signed = this.options.sign ? ' (signed)' : '';
+    this.record('commit', true, `Committed ${hash}${signed}: ${message.split('\n')[0]}`);
+
+    return this.remote ? this.push() : true;
+  }
+
+  /**
+   * Run `work` after prepare(), switching back to the vault's own branch afterwards even if it throws
+   */
+  async onSyncBranch<T>(work: () => Promise<T>): Promise<T> {
+    try {
+      return await work();
+    } finally {
+      await this.restoreBranch();
+    }
+  }
+
+  /**
+   * Go back to the branch the vault was on before prepare() switched away from it
+   */
+  async restoreBranch(): Promise<void> {
+    if (!this.originalBranch || this.originalBranch === (await this.currentBranch())) {
+      return;
+    }
+
+    try {
+      await this.git(['checkout', '--quiet', this.originalBranch]);
+    } catch (error) {
+      this.record('branch', false, `Could not switch back to ${this.originalBranch}: ${error.message}`);
+    }
+  }
+
+  private async push(): Promise<boolean> {
+    const branch = await this.currentBranch();
+    const remote = this.remote as string;
+    const attempts = 1 + Math.max(0, this.options.pushRetries ?? DEFAULT_PUSH_RETRIES);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.git(['push', '--quiet', '--set-upstream', remote, `HEAD:refs/heads/${branch}`]);
+        const retried = attempt > 1 ? ` after ${attempt} attempts` : '';
+        this.record('push', true, `Pushed to ${remote}/${branch}${retried}`);
+        return true;
+      } catch (error) {
+        const rejected = error instanceof ProcessError && REJECTED_PATTERN.test(error.stderr);
+        if (!rejected || attempt >= attempts) {
+          this.record('push', false, `Push to ${remote}/${branch} failed: ${error.message}; the commit is kept locally`);
+          return false;
+        }
+      }
+
+      // Someone pushed first: take their commits and put ours on top
+      try {
+        await this.git(['fetch', '--quiet', remote]);
+      } catch (error) {
+        this.record('push', false, `Push rejected and fetching ${remote} failed: ${error.message}; the commit is kept locally`);
+        return false;
+      }
+      const failure = await this.rebase(`${remote}/${branch}`);
+      if (failure) {
+        this.record(
+          'push',
+          false,
+          `Push rejected and rebasing onto ${remote}/${branch} ${failure.message}; rebase aborted, the commit is kept locally`,
+          failure.conflicts
+        );
+        return false;
+      }
+    }
+  }
+
+  /**
+   * Rebase onto `upstream`, carrying uncommitted changes across
+   * If it fails the rebase is aborted, and what went wrong is returned; null if it went through.
+   */
+  private async rebase(upstream: string): Promise<{ message: string; conflicts?: string[] } | null> {
+    try {
+      await this.git(['rebase', '--quiet', '--autostash', ...this.signArgs(), upstream]);
+      return null;
+    } catch (error) {
+      const conflicts = await this.git(['diff', '--name-only', '--diff-filter=U'])
+        .then(({ stdout }) => stdout.split('\n').filter(Boolean))
+        .catch(() => [] as string[]);
+
+      try {
+        if (await this.operationInProgress()) {
+          await this.git(['rebase', '--abort']);
+        }
+      } catch (abortError) {
+        return { message: `failed and could not be aborted (run "git rebase --abort"): ${abortError.message}` };
+      }
+
+      return conflicts.length > 0
+        ? { message: `conflicts in ${conflicts.join(', ')}`, conflicts }
+        : { message: `failed: ${error.message}` };
+    }
+  }
+
+  private async switchBranch(branch: string): Promise<boolean> {
+    this.originalBranch = await this.currentBranch();
+    if (this.originalBranch === branch) {
+      return true;
+    }
+
+    try {
+      if (await this.refExists(`refs/heads/${branch}`)) {
+        await this.git(['checkout', '--quiet', branch]);
+        this.record('branch', true, `Switched to ${branch}`);
+      } else if (this.remote && await this.refExists(`refs/remotes/${this.remote}/${branch}`)) {
+        await this.git(['checkout', '--quiet', '-b', branch, '--track', `${this.remote}/${branch}`]);
+        this.record('branch', true, `Switched to ${branch}, tracking ${this.remote}/${branch}`);
+      } else {
+        await this.git(['checkout', '--quiet', '-b', branch]);
+        this.record('branch', true, `Created ${branch} from ${this.originalBranch || 'HEAD'}`);
+      }
+      return true;
+    } catch (error) {
+      this.record('branch', false, `Could not switch to ${branch}: ${error.message}`);
+      return false;
+    }
+  }
+
+  private async findRemote(): Promise<string | null> {
+    const remotes = (await this.git(['remote'])).stdout.split('\n').filter(Boolean);
+
+    if (this.options.remote) {
+      if (!remotes.includes(this.options.remote)) {
+        throw new Error(`no remote named "${this.options.remote}"`);
+      }
+      return this.options.remote;
+    }
+    if (remotes.includes('origin')) {
+      return 'origin';
+    }
+    return remotes.length === 1 ? remotes[0] : null;
+  }
+
+  private async currentBranch(): Promise<string> {
+    return (await this.git(['rev-parse', '--abbrev-ref', 'HEAD'])).stdout.trim();
+  }
+
+  private async refExists(ref: string): Promise<boolean> {
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', ref]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async operationInProgress(): Promise<boolean> {
+    for (const name of ['rebase-merge', 'rebase-apply', 'MERGE_HEAD']) {
+      const path = (await this.git(['rev-parse', '--git-path', name])).stdout.trim();
+      if (existsSync(resolve(this.vaultPath, path))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private signArgs(): string[] {
+    const { sign } = this.options;
+    if (sign === undefined) return [];
+    if (sign === false) return ['--no-gpg-sign'];
+    return sign === true ? ['--gpg-sign'] : [`--gpg-sign=${sign}`];
+  }
+
+  private record(action: GitStep['action'], success: boolean, detail: string, conflicts?: string[]): void {
+    this.steps.push(conflicts ? { action, success, detail, conflicts } : { action, success, detail });
+  }
+
+  private git(args: string[]): Promise<RunResult> {
+    // Fail instead of waiting for a password nobody will type
+    return runProcess('git', args, { cwd: this.vaultPath, env: { GIT_TERMINAL_PROMPT: '0' } });
+  }
+}
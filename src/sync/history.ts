@@ -0,0 +1,171 @@
+import { SyncResult } from '../types';
+import { formatDate } from '../template/filters';
+import { describeFailure } from '../providers/errors';
+
+export type SyncTrigger = 'manual' | 'interval' | 'cli';
+
+/**
+ * One sync run, as recorded in the history file
+ */
+export interface SyncRun {
+  startedAt: string; // ISO date
+  durationMs: number;
+  trigger: SyncTrigger;
+  results: SyncResult[];
+  newArticles: number;
+  seenArticles: number; // fetched but already in the index
+  error?: string; // the run failed after fetching, e.g. writing the output
+}
+
+interface SyncHistoryData {
+  version: number;
+  runs: SyncRun[];
+}
+
+const HISTORY_VERSION = 1;
+
+// Older runs are dropped so the file stays small
+const MAX_RUNS = 500;
+
+const LOG_NOTE_RUNS = 50;
+const LOG_DATE_FORMAT = 'YYYY-MM-DD HH:mm';
+
+/**
+ * Persistent record of sync runs, oldest first
+ */
+export class SyncHistory {
+  constructor(private runs: SyncRun[] = []) {}
+
+  /**
+   * Load history from its serialized form; missing or corrupt data yields an empty history
+   */
+  static fromJSON(json: string | null): SyncHistory {
+    if (!json) {
+      return new SyncHistory();
+    }
+
+    try {
+      const data: SyncHistoryData = JSON.parse(json);
+      return new SyncHistory(Array.isArray(data.runs) ? data.runs : []);
+    } catch (error) {
+      console.error('Failed to parse sync history, starting fresh:', error);
+      return new SyncHistory();
+    }
+  }
+
+  toJSON(): string {
+    const data: SyncHistoryData = { version: HISTORY_VERSION, runs: this.runs };
+    return JSON.stringify(data, null, 2);
+  }
+
+  get size(): number {
+    return this.runs.length;
+  }
+
+  add(run: SyncRun): void {
+    this.runs.push(run);
+    if (this.runs.length > MAX_RUNS) {
+      this.runs.splice(0, this.runs.length - MAX_RUNS);
+    }
+  }
+
+  /**
+   * The most recent runs, newest first
+   */
+  recent(count: number): SyncRun[] {
+    return this.runs.slice(-count).reverse();
+  }
+
+  /**
+   * When a provider started returning no articles, if its latest successful
+   * runs all fetched none and it fetched some before that
+   */
+  emptySince(provider: string): Date | null {
+    let since: SyncRun | null = null;
+
+    for (let i = this.runs.length - 1; i >= 0; i--) {
+      const result = this.runs[i].results.find(r => r.provider === provider && r.success);
+      if (!result || result.articlesFetched === undefined) {
+        continue;
+      }
+      if (result.articlesFetched > 0) {
+        return since ? new Date(since.startedAt) : null;
+      }
+      since = this.runs[i];
+    }
+
+    return null;
+  }
+
+  /**
+   * Providers that have stopped returning articles, with when it started
+   */
+  emptyProviders(): Array<{ provider: string; since: Date }> {
+    const providers = new Set(this.runs.flatMap(run => run.results.map(result => result.provider)));
+    const empty: Array<{ provider: string; since: Date }> = [];
+
+    for (const provider of providers) {
+      const since = this.emptySince(provider);
+      if (since) {
+        empty.push({ provider, since });
+      }
+    }
+
+    return empty;
+  }
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function tableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Sync Log note: warnings for providers that stopped returning articles,
+ * then one table row per provider per run, newest first
+ */
+export function renderSyncLog(history: SyncHistory): string {
+  const lines = [
+    '# Sync Log',
+    '',
+    '%% Generated by Read Later Sync on every run; edits are overwritten %%',
+    '',
+  ];
+
+  for (const { provider, since } of history.emptyProviders()) {
+    lines.push(`> [!warning] ${provider} has returned no articles since ${formatDate(since, LOG_DATE_FORMAT)}`, '');
+  }
+
+  lines.push(
+    '| Time | Trigger | Duration | Provider | Result | Fetched | New | Seen | Error |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- |'
+  );
+
+  for (const run of history.recent(LOG_NOTE_RUNS)) {
+    const time = formatDate(new Date(run.startedAt), LOG_DATE_FORMAT);
+    const rows = run.results.length > 0
+      ? run.results
+      : [{ provider: '—', success: !run.error, articlesAdded: 0, error: run.error }];
+
+    for (const result of rows) {
+      const fetched = result.articlesFetched;
+      const seen = fetched !== undefined ? String(fetched - result.articlesAdded) : '';
+      lines.push(`| ${[
+        time,
+        run.trigger,
+        formatDuration(result.durationMs ?? run.durationMs),
+        tableCell(result.provider),
+        result.success ? '✓' : '✗',
+        fetched !== undefined ? String(fetched) : '',
+        String(result.articlesAdded),
+        seen,
+        tableCell(result.error ? describeFailure(result) : run.error || ''),
+      ].join(' | ')} |`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
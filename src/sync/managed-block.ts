@@ -0,0 +1,209 @@
+import { ReadLaterArticle } from '../types';
+import { UNKNOWN_SOURCE, normalizeUrl } from './article-index';
+import { headingTitle } from './article-notes';
+
+/**
+ * The synced list lives between START and END; each article inside it is
+ *
+ *   %% readlater:item <url> <source> %%
+ *   ...rendered template, rewritten on every sync...
+ *   %% readlater:item-end %%
+ *   ...your annotations, kept with the article...
+ *
+ * Obsidian hides %% comments %% in reading view.
+ */
+export const START_MARKER = '%% readlater:start %%';
+export const END_MARKER = '%% readlater:end %%';
+export const ITEM_END_MARKER = '%% readlater:item-end %%';
+
+// The source was added later, so older files have markers without one
+const ITEM_MARKER = /^%% readlater:item (\S+)(?: (.+?))? %%$/;
+
+export type ManagedWriteMode = 'replace' | 'append';
+
+/**
+ * Which entries a replace rebuilds, when only some providers synced
+ */
+export interface ReplaceScope {
+  sources: string[]; // providers that synced this run
+  sourceOf: (url: string) => string | undefined; // provider of an entry already in the file
+}
+
+interface ManagedItem {
+  url: string;
+  source?: string;
+  generated: string[];
+  annotations: string[];
+}
+
+interface ManagedContent {
+  before: string[];
+  leading: string[]; // text inside the region before the first item
+  items: ManagedItem[];
+  after: string[];
+}
+
+export function itemMarker(url: string, source?: string): string {
+  return source ? `%% readlater:item ${url} ${source} %%` : `%% readlater:item ${url} %%`;
+}
+
+/**
+ * Split a file into the text around the managed region and the items inside it
+ * Returns null when the file has no complete region
+ */
+function parseManaged(content: string): ManagedContent | null {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => line.trim() === START_MARKER);
+  const end = lines.findIndex((line, i) => i > start && line.trim() === END_MARKER);
+
+  if (start === -1 || end === -1) {
+    return null;
+  }
+
+  const parsed: ManagedContent = {
+    before: lines.slice(0, start),
+    leading: [],
+    items: [],
+    after: lines.slice(end + 1),
+  };
+
+  let current: ManagedItem | null = null;
+  let inGenerated = false;
+
+  for (const line of lines.slice(start + 1, end)) {
+    const match = line.trim().match(ITEM_MARKER);
+
+    if (match) {
+      current = { url: match[1], source: match[2], generated: [], annotations: [] };
+      parsed.items.push(current);
+      inGenerated = true;
+    } else if (current && inGenerated && line.trim() === ITEM_END_MARKER) {
+      inGenerated = false;
+    } else if (!current) {
+      parsed.leading.push(line);
+    } else {
+      // Without an item-end marker, everything up to the next item counts as generated
+      (inGenerated ? current.generated : current.annotations).push(line);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * The articles in a file's managed region, in order; null when it has no region
+ * Only what the markers and headings say is known: the URL, the source and the title.
+ */
+export function readManagedArticles(content: string): ReadLaterArticle[] | null {
+  const parsed = parseManaged(content);
+  if (!parsed) {
+    return null;
+  }
+
+  const now = new Date();
+  return parsed.items.map(item => ({
+    title: headingTitle(item.generated),
+    url: item.url,
+    source: item.source || UNKNOWN_SOURCE,
+    addedDate: now,
+  }));
+}
+
+function renderItem(article: ReadLaterArticle, render: (article: ReadLaterArticle) => string): ManagedItem {
+  return {
+    url: article.url,
+    source: article.source,
+    generated: render(article).replace(/\n+$/, '').split('\n'),
+    annotations: [],
+  };
+}
+
+function hasAnnotations(item: ManagedItem): boolean {
+  return item.annotations.some(line => line.trim() !== '');
+}
+
+/**
+ * Write articles into the managed region of a file, leaving everything else alone
+ *
+ * replace: the region is rebuilt from `articles`, keeping each article's annotations.
+ *   Articles no longer in the list are dropped, unless they have annotations.
+ *   With a `scope`, only the entries of its sources are rebuilt, in place of their
+ *   first entry; everything else stays as it was.
+ * append: `articles` not already in the region are added at its end.
+ *
+ * A file without a region keeps its content, with the region added after it.
+ */
+export function updateManagedContent(
+  existing: string | null,
+  articles: ReadLaterArticle[],
+  render: (article: ReadLaterArticle) => string,
+  mode: ManagedWriteMode,
+  scope?: ReplaceScope
+): string {
+  const parsed = (existing && parseManaged(existing)) || {
+    before: existing && existing.trim() ? [...existing.replace(/\n+$/, '').split('\n'), ''] : [],
+    leading: [],
+    items: [],
+    after: [],
+  };
+
+  const previous = new Map(parsed.items.map(item => [normalizeUrl(item.url), item]));
+  let items: ManagedItem[];
+
+  if (mode === 'append') {
+    items = [
+      ...parsed.items,
+      ...articles.filter(article => !previous.has(normalizeUrl(article.url))).map(a => renderItem(a, render)),
+    ];
+  } else {
+    const current = new Map(articles.map(article => [normalizeUrl(article.url), article]));
+    const synced = new Set(scope?.sources);
+    // Without a scope every entry belongs to one group, rebuilt as a whole
+    const groupOfArticle = (article: ReadLaterArticle) => scope ? article.source : '';
+    const rebuild = (group: string) => articles
+      .filter(article => groupOfArticle(article) === group)
+      .map(article => ({ ...renderItem(article, render), annotations: previous.get(normalizeUrl(article.url))?.annotations || [] }));
+
+    const placed = new Set<string>();
+    const place = (group: string) => {
+      if (!placed.has(group)) {
+        placed.add(group);
+        items.push(...rebuild(group));
+      }
+    };
+    const removed: ManagedItem[] = [];
+    items = [];
+
+    for (const item of parsed.items) {
+      const article = current.get(normalizeUrl(item.url));
+      const group = article ? groupOfArticle(article) : scope ? item.source ?? scope.sourceOf(item.url) : '';
+
+      // Entries of providers that didn't sync this run stay as they were
+      if (group === undefined || (!article && scope && !synced.has(group))) {
+        items.push(item);
+        continue;
+      }
+
+      place(group);
+      if (!article) {
+        removed.push(item);
+      }
+    }
+    articles.forEach(article => place(groupOfArticle(article)));
+
+    // Never throw away something the user wrote
+    items.push(...removed.filter(hasAnnotations));
+  }
+
+  const lines = [
+    ...parsed.before,
+    START_MARKER,
+    ...parsed.leading,
+    ...items.flatMap(item => [itemMarker(item.url, item.source), ...item.generated, ITEM_END_MARKER, ...item.annotations]),
+    END_MARKER,
+    ...parsed.after,
+  ];
+
+  const output = lines.join('\n');
+  return output.endsWith('\n') ? output : output + '\n';
+}
@@ -1,6 +1,5 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync, statSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, statSync, readdirSync } from 'fs';
 import { join, dirname } from 'path';
-import { execSync } from 'child_process';
 
 export interface ObsidianVaultConfig {
   vaultPath: string;
@@ -80,83 +79,35 @@ export class ObsidianSyncManager {
   }
 
   /**
-   * Check if vault uses Git sync (alternative to Obsidian Sync)
+   * List files in a vault folder (recursively), as vault-relative paths
    */
-  isGitVault(): boolean {
-    const gitDir = join(this.config.vaultPath, '.git');
-    return existsSync(gitDir);
-  }
+  listFiles(relativeDir: string, extension = '.md'): string[] {
+    const fullDir = this.getFilePath(relativeDir);
 
-  /**
-   * Commit changes to Git (if vault is a Git repository)
-   */
-  gitCommit(message: string, files?: string[]): boolean {
-    if (!this.isGitVault()) {
-      return false;
+    if (!existsSync(fullDir)) {
+      return [];
     }
 
-    try {
-      const cwd = this.config.vaultPath;
-
-      if (files && files.length > 0) {
-        // Add specific files
-        for (const file of files) {
-          execSync(`git add "${file}"`, { cwd, stdio: 'ignore' });
-        }
-      } else {
-        // Add all changes
-        execSync('git add -A', { cwd, stdio: 'ignore' });
-      }
+    const files: string[] = [];
+    for (const entry of readdirSync(fullDir, { withFileTypes: true })) {
+      const relativePath = relativeDir ? `${relativeDir.replace(/\/+$/, '')}/${entry.name}` : entry.name;
 
-      // Check if there are changes to commit
-      try {
-        execSync('git diff-index --quiet HEAD --', { cwd, stdio: 'ignore' });
-        // No changes to commit
-        return false;
-      } catch {
-        // Changes exist, proceed with commit
+      if (entry.isDirectory()) {
+        files.push(...this.listFiles(relativePath, extension));
+      } else if (entry.name.endsWith(extension)) {
+        files.push(relativePath);
       }
-
-      execSync(`git commit -m "${message}"`, { cwd, stdio: 'ignore' });
-      return true;
-    } catch (error) {
-      console.error('Git commit failed:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Push changes to remote (if vault is a Git repository)
-   */
-  gitPush(): boolean {
-    if (!this.isGitVault()) {
-      return false;
     }
 
-    try {
-      execSync('git push', { cwd: this.config.vaultPath, stdio: 'ignore' });
-      return true;
-    } catch (error) {
-      console.error('Git push failed:', error);
-      return false;
-    }
+    return files;
   }
 
   /**
-   * Pull changes from remote (if vault is a Git repository)
+   * Check if vault uses Git sync (alternative to Obsidian Sync)
    */
-  gitPull(): boolean {
-    if (!this.isGitVault()) {
-      return false;
-    }
-
-    try {
-      execSync('git pull', { cwd: this.config.vaultPath, stdio: 'ignore' });
-      return true;
-    } catch (error) {
-      console.error('Git pull failed:', error);
-      return false;
-    }
+  isGitVault(): boolean {
+    const gitDir = join(this.config.vaultPath, '.git');
+    return existsSync(gitDir);
   }
 
   /**
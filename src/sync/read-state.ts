@@ -0,0 +1,166 @@
+import { ReadLaterProvider, ArchiveResult } from '../types';
+import { ArticleIndex, ArticleIndexEntry } from './article-index';
+import { ExistingNote, getFrontmatterValue, splitFrontmatter } from './article-notes';
+
+/**
+ * Articles seen in the vault, split by whether they were marked read
+ */
+export interface ReadState {
+  read: string[];
+  unread: string[];
+}
+
+export interface WriteBackResult {
+  provider: string;
+  dryRun: boolean;
+  pending: ArticleIndexEntry[]; // marked read, not yet archived upstream
+  results: ArchiveResult[];
+}
+
+export interface WriteBackPreview {
+  provider: string;
+  enabled: boolean; // write-back turned on for the provider
+  supported: boolean;
+  pending: ArticleIndexEntry[];
+}
+
+// Frontmatter statuses that count as read
+const READ_STATUSES = ['read', 'archived', 'done'];
+
+const URL_PATTERN = /https?:\/\/[^\s<>()[\]"'`]+/g;
+
+const CHECKED_TASK = /^\s*[-*+]\s+\[[xX]\]/;
+const UNCHECKED_TASK = /^\s*[-*+]\s+\[ \]/;
+
+// Lines that start a new article entry in the output file, including managed-block markers
+const ENTRY_BOUNDARY = /^(#{1,6}\s|---\s*$|%% readlater:)/;
+
+function findUrls(text: string): string[] {
+  return (text.match(URL_PATTERN) || []).map(url => url.replace(/[.,;:!?*_]+$/, ''));
+}
+
+/**
+ * Find read state in a clippings file from its checkboxes
+ *
+ * A checked task (`- [x]`) marks the URLs on its own line as read; a checked
+ * task without a URL, such as `- [x] Read`, marks the first URL of its entry.
+ * Entries are separated by headings, `---` lines or managed-block markers.
+ */
+export function readStateFromContent(content: string): ReadState {
+  const read = new Set<string>();
+  const unread = new Set<string>();
+
+  let entryUrls: string[] = [];
+  let entryChecked: boolean | null = null;
+
+  const closeEntry = () => {
+    if (entryChecked !== null && entryUrls.length > 0) {
+      (entryChecked ? read : unread).add(entryUrls[0]);
+    }
+    entryUrls = [];
+    entryChecked = null;
+  };
+
+  for (const line of content.split('\n')) {
+    if (ENTRY_BOUNDARY.test(line)) {
+      closeEntry();
+    }
+
+    const urls = findUrls(line);
+    const checked = CHECKED_TASK.test(line);
+    const isTask = checked || UNCHECKED_TASK.test(line);
+
+    if (isTask && urls.length > 0) {
+      urls.forEach(url => (checked ? read : unread).add(url));
+    } else if (isTask) {
+      entryChecked = entryChecked || checked;
+    }
+
+    entryUrls.push(...urls);
+  }
+  closeEntry();
+
+  return {
+    read: Array.from(read),
+    unread: Array.from(unread).filter(url => !read.has(url)),
+  };
+}
+
+/**
+ * Find read state in article notes from their `status` frontmatter
+ */
+export function readStateFromNotes(notes: ExistingNote[]): ReadState {
+  const state: ReadState = { read: [], unread: [] };
+
+  for (const note of notes) {
+    const { frontmatter } = splitFrontmatter(note.content);
+    const url = frontmatter && getFrontmatterValue(frontmatter, 'url');
+    if (!url) continue;
+
+    const status = (getFrontmatterValue(frontmatter, 'status') || '').toLowerCase();
+    (READ_STATUSES.includes(status) ? state.read : state.unread).push(url);
+  }
+
+  return state;
+}
+
+/**
+ * Record read state in the index; returns the number of articles whose status changed
+ * Archived articles stay archived, and unchecking an article marks it unread again
+ */
+export function applyReadState(index: ArticleIndex, state: ReadState): number {
+  let changed = 0;
+
+  for (const url of state.read) {
+    if (index.getStatus(url) === 'unread' && index.setStatus(url, 'read')) {
+      changed++;
+    }
+  }
+
+  for (const url of state.unread) {
+    if (index.getStatus(url) === 'read' && index.setStatus(url, 'unread')) {
+      changed++;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Archive a provider's read articles on the site and mark them archived in the index
+ * The provider must already be authenticated. With dryRun, nothing is archived and
+ * `pending` lists what would be.
+ */
+export async function writeBackReadArticles(
+  provider: ReadLaterProvider,
+  index: ArticleIndex,
+  dryRun: boolean
+): Promise<WriteBackResult> {
+  const pending = index.withStatus('read', provider.displayName);
+  const result: WriteBackResult = { provider: provider.displayName, dryRun, pending, results: [] };
+
+  if (dryRun || pending.length === 0) {
+    return result;
+  }
+
+  result.results = await provider.archiveArticles(pending.map(entry => entry.url));
+
+  for (const archived of result.results.filter(r => r.success)) {
+    index.setStatus(archived.url, 'archived');
+  }
+
+  return result;
+}
+
+/**
+ * One-line summary of a write-back for logs and notices
+ */
+export function describeWriteBack(result: WriteBackResult): string {
+  if (result.dryRun) {
+    return `${result.provider}: would archive ${result.pending.length} read article(s)`;
+  }
+
+  const archived = result.results.filter(r => r.success).length;
+  const failed = result.results.length - archived;
+  return `${result.provider}: archived ${archived} read article(s)` + (failed > 0 ? `, ${failed} failed` : '');
+}
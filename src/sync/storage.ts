@@ -0,0 +1,33 @@
+import { ObsidianSyncManager } from './obsidian-sync';
+
+/**
+ * Where the sync engine reads and writes files; paths are relative to the vault
+ */
+export interface SyncStorage {
+  read(path: string): Promise<string | null>;
+
+  /** Create or overwrite a file, creating its folder if needed */
+  write(path: string, content: string): Promise<void>;
+
+  /** Markdown files in a folder and its subfolders */
+  list(folder: string): Promise<string[]>;
+}
+
+/**
+ * Storage on the filesystem through ObsidianSyncManager, used by the CLI
+ */
+export class FileSystemStorage implements SyncStorage {
+  constructor(private syncManager: ObsidianSyncManager) {}
+
+  async read(path: string): Promise<string | null> {
+    return this.syncManager.readFile(path);
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    this.syncManager.writeFile(path, content);
+  }
+
+  async list(folder: string): Promise<string[]> {
+    return this.syncManager.listFiles(folder);
+  }
+}
@@ -0,0 +1,81 @@
+import { ReadLaterArticle } from '../types';
+import { CompiledTemplate, compileTemplate } from './engine';
+import { SafeString, TemplateOptions } from './filters';
+
+// Fields available to article templates; `date` is kept as an alias of publicationDate
+export const ARTICLE_FIELDS = [
+  'title', 'url', 'excerpt', 'author', 'source', 'publicationDate', 'date', 'addedDate', 'tags', 'content',
+  'status', 'read',
+];
+
+// Default for both the plugin and the CLI
+export const DEFAULT_TEMPLATE = `## {{title}}
+- **Source:** {{source}}
+- **URL:** {{url}}
+- **Author:** {{author | default:"Unknown"}}
+- **Date:** {{date}}
+{{#if excerpt}}
+- **Excerpt:** {{excerpt}}
+{{/if}}
+{{#if tags}}
+- **Tags:** {{tags}}
+{{/if}}
+- {{read | checkbox}} Read
+
+---
+`;
+
+export const SAMPLE_ARTICLE: ReadLaterArticle = {
+  title: 'The [Surprising] Economics of *Reading Later*',
+  url: 'https://www.example.com/story/reading-later?utm_source=newsletter',
+  excerpt: 'Why we save more articles than we will ever read, and what to do about it.',
+  author: 'Jane Doe',
+  source: 'Wired.com',
+  publicationDate: '2024-03-01',
+  addedDate: new Date(2024, 2, 4, 9, 30),
+  tags: ['productivity', 'reading'],
+  content: 'Most saved articles are never opened again.\n\n## The backlog\n\nA **read-later** list grows faster than it shrinks.',
+};
+
+const compiled = new Map<string, CompiledTemplate>();
+
+/**
+ * Compile an article template, checking field names, and cache the result
+ */
+export function compileArticleTemplate(template: string): CompiledTemplate {
+  let result = compiled.get(template);
+
+  if (!result) {
+    result = compileTemplate(template, { fields: ARTICLE_FIELDS });
+    // Templates rarely change, so a small cache is plenty
+    if (compiled.size >= 10) compiled.clear();
+    compiled.set(template, result);
+  }
+
+  return result;
+}
+
+/**
+ * Template context for an article; `url` and `content` are already
+ * URL/Markdown so they are not escaped
+ */
+export function articleContext(article: ReadLaterArticle): Record<string, unknown> {
+  return {
+    title: article.title || 'Untitled',
+    url: new SafeString(article.url),
+    excerpt: article.excerpt,
+    author: article.author,
+    source: article.source,
+    publicationDate: article.publicationDate,
+    date: article.publicationDate,
+    addedDate: article.addedDate,
+    tags: article.tags || [],
+    content: article.content ? new SafeString(article.content) : undefined,
+    status: article.status || 'unread',
+    read: !!article.status && article.status !== 'unread',
+  };
+}
+
+export function formatArticle(article: ReadLaterArticle, template: string, options: TemplateOptions): string {
+  return compileArticleTemplate(template).render(articleContext(article), options);
+}
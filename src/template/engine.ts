@@ -0,0 +1,363 @@
+import { FILTERS, SafeString, TemplateOptions, escapeMarkdown, isEmpty, toText, unwrap } from './filters';
+
+/**
+ * A template that can't be compiled, with the 1-based line and column of the problem
+ */
+export class TemplateError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'TemplateError';
+  }
+}
+
+interface FilterCall {
+  name: string;
+  args: Array<string | number>;
+}
+
+interface Expression {
+  path: string;
+  filters: FilterCall[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression; raw: boolean }
+  | { type: 'if'; expression: Expression; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; expression: Expression; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'output'; body: string; raw: boolean; index: number }
+  | { kind: 'open'; block: string; body: string; index: number }
+  | { kind: 'close'; block: string; index: number }
+  | { kind: 'else'; index: number }
+  | { kind: 'comment'; index: number };
+
+export interface CompileOptions {
+  // Top-level field names the template may use; unknown names are reported as errors
+  fields?: string[];
+}
+
+const BLOCKS = ['if', 'each'];
+
+const PATH_PATTERN = /^(@index|@first|@last|this|[A-Za-z_][\w]*)(\.[A-Za-z_][\w]*)*$/;
+
+function positionAt(source: string, index: number): { line: number; column: number } {
+  const before = source.substring(0, index).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+function fail(source: string, index: number, message: string): never {
+  const { line, column } = positionAt(source, index);
+  throw new TemplateError(message, line, column);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const start = source.indexOf('{{', position);
+    if (start === -1) {
+      tokens.push({ kind: 'text', value: source.substring(position) });
+      break;
+    }
+
+    if (start > position) {
+      tokens.push({ kind: 'text', value: source.substring(position, start) });
+    }
+
+    const raw = source.startsWith('{{{', start);
+    const closer = raw ? '}}}' : '}}';
+    const end = source.indexOf(closer, start + closer.length);
+    if (end === -1) {
+      fail(source, start, `Unclosed tag, expected "${closer}"`);
+    }
+
+    const body = source.substring(start + closer.length, end).trim();
+    position = end + closer.length;
+
+    if (raw) {
+      tokens.push({ kind: 'output', body, raw: true, index: start });
+    } else if (body.startsWith('!')) {
+      tokens.push({ kind: 'comment', index: start });
+    } else if (body.startsWith('#')) {
+      const [block, ...rest] = body.substring(1).split(/\s+/);
+      tokens.push({ kind: 'open', block, body: rest.join(' '), index: start });
+    } else if (body.startsWith('/')) {
+      tokens.push({ kind: 'close', block: body.substring(1).trim(), index: start });
+    } else if (body === 'else') {
+      tokens.push({ kind: 'else', index: start });
+    } else {
+      tokens.push({ kind: 'output', body, raw: false, index: start });
+    }
+  }
+
+  stripStandaloneLines(tokens);
+  return tokens;
+}
+
+/**
+ * Remove the line of any block or comment tag that sits alone on its line,
+ * so `{{#if excerpt}}` on its own line doesn't leave a blank line behind
+ */
+function stripStandaloneLines(tokens: Token[]): void {
+  const isText = (token: Token | undefined): token is { kind: 'text'; value: string } =>
+    token !== undefined && token.kind === 'text';
+
+  // Decide on the original text first, since trimming one tag's line changes its neighbours
+  const standalone = tokens.map((token, i) => {
+    if (token.kind === 'text' || token.kind === 'output') return false;
+
+    const prev = tokens[i - 1];
+    const next = tokens[i + 1];
+    const atLineStart = prev === undefined ||
+      (isText(prev) && (/\n[ \t]*$/.test(prev.value) || (i === 1 && /^[ \t]*$/.test(prev.value))));
+    const atLineEnd = next === undefined ||
+      (isText(next) && (/^[ \t]*\r?\n/.test(next.value) || (i === tokens.length - 2 && /^[ \t]*$/.test(next.value))));
+
+    return atLineStart && atLineEnd;
+  });
+
+  tokens.forEach((token, i) => {
+    if (!standalone[i]) return;
+
+    const prev = tokens[i - 1];
+    const next = tokens[i + 1];
+    if (isText(prev)) prev.value = prev.value.replace(/[ \t]*$/, '');
+    if (isText(next)) next.value = next.value.replace(/^[ \t]*(\r?\n)?/, '');
+  });
+}
+
+function parseExpression(source: string, index: number, body: string, options: CompileOptions): Expression {
+  // Split on pipes outside quoted strings
+  const parts = body.match(/(?:"[^"]*"|'[^']*'|[^|])+/g) || [];
+  const path = (parts.shift() || '').trim();
+
+  if (!path) {
+    fail(source, index, 'Empty expression');
+  }
+  if (!PATH_PATTERN.test(path)) {
+    fail(source, index, `Invalid field name "${path}"`);
+  }
+
+  const root = path.split('.')[0];
+  if (options.fields && !root.startsWith('@') && root !== 'this' && !options.fields.includes(root)) {
+    fail(source, index, `Unknown field "${root}"`);
+  }
+
+  const filters = parts.map(part => {
+    const match = part.trim().match(/^([A-Za-z_]\w*)\s*(?::\s*([\s\S]*))?$/);
+    if (!match) {
+      fail(source, index, `Invalid filter "${part.trim()}"`);
+    }
+
+    const [, name, argList] = match;
+    const filter = FILTERS[name];
+    if (!filter) {
+      fail(source, index, `Unknown filter "${name}"`);
+    }
+
+    const args = argList === undefined ? [] : parseArgs(source, index, name, argList);
+    if (args.length < (filter.minArgs || 0) || args.length > filter.maxArgs) {
+      const expected = filter.minArgs === filter.maxArgs || !filter.minArgs
+        ? `${filter.maxArgs}`
+        : `${filter.minArgs}-${filter.maxArgs}`;
+      fail(source, index, `Filter "${name}" takes ${expected} argument(s), got ${args.length}`);
+    }
+
+    return { name, args };
+  });
+
+  return { path, filters };
+}
+
+function parseArgs(source: string, index: number, filter: string, argList: string): Array<string | number> {
+  const args: Array<string | number> = [];
+  const pattern = /\s*(?:"([^"]*)"|'([^']*)'|(-?\d+(?:\.\d+)?))\s*(,|$)/y;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < argList.length && (match = pattern.exec(argList))) {
+    args.push(match[3] !== undefined ? Number(match[3]) : match[1] ?? match[2]);
+    if (match[4] === '') break;
+  }
+
+  if (pattern.lastIndex < argList.length && argList.substring(pattern.lastIndex).trim()) {
+    fail(source, index, `Invalid arguments for filter "${filter}": use quoted strings or numbers`);
+  }
+
+  return args;
+}
+
+function parse(source: string, tokens: Token[], options: CompileOptions): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; index: number; inElse: boolean }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.body) : root;
+  };
+
+  for (const token of tokens) {
+    switch (token.kind) {
+      case 'text':
+        if (token.value) current().push({ type: 'text', value: token.value });
+        break;
+      case 'comment':
+        break;
+      case 'output':
+        current().push({
+          type: 'output',
+          expression: parseExpression(source, token.index, token.body, options),
+          raw: token.raw,
+        });
+        break;
+      case 'open': {
+        if (!BLOCKS.includes(token.block)) {
+          fail(source, token.index, `Unknown block "#${token.block}"`);
+        }
+        const node = {
+          type: token.block as 'if' | 'each',
+          expression: parseExpression(source, token.index, token.body, options),
+          body: [],
+          otherwise: [],
+        };
+        current().push(node);
+        stack.push({ node, index: token.index, inElse: false });
+        break;
+      }
+      case 'else': {
+        const top = stack[stack.length - 1];
+        if (!top || top.inElse) {
+          fail(source, token.index, '"{{else}}" outside of an #if or #each block');
+        }
+        top.inElse = true;
+        break;
+      }
+      case 'close': {
+        const top = stack.pop();
+        if (!top) {
+          fail(source, token.index, `"{{/${token.block}}}" without a matching "{{#${token.block}}}"`);
+        }
+        if (top.node.type !== token.block) {
+          fail(source, token.index, `Expected "{{/${top.node.type}}}" but found "{{/${token.block}}}"`);
+        }
+        break;
+      }
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    fail(source, unclosed.index, `"{{#${unclosed.node.type}}}" is never closed`);
+  }
+
+  return root;
+}
+
+interface Scope {
+  item: unknown;
+  data: Record<string, unknown>;
+}
+
+function lookup(path: string, scope: Scope, context: Record<string, unknown>): unknown {
+  const [head, ...rest] = path.split('.');
+  let value: unknown;
+
+  if (head.startsWith('@')) {
+    value = scope.data[head];
+  } else if (head === 'this') {
+    value = scope.item;
+  } else {
+    value = context[head];
+  }
+
+  for (const key of rest) {
+    const target = unwrap(value);
+    value = target !== null && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+  }
+
+  return value;
+}
+
+function evaluate(expression: Expression, scope: Scope, context: Record<string, unknown>, options: TemplateOptions): unknown {
+  return expression.filters.reduce(
+    (value, filter) => FILTERS[filter.name].apply(value, filter.args, options),
+    lookup(expression.path, scope, context)
+  );
+}
+
+function output(value: unknown, raw: boolean, options: TemplateOptions): string {
+  if (Array.isArray(value)) {
+    return value.map(item => output(item, raw, options)).join(', ');
+  }
+  if (raw || value instanceof SafeString) {
+    return toText(value, options);
+  }
+  return escapeMarkdown(toText(value, options));
+}
+
+function render(
+  nodes: TemplateNode[],
+  scope: Scope,
+  context: Record<string, unknown>,
+  options: TemplateOptions
+): string {
+  let result = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        result += node.value;
+        break;
+      case 'output':
+        result += output(evaluate(node.expression, scope, context, options), node.raw, options);
+        break;
+      case 'if': {
+        const value = evaluate(node.expression, scope, context, options);
+        result += render(isEmpty(value) ? node.otherwise : node.body, scope, context, options);
+        break;
+      }
+      case 'each': {
+        const value = unwrap(evaluate(node.expression, scope, context, options));
+        const items = Array.isArray(value) ? value : isEmpty(value) ? [] : [value];
+
+        if (items.length === 0) {
+          result += render(node.otherwise, scope, context, options);
+          break;
+        }
+
+        items.forEach((item, i) => {
+          const data = { '@index': i, '@first': i === 0, '@last': i === items.length - 1 };
+          result += render(node.body, { item, data }, context, options);
+        });
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+export class CompiledTemplate {
+  constructor(private nodes: TemplateNode[]) {}
+
+  render(context: Record<string, unknown>, options: TemplateOptions): string {
+    return render(this.nodes, { item: context, data: {} }, context, options);
+  }
+}
+
+/**
+ * Parse a template, throwing a TemplateError describing the first syntax problem
+ *
+ * Syntax:
+ *   {{field}}, {{field.sub}}          value, escaped for Markdown
+ *   {{{field}}}                       value without escaping
+ *   {{field | filter:"arg", 2}}       filters, applied left to right
+ *   {{#if field}}...{{else}}...{{/if}}
+ *   {{#each list}}{{this}}{{@index}}{{else}}...{{/each}}
+ *   {{! comment }}
+ */
+export function compileTemplate(source: string, options: CompileOptions = {}): CompiledTemplate {
+  return new CompiledTemplate(parse(source, tokenize(source), options));
+}
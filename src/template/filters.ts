@@ -0,0 +1,188 @@
+import { slugify } from '../sync/article-notes';
+
+export interface TemplateOptions {
+  dateFormat: string;
+}
+
+/**
+ * A value that is already Markdown (or a URL) and must not be escaped on output
+ */
+export class SafeString {
+  constructor(public value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+export interface TemplateFilter {
+  minArgs?: number;
+  maxArgs: number;
+  apply: (value: unknown, args: Array<string | number>, options: TemplateOptions) => unknown;
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DATE_TOKENS = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A|a/g;
+
+// Characters that would start Markdown formatting, links, tags, HTML or math in Obsidian
+const MARKDOWN_SPECIAL = /[\\`*_[\]<>|#~$]/g;
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+/**
+ * Format a date with moment-style tokens (YYYY, MM, DD, HH, mm, MMM, ddd, ...)
+ * Text in [brackets] is output literally
+ */
+export function formatDate(date: Date, format: string): string {
+  return format.replace(DATE_TOKENS, (token, literal?: string) => {
+    if (literal !== undefined) return literal;
+
+    const hours = date.getHours();
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      case 'MMMM': return MONTHS[date.getMonth()];
+      case 'MMM': return MONTHS[date.getMonth()].slice(0, 3);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      case 'D': return String(date.getDate());
+      case 'dddd': return WEEKDAYS[date.getDay()];
+      case 'ddd': return WEEKDAYS[date.getDay()].slice(0, 3);
+      case 'HH': return pad(hours);
+      case 'H': return String(hours);
+      case 'hh': return pad(hours % 12 || 12);
+      case 'h': return String(hours % 12 || 12);
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      case 'A': return hours < 12 ? 'AM' : 'PM';
+      case 'a': return hours < 12 ? 'am' : 'pm';
+      default: return token;
+    }
+  });
+}
+
+/**
+ * Backslash-escape characters that Markdown would otherwise interpret
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(MARKDOWN_SPECIAL, '\\$&');
+}
+
+export function unwrap(value: unknown): unknown {
+  return value instanceof SafeString ? value.value : value;
+}
+
+/**
+ * Convert a value to text for output or for a string filter
+ */
+export function toText(value: unknown, options: TemplateOptions): string {
+  value = unwrap(value);
+
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDate(value, options.dateFormat);
+  if (Array.isArray(value)) return value.map(item => toText(item, options)).join(', ');
+  return String(value);
+}
+
+export function isEmpty(value: unknown): boolean {
+  value = unwrap(value);
+  return value === null || value === undefined || value === '' || value === false ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * A filter that transforms text, applied to each item of a list
+ * Keeps SafeStrings safe, since these transforms don't introduce Markdown
+ */
+function textFilter(
+  transform: (text: string, args: Array<string | number>) => string,
+  maxArgs = 0
+): TemplateFilter {
+  const apply = (value: unknown, args: Array<string | number>, options: TemplateOptions): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(item => apply(item, args, options));
+    }
+
+    const result = transform(toText(value, options), args);
+    return value instanceof SafeString ? new SafeString(result) : result;
+  };
+
+  return { maxArgs, apply };
+}
+
+function toDate(value: unknown): Date | null {
+  value = unwrap(value);
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export const FILTERS: Record<string, TemplateFilter> = {
+  lower: textFilter(text => text.toLowerCase()),
+  upper: textFilter(text => text.toUpperCase()),
+  trim: textFilter(text => text.trim()),
+  slug: textFilter(text => slugify(text)),
+
+  truncate: {
+    ...textFilter((text, [length, suffix = '…']) => {
+      const max = Number(length);
+      return text.length > max ? text.slice(0, max).trimEnd() + suffix : text;
+    }, 2),
+    minArgs: 1,
+  },
+
+  // [[Link]] to a note, dropping characters that can't appear in link targets
+  wikilink: {
+    maxArgs: 0,
+    apply: (value, args, options) => {
+      if (Array.isArray(value)) {
+        return value.map(item => FILTERS.wikilink.apply(item, args, options));
+      }
+      const target = toText(value, options).replace(/[[\]|#^]/g, '').trim();
+      return new SafeString(target ? `[[${target}]]` : '');
+    },
+  },
+
+  join: {
+    maxArgs: 1,
+    apply: (value, [separator = ', '], options) => {
+      if (!Array.isArray(value)) return value;
+      const joined = value.map(item => toText(item, options)).join(String(separator));
+      return value.every(item => item instanceof SafeString) ? new SafeString(joined) : joined;
+    },
+  },
+
+  default: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (value, [fallback]) => isEmpty(value) ? fallback : value,
+  },
+
+  date: {
+    maxArgs: 1,
+    apply: (value, [format], options) => {
+      const date = toDate(value);
+      // Leave unparseable dates (e.g. "Yesterday") as they are
+      return date ? formatDate(date, format === undefined ? options.dateFormat : String(format)) : value;
+    },
+  },
+
+  // Task checkbox for a flag, e.g. `- {{read | checkbox}} Read`
+  checkbox: {
+    maxArgs: 0,
+    apply: value => new SafeString(isEmpty(value) ? '[ ]' : '[x]'),
+  },
+
+  raw: {
+    maxArgs: 0,
+    apply: (value, _args, options) => new SafeString(toText(value, options)),
+  },
+};
@@ -1,3 +1,7 @@
+import type { CustomProviderDefinition } from './providers/custom';
+import type { ProviderErrorKind } from './providers/errors';
+import type { EncryptedCredentials } from './credentials/encryption';
+
 export interface ReadLaterArticle {
   title: string;
   url: string;
@@ -7,38 +11,106 @@ export interface ReadLaterArticle {
   source: string;
   addedDate: Date;
   tags?: string[];
+  content?: string; // full article text as Markdown, when full-text extraction is enabled
+  status?: ArticleStatus; // read state tracked in the vault, see sync/read-state.ts
+}
+
+/**
+ * unread: still to read; read: marked read in Obsidian; archived: also removed from the site's saved list
+ */
+export type ArticleStatus = 'unread' | 'read' | 'archived';
+
+export interface ArchiveResult {
+  url: string;
+  success: boolean;
+  error?: string;
 }
 
 export interface ProviderCredentials {
   username?: string;
   password?: string;
   apiKey?: string;
+  apiSecret?: string;
   sessionToken?: string;
 }
 
+/**
+ * Alternative sets of credentials a provider accepts; any one complete set is enough
+ * e.g. [['username', 'password'], ['sessionToken']]
+ */
+export type CredentialRequirements = Array<Array<keyof ProviderCredentials>>;
+
+/**
+ * How long a provider waits at each step, in milliseconds
+ */
+export interface ProviderTimeouts {
+  loggedIn: number; // saved list appearing when checking whether a session is logged in
+  element: number; // login form fields appearing
+  login: number; // page changing after the login form is submitted
+  request: number; // loading the saved list and article pages, and API requests
+}
+
+export const DEFAULT_TIMEOUTS: ProviderTimeouts = {
+  loggedIn: 5000,
+  element: 10000,
+  login: 15000,
+  request: 30000,
+};
+
 export interface ProviderConfig {
   enabled: boolean;
   credentials: ProviderCredentials;
+  fetchFullText?: boolean; // visit each article and extract its content as Markdown
+  maxItems?: number; // cap on saved items fetched per sync
+  maxPages?: number; // cap on pages/loads when paginating the saved list
+  serverUrl?: string; // API server for self-hosted services such as Wallabag
+  writeBack?: boolean; // archive articles marked read in Obsidian on the site itself
+  timeouts?: Partial<ProviderTimeouts>; // overrides for slow sites
   lastSync?: Date;
 }
 
+export type OutputMode = 'file' | 'notes';
+
 export interface ReadLaterSettings {
+  outputMode: OutputMode; // 'file' = single output file, 'notes' = one note per article
   outputFile: string;
+  notesFolder: string; // used when outputMode is 'notes'
+  indexFile: string; // tracks articles already written, relative to the vault root
+  feedFile: string; // RSS feed of the articles fetched by each sync, empty = off
+  historyFile: string; // record of every sync run
+  syncLogNote: string; // note with the sync history as a table, empty = off
   providers: {
     [key: string]: ProviderConfig;
   };
+  customProviders: CustomProviderDefinition[]; // sites described by selectors, see providers/custom.ts
   syncInterval: number; // in minutes, 0 = manual only
+  retries: number; // extra attempts after a network error or rate limit
+  retryDelay: number; // seconds before the first retry, doubled for each one after
+  concurrency: number; // providers synced at the same time
   headlessMode: boolean;
+  persistSessions: boolean; // reuse browser sessions between syncs instead of logging in every time
+  sessionDir: string; // where sessions are stored, empty = default location in the home directory
+  writeBackDryRun: boolean; // log what write-back would archive instead of archiving it
   appendMode: boolean; // true = append to file, false = replace
   dateFormat: string;
   template: string;
+  encryptedCredentials?: EncryptedCredentials | null; // plugin only: every provider's credentials, encrypted with the master passphrase
 }
 
 export interface SyncResult {
   provider: string;
   success: boolean;
   articlesAdded: number;
+  articlesFetched?: number; // including ones seen before
+  durationMs?: number;
   error?: string;
+  errorKind?: ProviderErrorKind;
+  attempts?: number; // more than 1 if transient errors were retried
+}
+
+export interface FetchOptions {
+  // Articles synced before; providers skip extra work for them, such as fetching full text
+  isKnown?: (url: string) => boolean;
 }
 
 export abstract class ReadLaterProvider {
@@ -47,8 +119,54 @@ export abstract class ReadLaterProvider {
 
   constructor(protected config: ProviderConfig) {}
 
+  protected get timeouts(): ProviderTimeouts {
+    return { ...DEFAULT_TIMEOUTS, ...this.config.timeouts };
+  }
+
+  get credentials(): ProviderCredentials {
+    return this.config.credentials;
+  }
+
+  /**
+   * Use these credentials in place of the configured ones, e.g. with references resolved
+   * The provider gets its own copy of the config, so the settings keep the references
+   */
+  setCredentials(credentials: ProviderCredentials): void {
+    this.config = { ...this.config, credentials };
+  }
+
   abstract authenticate(): Promise<boolean>;
-  abstract fetchArticles(): Promise<ReadLaterArticle[]>;
-  abstract requiresCredentials(): string[];
+  abstract fetchArticles(options?: FetchOptions): Promise<ReadLaterArticle[]>;
+  abstract requiresCredentials(): CredentialRequirements;
   abstract supportsHeadless(): boolean;
+
+  /**
+   * Check whether the configured credentials satisfy at least one accepted set
+   */
+  hasRequiredCredentials(): boolean {
+    return this.requiresCredentials().some(set =>
+      set.every(key => !!this.config.credentials[key])
+    );
+  }
+
+  /**
+   * Whether archiveArticles can remove articles from the site's saved list
+   */
+  supportsArchive(): boolean {
+    return false;
+  }
+
+  /**
+   * Remove articles from the site's saved list (unsave or archive them)
+   * Call after authenticate() and before fetchArticles(), which ends the session
+   */
+  async archiveArticles(urls: string[]): Promise<ArchiveResult[]> {
+    return urls.map(url => ({ url, success: false, error: `${this.displayName} does not support archiving` }));
+  }
+
+  /**
+   * Release anything held open between authenticate() and fetchArticles(),
+   * such as a browser; called after a failed attempt
+   */
+  async cleanup(): Promise<void> {}
 }
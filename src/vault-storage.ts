@@ -0,0 +1,48 @@
+import { TFile, Vault } from 'obsidian';
+import { SyncStorage } from './sync/storage';
+
+/**
+ * Storage through the Obsidian Vault API, used by the plugin
+ * Files Obsidian doesn't index, such as the hidden article index, go through the adapter
+ */
+export class VaultStorage implements SyncStorage {
+  constructor(private vault: Vault) {}
+
+  async read(path: string): Promise<string | null> {
+    const file = this.vault.getAbstractFileByPath(path);
+
+    if (file instanceof TFile) {
+      return this.vault.read(file);
+    }
+
+    const adapter = this.vault.adapter;
+    return await adapter.exists(path) ? adapter.read(path) : null;
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    const file = this.vault.getAbstractFileByPath(path);
+
+    if (file instanceof TFile) {
+      await this.vault.modify(file, content);
+      return;
+    }
+
+    const folder = path.substring(0, path.lastIndexOf('/'));
+    if (folder && !(await this.vault.adapter.exists(folder))) {
+      await this.vault.createFolder(folder).catch(() => {});
+    }
+
+    if (path.endsWith('.md')) {
+      await this.vault.create(path, content);
+    } else {
+      await this.vault.adapter.write(path, content);
+    }
+  }
+
+  async list(folder: string): Promise<string[]> {
+    const prefix = `${folder.replace(/\/+$/, '')}/`;
+    return this.vault.getMarkdownFiles()
+      .map(file => file.path)
+      .filter(path => path.startsWith(prefix));
+  }
+}
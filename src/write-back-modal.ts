@@ -0,0 +1,43 @@
+import { App, Modal } from 'obsidian';
+import { WriteBackPreview } from './sync/read-state';
+
+/**
+ * Dry-run view of what write-back would archive on each site
+ */
+export class WriteBackPreviewModal extends Modal {
+  constructor(app: App, private previews: WriteBackPreview[]) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: 'Write-back preview' });
+
+    const withArticles = this.previews.filter(preview => preview.pending.length > 0);
+    if (withArticles.length === 0) {
+      contentEl.createEl('p', { text: 'No articles are marked read and waiting to be archived.' });
+      return;
+    }
+
+    for (const preview of withArticles) {
+      contentEl.createEl('h3', { text: preview.provider });
+
+      let note = 'These will be archived on the next sync.';
+      if (!preview.supported) {
+        note = `${preview.provider} doesn't support write-back; these stay in its saved list.`;
+      } else if (!preview.enabled) {
+        note = 'Write-back is off for this provider, so nothing will be archived.';
+      }
+      contentEl.createEl('p', { text: note, cls: 'readlater-provider-status' });
+
+      const list = contentEl.createEl('ul');
+      for (const entry of preview.pending) {
+        list.createEl('li').createEl('a', { text: entry.title || entry.url, href: entry.url });
+      }
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}